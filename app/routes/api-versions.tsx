@@ -0,0 +1,143 @@
+import { LoaderFunctionArgs, json, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireAdmin } from "~/utils/auth.server";
+import { getSystemPromptDocuments } from "~/utils/openai.server";
+import { checkApiVersionUpgrade } from "~/utils/schema-diff.server";
+import { getChatStore } from "~/utils/session.server";
+import { getApiVersion, getStore, isApiVersion, listStores, runWithStore, toStoreSummary } from "~/utils/stores.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "API version upgrade - Shopify Assistant" }];
+};
+
+// Most schema changes listed; the documents we rely on are always shown in full
+const MAX_LISTED_CHANGES = 200;
+
+// Compare a store's Admin API version with another and flag what our prompts rely on (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const store = getStore(params.get("store")) || await getChatStore(request);
+  const from = params.get("from")?.trim() || getApiVersion(store);
+  const to = params.get("to")?.trim() || "";
+
+  const base = { stores: listStores().map(toStoreSummary), storeId: store?.id || null, from, to };
+  if (!to) {
+    return json({ ...base, report: null, error: null });
+  }
+  if (!isApiVersion(from) || !isApiVersion(to)) {
+    return json({ ...base, report: null, error: "Use API version names like 2025-04" }, { status: 400 });
+  }
+
+  try {
+    // Both schemas are introspected through the chosen store
+    const report = await runWithStore(store, () => checkApiVersionUpgrade(from, to, getSystemPromptDocuments()));
+    return json({
+      ...base,
+      report: { ...report, changes: report.changes.slice(0, MAX_LISTED_CHANGES), totalChanges: report.changes.length },
+      error: null
+    });
+  } catch (error) {
+    return json({ ...base, report: null, error: `Couldn't load the schemas: ${error instanceof Error ? error.message : error}` });
+  }
+}
+
+export default function ApiVersions() {
+  const { stores, storeId, from, to, report, error } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+
+  const inputClass =
+    "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">API version upgrade</h1>
+        <Link to="/stores" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          Back to stores
+        </Link>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-4">
+        <Form method="get" className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap gap-2 items-end text-sm text-gray-700 dark:text-gray-300">
+          {stores.length > 1 && (
+            <label className="flex flex-col">
+              Store
+              <select name="store" defaultValue={storeId || undefined} className={inputClass}>
+                {stores.map((store) => <option key={store.id} value={store.id}>{store.name}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col">
+            From
+            <input name="from" type="text" defaultValue={from} className={`w-28 ${inputClass}`} />
+          </label>
+          <label className="flex flex-col">
+            To
+            <input name="to" type="text" defaultValue={to} placeholder="2025-04" required className={`w-28 ${inputClass}`} />
+          </label>
+          <button
+            type="submit"
+            disabled={navigation.state !== "idle"}
+            className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {navigation.state !== "idle" ? "Comparing..." : "Compare"}
+          </button>
+        </Form>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {report && (
+          <>
+            <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-2 text-sm text-gray-800 dark:text-gray-200">
+              <h2 className="font-medium">
+                Prompt examples and playbooks affected ({report.affected.length} of {report.checkedDocuments})
+              </h2>
+              {report.affected.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-300">
+                  Nothing the prompts rely on changes between {report.fromVersion} and {report.toVersion}.
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {report.affected.map((document, index) => (
+                    <li key={index} className="border-t dark:border-gray-700 pt-2">
+                      <p className="font-medium">{document.source}</p>
+                      <ul className="mt-1 text-xs list-disc list-inside">
+                        {document.changes.map((change, changeIndex) => (
+                          <li key={changeIndex} className={change.breaking ? "text-red-600 dark:text-red-400" : "text-yellow-700 dark:text-yellow-400"}>
+                            {change.detail}
+                          </li>
+                        ))}
+                        {document.validationErrors.map((message, messageIndex) => (
+                          <li key={`validation-${messageIndex}`} className="text-red-600 dark:text-red-400">{message}</li>
+                        ))}
+                      </ul>
+                      <details className="mt-1 text-xs">
+                        <summary className="cursor-pointer text-blue-600 dark:text-blue-400 hover:underline">Document ↓</summary>
+                        <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded whitespace-pre-wrap">{document.document}</pre>
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-2 text-sm text-gray-800 dark:text-gray-200">
+              <h2 className="font-medium">
+                All schema changes ({report.totalChanges}
+                {report.totalChanges > report.changes.length ? `, showing ${report.changes.length}` : ""})
+              </h2>
+              <ul className="text-xs space-y-1">
+                {report.changes.map((change, index) => (
+                  <li key={index} className={change.breaking ? "text-red-600 dark:text-red-400" : "text-yellow-700 dark:text-yellow-400"}>
+                    {change.detail}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
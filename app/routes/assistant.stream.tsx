@@ -0,0 +1,53 @@
+import { ActionFunctionArgs, json } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { handleChatMessage } from "~/utils/chat.server";
+import type { AgentEvent } from "~/utils/openai.server";
+import { ensureConversation } from "~/utils/session.server";
+
+// Stream a reply to a chat message as server-sent events: model text and
+// tool progress as they happen, then a final "done" (or "error") event
+export async function action({ request }: ActionFunctionArgs) {
+  await requireUser(request, { redirectToLogin: false });
+  const formData = await request.formData();
+  const userMessage = formData.get("message") as string;
+  if (!userMessage?.trim()) {
+    return json({ error: "Please enter a message" }, { status: 400 });
+  }
+
+  // The cookie goes out with the headers, before anything is stored
+  const cookie = await ensureConversation(request);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let open = true;
+      const send = (event: AgentEvent) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The browser went away; keep processing so the reply is still stored
+          open = false;
+        }
+      };
+
+      try {
+        const result = await handleChatMessage(request, userMessage, send);
+        send({ type: "done", reply: result.reply, debug: result.debug });
+      } catch (error: unknown) {
+        console.error("Error streaming message:", error);
+        send({ type: "error", message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        if (open) controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Set-Cookie": cookie
+    }
+  });
+}
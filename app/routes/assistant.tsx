@@ -1,25 +1,70 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { 
   ActionFunctionArgs, 
+  LoaderFunctionArgs,
   json, 
   type MetaFunction, 
   redirect 
 } from "@remix-run/node";
 import { 
   Form, 
+  Link,
   useActionData, 
+  useLoaderData,
   useNavigation,
+  useRevalidator,
   useSubmit
 } from "@remix-run/react";
-import { processUserMessage } from "~/utils/openai.server";
+import { requireUser } from "~/utils/auth.server";
+import { runWithAuditContext } from "~/utils/audit-log.server";
+import {
+  handleChatMessage,
+  syncBulkOperations,
+  tagMessagesWithStore,
+  trackBulkOperations
+} from "~/utils/chat.server";
+import {
+  getRecordStore,
+  listStores,
+  runWithStore,
+  toStoreSummary,
+  type StoreSummary
+} from "~/utils/stores.server";
+import type { AgentEvent, MutationFailure } from "~/utils/openai.server";
+import {
+  approvePendingMutation,
+  describePendingMutationOutcome,
+  rejectPendingMutation,
+  type PendingMutation
+} from "~/utils/mutation-approval.server";
+import { buildUndoOperations, undoChange, type ChangeRecord } from "~/utils/change-history.server";
+import type { BulkOperationRecord } from "~/utils/bulk-operations.server";
+import type { OperationPlan } from "~/utils/operation-executor.server";
+import { canMutate, checkMutationPermission, getPermissions, type Role } from "~/utils/permissions.server";
 import { 
   getChatHistory, 
   storeChatHistory, 
   clearChatHistory,
   getActiveOperation,
-  storeActiveOperation,
-  clearActiveOperation
+  clearActiveOperation,
+  getPendingMutations,
+  claimPendingMutation,
+  removePendingMutation,
+  getChangeRecords,
+  claimChangeRecord,
+  saveChangeRecord,
+  commitSession,
+  ensureChatId,
+  getChatStore,
+  selectChatStore,
+  listConversations,
+  getCurrentConversation,
+  createConversation,
+  switchConversation,
+  renameConversation,
+  deleteConversation
 } from "~/utils/session.server";
+import type { ChatMessage, Conversation } from "~/utils/chat-storage.server";
 
 export const meta: MetaFunction = () => {
   return [
@@ -28,11 +73,77 @@ export const meta: MetaFunction = () => {
   ];
 };
 
+// Load the selected conversation and the list of past conversations
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  // Post the outcome of any bulk operations that finished since the last load
+  const bulkOperations = await syncBulkOperations(request);
+  const conversations = await listConversations(request);
+  const currentConversation = await getCurrentConversation(request);
+  const messages = await getChatHistory(request);
+  const operation = await getActiveOperation(request);
+  const pendingMutations = await getPendingMutations(request);
+  const changeRecords = await getChangeRecords(request);
+  const permissions = getPermissions(user.role);
+  const store = await getChatStore(request);
+
+  return json({
+    stores: listStores().map(toStoreSummary),
+    store: store && toStoreSummary(store),
+    user: { name: user.name, email: user.email },
+    role: permissions.role,
+    canMutate: canMutate(permissions),
+    conversations,
+    currentConversation,
+    messages,
+    operation,
+    pendingMutations,
+    changeRecords,
+    bulkOperations
+  }, { headers: { "Set-Cookie": await commitSession(request) } });
+}
+
 // Handle POST form submissions
 export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
   const formData = await request.formData();
   const intent = formData.get("intent");
 
+  // Pick the store this conversation works on
+  if (intent === "select_store") {
+    const headers = { "Set-Cookie": await selectChatStore(request, formData.get("storeId") as string) };
+    return redirect("/assistant", { headers });
+  }
+
+  // Start a new conversation thread
+  if (intent === "new_conversation") {
+    await createConversation(request);
+    const headers = { "Set-Cookie": await commitSession(request) };
+    return redirect("/assistant", { headers });
+  }
+
+  // Switch to another conversation thread
+  if (intent === "switch_conversation") {
+    const chatId = formData.get("chatId") as string;
+    const headers = { "Set-Cookie": await switchConversation(request, chatId) };
+    return redirect("/assistant", { headers });
+  }
+
+  // Rename a conversation thread
+  if (intent === "rename_conversation") {
+    const chatId = formData.get("chatId") as string;
+    const title = (formData.get("title") as string) || "";
+    const headers = { "Set-Cookie": await renameConversation(request, chatId, title) };
+    return redirect("/assistant", { headers });
+  }
+
+  // Delete a conversation thread
+  if (intent === "delete_conversation") {
+    const chatId = formData.get("chatId") as string;
+    const headers = { "Set-Cookie": await deleteConversation(request, chatId) };
+    return redirect("/assistant", { headers });
+  }
+
   // Clear conversation
   if (intent === "clear") {
     const headers = { "Set-Cookie": await clearChatHistory(request) };
@@ -45,43 +156,184 @@ export async function action({ request }: ActionFunctionArgs) {
     return redirect("/assistant", { headers });
   }
 
-  // Process new message
-  const userMessage = formData.get("message") as string;
-  if (!userMessage?.trim()) {
-    return json({ error: "Please enter a message" });
-  }
+  // Approve or reject a mutation waiting for confirmation
+  if (intent === "approve_mutation" || intent === "reject_mutation") {
+    const mutationId = formData.get("mutationId") as string;
+    const pendingMutations = await getPendingMutations(request);
+    const pending = pendingMutations.find((m) => m.id === mutationId && m.status === "pending");
+    const chatHistory = await getChatHistory(request);
+    let changeRecords = await getChangeRecords(request);
+
+    if (!pending) {
+      return json({
+        error: "That change is no longer waiting for approval",
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
+
+    // An approved change runs on the store it was proposed for, even if the chat has switched since
+    const store = getRecordStore(pending.storeId);
+
+    if (intent === "approve_mutation") {
+      // The role may have changed since the mutation was proposed, so check it again
+      const refused = checkMutationPermission(getPermissions(user.role), pending.mutation);
+      if (refused) {
+        return json({
+          error: `Permission denied: ${refused}`,
+          messages: chatHistory,
+          pendingMutations,
+          changeRecords
+        });
+      }
+
+      if (!store) {
+        return json({
+          error: "The store this change was proposed for is no longer connected",
+          messages: chatHistory,
+          pendingMutations,
+          changeRecords
+        });
+      }
+    }
+
+    // Taken out of "pending" before anything runs, so a double-click or a resubmitted form finds it gone
+    if (!(await claimPendingMutation(request, pending.id, intent === "approve_mutation" ? "executing" : "rejected"))) {
+      return json({
+        error: "That change is no longer waiting for approval",
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
+
+    if (intent === "approve_mutation") {
+      // Attributed to whoever approved it, with the prompt that proposed it
+      const audit = { userId: user.id, userEmail: user.email, chatId: await ensureChatId(request), prompt: pending.prompt ?? null };
+      const changeRecord = await runWithAuditContext(audit, () =>
+        runWithStore(store, () => approvePendingMutation(pending))
+      );
+      if (changeRecord) {
+        changeRecords = await saveChangeRecord(request, changeRecord);
+      }
+      // Approved bulk mutations keep running on Shopify after this request
+      const bulkOperation = (pending.result as { bulkOperation?: BulkOperationRecord } | undefined)?.bulkOperation;
+      if (bulkOperation) {
+        await trackBulkOperations(request, [bulkOperation]);
+      }
+    } else {
+      rejectPendingMutation(pending);
+    }
 
-  // Get chat history and active operation from session
-  const chatHistory = await getChatHistory(request);
-  const activeOperation = await getActiveOperation(request);
+    // Record the decision in the conversation so the model sees it next turn
+    const outcomeMessage: ChatMessage = {
+      role: "assistant",
+      content: describePendingMutationOutcome(pending) +
+        "\n\n<debug-info hidden>" + JSON.stringify({ pending_mutation: pending }) + "</debug-info>",
+      mutationErrors: pending.userErrors
+        ? [{ tool: "execute_mutation", error: pending.error || "Shopify rejected the mutation", userErrors: pending.userErrors }]
+        : undefined
+    };
+    const messages = tagMessagesWithStore([...chatHistory, outcomeMessage], chatHistory.length, store);
+    // Only this mutation is taken off the list; others may have been claimed or added meanwhile
+    const remaining = await removePendingMutation(request, pending.id);
 
-  // Process the message through OpenAI
-  const result = await processUserMessage(userMessage, chatHistory, activeOperation);
+    const headers: Record<string, string> = {};
+    headers["Set-Cookie"] = await storeChatHistory(request, messages);
 
-  if (typeof result === "string") {
-    return json({ error: result });
+    return json({
+      reply: outcomeMessage.content,
+      messages,
+      pendingMutations: remaining,
+      changeRecords
+    }, { headers });
   }
 
-  // Prepare headers for setting cookies
-  const headers: Record<string, string> = {};
+  // Undo a change the assistant made, restoring the recorded "before" state
+  if (intent === "undo_change") {
+    const changeId = formData.get("changeId") as string;
+    const changeRecords = await getChangeRecords(request);
+    const record = changeRecords.find((r) => r.id === changeId && r.status === "applied");
+    const chatHistory = await getChatHistory(request);
+    const pendingMutations = await getPendingMutations(request);
+
+    if (!record) {
+      return json({
+        error: "That change can no longer be undone",
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
+
+    // Undoing a change writes to the store too, so read-only roles can't do it,
+    // and editors only through the mutations their allowlist has
+    const permissions = getPermissions(user.role);
+    const refused = canMutate(permissions)
+      ? buildUndoOperations(record).map((operation) => checkMutationPermission(permissions, operation.mutation)).find(Boolean)
+      : "your role can't change store data";
+    if (refused) {
+      return json({
+        error: `Permission denied: ${refused}`,
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
+
+    const store = getRecordStore(record.storeId);
+    if (!store) {
+      return json({
+        error: "The store this change was made on is no longer connected",
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
+
+    // Taken out of "applied" before anything runs, so a double-click can't undo it twice
+    if (!(await claimChangeRecord(request, record.id))) {
+      return json({
+        error: "That change can no longer be undone",
+        messages: chatHistory,
+        pendingMutations,
+        changeRecords
+      });
+    }
 
-  // Store updated chat history in session
-  headers["Set-Cookie"] = await storeChatHistory(request, result.messages);
+    const audit = { userId: user.id, userEmail: user.email, chatId: await ensureChatId(request), prompt: `Undo: ${record.summary}` };
+    await runWithAuditContext(audit, () => runWithStore(store, () => undoChange(record)));
+    const savedRecords = await saveChangeRecord(request, record);
 
-  // Store active operation if there is one
-  if (result.operation) {
-    headers["Set-Cookie"] = await storeActiveOperation(request, result.operation);
-  } else if (result.operationAborted || activeOperation) {
-    // Clear operation if it was aborted or was completed
-    headers["Set-Cookie"] = await clearActiveOperation(request);
+    const undoMessage: ChatMessage = {
+      role: "assistant",
+      content: record.status === "undone"
+        ? `Undid ${record.summary}. The previous values have been restored.`
+        : `I couldn't fully undo ${record.summary}: ${record.undoError}`
+    };
+    const messages = tagMessagesWithStore([...chatHistory, undoMessage], chatHistory.length, store);
+
+    const headers: Record<string, string> = {};
+    headers["Set-Cookie"] = await storeChatHistory(request, messages);
+
+    return json({
+      reply: undoMessage.content,
+      messages,
+      pendingMutations,
+      changeRecords: savedRecords
+    }, { headers });
+  }
+
+  // Process new message
+  const userMessage = formData.get("message") as string;
+  if (!userMessage?.trim()) {
+    return json({ error: "Please enter a message" });
   }
 
-  return json({ 
-    reply: result.reply, 
-    messages: result.messages,
-    operation: result.operation,
-    debug: result.debug
-  }, { headers });
+  const { cookie, ...result } = await handleChatMessage(request, userMessage);
+
+  return json(result, { headers: { "Set-Cookie": cookie } });
 }
 
 type AssistantActionResult = {
@@ -89,24 +341,209 @@ type AssistantActionResult = {
   reply?: string;
   messages?: any[];
   operation?: any;
+  pendingMutations?: PendingMutation[];
+  changeRecords?: ChangeRecord[];
   debug?: any;
 };
 
+type AssistantLoaderData = {
+  user: { name: string; email: string };
+  stores: StoreSummary[];
+  store: StoreSummary | null;
+  role: Role;
+  canMutate: boolean;
+  conversations: Conversation[];
+  currentConversation: Conversation | null;
+  messages: ChatMessage[];
+  operation: OperationPlan | null;
+  pendingMutations: PendingMutation[];
+  changeRecords: ChangeRecord[];
+  bulkOperations: BulkOperationRecord[];
+};
+
+// How often the page reloads while a bulk operation is running
+const BULK_OPERATION_POLL_MS = 5000;
+
+// A reply being streamed from /assistant/stream
+type StreamingReply = {
+  userMessage: string;
+  text: string;
+  steps: { id: string; label: string; status: "running" | "success" | "error" | "pending_approval" }[];
+  done: boolean;
+};
+
+// Read the server-sent events of a streamed reply, one "data: {...}" block at a time
+async function readAgentEvents(body: ReadableStream<Uint8Array>, onEvent: (event: AgentEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() || "";
+    for (const block of blocks) {
+      if (block.startsWith("data: ")) {
+        onEvent(JSON.parse(block.slice("data: ".length)));
+      }
+    }
+  }
+}
+
+// List of conversation threads with controls to create, switch, rename and delete them
+function ConversationSidebar({
+  conversations,
+  currentId,
+  disabled
+}: {
+  conversations: Conversation[];
+  currentId: string | null;
+  disabled: boolean;
+}) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <aside className="w-64 flex flex-col border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <Form method="post">
+          <button
+            type="submit"
+            name="intent"
+            value="new_conversation"
+            disabled={disabled}
+            className="w-full px-3 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-blue-300"
+          >
+            New Conversation
+          </button>
+        </Form>
+      </div>
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="px-2 py-4 text-xs text-gray-500 dark:text-gray-400">No conversations yet.</p>
+        )}
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group rounded-md px-2 py-1 ${
+              conversation.id === currentId
+                ? "bg-blue-50 dark:bg-gray-700"
+                : "hover:bg-gray-100 dark:hover:bg-gray-700"
+            }`}
+          >
+            {renamingId === conversation.id ? (
+              <Form method="post" className="flex" onSubmit={() => setRenamingId(null)}>
+                <input type="hidden" name="intent" value="rename_conversation" />
+                <input type="hidden" name="chatId" value={conversation.id} />
+                <input
+                  type="text"
+                  name="title"
+                  defaultValue={conversation.title}
+                  aria-label="Conversation name"
+                  className="flex-1 min-w-0 px-1 text-sm border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <button type="submit" className="ml-1 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                  Save
+                </button>
+              </Form>
+            ) : (
+              <div className="flex items-center">
+                <Form method="post" className="flex-1 min-w-0">
+                  <input type="hidden" name="chatId" value={conversation.id} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="switch_conversation"
+                    disabled={disabled}
+                    className="w-full text-left text-sm truncate text-gray-700 dark:text-gray-200"
+                    title={conversation.title}
+                  >
+                    {conversation.title}
+                  </button>
+                </Form>
+                <button
+                  type="button"
+                  onClick={() => setRenamingId(conversation.id)}
+                  className="ml-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hidden group-hover:inline"
+                >
+                  Rename
+                </button>
+                <Form
+                  method="post"
+                  onSubmit={(e) => {
+                    if (!window.confirm(`Delete "${conversation.title}"?`)) e.preventDefault();
+                  }}
+                >
+                  <input type="hidden" name="chatId" value={conversation.id} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="delete_conversation"
+                    disabled={disabled}
+                    className="ml-1 text-xs text-red-400 hover:text-red-600 hidden group-hover:inline"
+                  >
+                    Delete
+                  </button>
+                </Form>
+              </div>
+            )}
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+}
+
 export default function AssistantPage() {
+  const loaderData = useLoaderData<typeof loader>() as unknown as AssistantLoaderData;
   const actionData = useActionData<typeof action>() as AssistantActionResult | undefined;
   const navigation = useNavigation();
+  const revalidator = useRevalidator();
   const submit = useSubmit();
   const [message, setMessage] = useState("");
-  const isSubmitting = navigation.state === "submitting";
+  const [streaming, setStreaming] = useState<StreamingReply | null>(null);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [streamDebug, setStreamDebug] = useState<AssistantActionResult["debug"]>(null);
+  const isSubmitting = navigation.state === "submitting" || streaming !== null;
 
   // Check for error
-  const error = actionData?.error;
+  const error = streamError || actionData?.error;
+
+  // Debug details of the latest reply
+  const latestDebug = streamDebug || actionData?.debug;
+
+  // Bulk operations still running on Shopify
+  const runningBulkOperations = (loaderData.bulkOperations || []).filter((operation) => !operation.reported);
+
+  // Keep reloading while bulk operations run, so their completion shows up in the conversation
+  useEffect(() => {
+    if (runningBulkOperations.length === 0) return;
+    const timer = setInterval(() => {
+      if (revalidator.state === "idle") revalidator.revalidate();
+    }, BULK_OPERATION_POLL_MS);
+    return () => clearInterval(timer);
+  }, [runningBulkOperations.length, revalidator]);
+
+  // Drop the streamed copy of a reply once the reloaded conversation includes it
+  useEffect(() => {
+    setStreaming((current) => (current?.done ? null : current));
+  }, [loaderData.messages]);
   
-  // Create a nice format for messages
-  const messages = actionData?.messages || [];
+  // Messages of the selected conversation, reloaded after every action
+  const messages = loaderData.messages || [];
   
   // Check if there's an active operation
-  const activeOperation = actionData?.operation;
+  const activeOperation = loaderData.operation;
+
+  // Mutations waiting for the user to approve or reject them
+  const pendingMutations = loaderData.pendingMutations || [];
+
+  // Changes the assistant made that can still be undone
+  const undoableChanges = (loaderData.changeRecords || []).filter(
+    (record) => record.status === "applied"
+  );
   
   // Extract debug information for function calls
   const debugInfo: Record<number, unknown> = {};
@@ -130,12 +567,53 @@ export default function AssistantPage() {
     (msg: any) => msg.role === "user" || msg.role === "assistant"
   );
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  // Send the message to the streaming endpoint and render the reply as it arrives
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!message.trim() || isSubmitting) return;
 
-    submit(e.currentTarget, { replace: true });
+    const formData = new FormData(e.currentTarget);
     setMessage("");
+    setStreamError(null);
+    setStreamDebug(null);
+    setStreaming({ userMessage: message, text: "", steps: [], done: false });
+
+    const handleEvent = (event: AgentEvent) => {
+      if (event.type === "text_delta") {
+        setStreaming((current) => current && { ...current, text: current.text + event.delta });
+      } else if (event.type === "tool_call") {
+        setStreaming((current) => current && {
+          ...current,
+          steps: [...current.steps, { id: event.id, label: event.label, status: "running" }]
+        });
+      } else if (event.type === "tool_result") {
+        setStreaming((current) => current && {
+          ...current,
+          steps: current.steps.map((step) =>
+            step.id === event.id ? { ...step, label: event.label, status: event.status } : step
+          )
+        });
+      } else if (event.type === "done") {
+        setStreamDebug(event.debug || null);
+      } else if (event.type === "error") {
+        setStreamError(event.message);
+      }
+    };
+
+    try {
+      const response = await fetch("/assistant/stream", { method: "POST", body: formData });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Request failed with status ${response.status}`);
+      }
+      await readAgentEvents(response.body, handleEvent);
+    } catch (err) {
+      setStreamError(err instanceof Error ? err.message : String(err));
+    }
+
+    // Reload the stored conversation, which now includes the reply
+    setStreaming((current) => current && { ...current, done: true });
+    revalidator.revalidate();
   };
 
   const handleClearConversation = () => {
@@ -154,6 +632,23 @@ export default function AssistantPage() {
     document.body.removeChild(form);
   };
 
+  // Continuing a paused operation is a message of its own, so it goes through the same path as any other
+  const handleContinueOperation = () => {
+    const form = document.createElement("form");
+    form.method = "post";
+    form.action = "/assistant";
+
+    const messageInput = document.createElement("input");
+    messageInput.type = "hidden";
+    messageInput.name = "message";
+    messageInput.value = "continue";
+    form.appendChild(messageInput);
+
+    document.body.appendChild(form);
+    form.submit();
+    document.body.removeChild(form);
+  };
+
   const handleAbortOperation = () => {
     const form = document.createElement("form");
     form.method = "post";
@@ -171,173 +666,415 @@ export default function AssistantPage() {
   };
 
   return (
-    <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900">
-      {/* Header */}
-      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6">
-        <div className="flex justify-between items-center">
-          <div className="flex items-center">
-            <h1 className="text-xl font-bold text-gray-800 dark:text-white">
-              Shopify Assistant
-            </h1>
-            {activeOperation && (
-              <div className="ml-4 flex items-center">
-                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                  <svg className="mr-1.5 h-2 w-2 text-blue-400 animate-pulse" fill="currentColor" viewBox="0 0 8 8">
-                    <circle cx="4" cy="4" r="3" />
-                  </svg>
-                  Operation in Progress
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <ConversationSidebar
+        conversations={loaderData.conversations}
+        currentId={loaderData.currentConversation?.id || null}
+        disabled={isSubmitting}
+      />
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow py-4 px-6">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center">
+              <h1 className="text-xl font-bold text-gray-800 dark:text-white">
+                Shopify Assistant
+              </h1>
+              {loaderData.stores.length > 1 && (
+                <Form method="post" className="ml-3" onChange={(event) => submit(event.currentTarget)}>
+                  <input type="hidden" name="intent" value="select_store" />
+                  <select
+                    name="storeId"
+                    aria-label="Store"
+                    defaultValue={loaderData.store?.id}
+                    key={loaderData.store?.id}
+                    disabled={isSubmitting}
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                  >
+                    {loaderData.stores.map((store) => (
+                      <option key={store.id} value={store.id}>{store.name}</option>
+                    ))}
+                  </select>
+                </Form>
+              )}
+              {loaderData.currentConversation && (
+                <span className="ml-3 text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {loaderData.currentConversation.title}
                 </span>
-                <button
-                  onClick={handleAbortOperation}
-                  className="ml-2 text-xs text-red-600 dark:text-red-400 hover:underline"
-                >
-                  Abort
+              )}
+              <span
+                className="ml-3 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 capitalize"
+                title={loaderData.canMutate ? undefined : "Read-only: the assistant can't change store data"}
+              >
+                {loaderData.role}
+              </span>
+              {activeOperation && (
+                <div className="ml-4 flex items-center">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                    <svg className="mr-1.5 h-2 w-2 text-blue-400 animate-pulse" fill="currentColor" viewBox="0 0 8 8">
+                      <circle cx="4" cy="4" r="3" />
+                    </svg>
+                    Operation in Progress
+                  </span>
+                  <button
+                    onClick={handleContinueOperation}
+                    className="ml-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Continue
+                  </button>
+                  <button
+                    onClick={handleAbortOperation}
+                    className="ml-2 text-xs text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Abort
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              <button 
+                onClick={handleClearConversation}
+                className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Clear Conversation
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-300" title={loaderData.user.email}>
+                {loaderData.user.name}
+              </span>
+              {loaderData.role === "admin" && (
+                <>
+                  <Link to="/audit" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Audit log
+                  </Link>
+                  <Link to="/users" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Users
+                  </Link>
+                  <Link to="/stores" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Stores
+                  </Link>
+                  <Link to="/playbooks" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Playbooks
+                  </Link>
+                </>
+              )}
+              <Form method="post" action="/logout">
+                <button type="submit" className="text-sm text-gray-600 dark:text-gray-300 hover:underline">
+                  Sign out
                 </button>
-              </div>
-            )}
-          </div>
-          <button 
-            onClick={handleClearConversation}
-            className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
-          >
-            Clear Conversation
-          </button>
-        </div>
-      </header>
-
-      
-      {/* Chat Messages */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {error && (
-          <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-200 dark:text-red-800">
-            <p>Error: {error}</p>
-          </div>
-        )}
-        {displayMessages.length === 0 ? (
-          <div className="text-center py-12">
-            <h2 className="text-lg font-medium text-gray-700 dark:text-gray-300">
-              Welcome to Shopify Assistant
-            </h2>
-            <p className="text-gray-500 dark:text-gray-400 mt-2">
-              Ask me about your Shopify store, orders, inventory, customers, and more.
-            </p>
-            <div className="mt-4 text-xs text-gray-500">
-              <p>Try asking these questions:</p>
-              <ul className="mt-1 list-disc list-inside">
-                <li>"What is our store name and URL?"</li>
-                <li>"Show me recent orders"</li>
-                <li>"Find products with 'espresso' in the name"</li>
-                <li>"What is the SKU for [product name]?"</li>
-                <li>"Find customers who purchased more than $100 last month"</li>
-              </ul>
+              </Form>
             </div>
           </div>
-        ) : (
-          displayMessages.map((msg: any, index: number) => {
-            // Find the original index of this message in the full messages array
-            const originalIndex = messages.findIndex(
-              (m: any) => m.role === msg.role && m.content === msg.content
-            );
-            
-            // Check if we have debug info for this message
-            // const debug = debugInfo[originalIndex]; // Uncomment if needed
-            
-            return (
-              <div 
-                key={index} 
-                className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
-              >
+        </header>
+
+        
+        {/* Chat Messages */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-200 dark:text-red-800">
+              <p>Error: {error}</p>
+            </div>
+          )}
+          {displayMessages.length === 0 ? (
+            <div className="text-center py-12">
+              <h2 className="text-lg font-medium text-gray-700 dark:text-gray-300">
+                Welcome to Shopify Assistant
+              </h2>
+              <p className="text-gray-500 dark:text-gray-400 mt-2">
+                Ask me about your Shopify store, orders, inventory, customers, and more.
+              </p>
+              <div className="mt-4 text-xs text-gray-500">
+                <p>Try asking these questions:</p>
+                <ul className="mt-1 list-disc list-inside">
+                  <li>"What is our store name and URL?"</li>
+                  <li>"Show me recent orders"</li>
+                  <li>"Find products with 'espresso' in the name"</li>
+                  <li>"What is the SKU for [product name]?"</li>
+                  <li>"Find customers who purchased more than $100 last month"</li>
+                </ul>
+              </div>
+            </div>
+          ) : (
+            displayMessages.map((msg: any, index: number) => {
+              // Find the original index of this message in the full messages array
+              const originalIndex = messages.findIndex(
+                (m: any) => m.role === msg.role && m.content === msg.content
+              );
+              
+              // Check if we have debug info for this message
+              // const debug = debugInfo[originalIndex]; // Uncomment if needed
+              
+              return (
                 <div 
-                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                    msg.role === "user" 
-                      ? "bg-blue-500 text-white" 
-                      : "bg-white dark:bg-gray-800 shadow border dark:border-gray-700"
-                  }`}
+                  key={index} 
+                  className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">
-                    {msg.content && msg.content.includes("<debug-info hidden>")
-                      ? msg.content.split("<debug-info hidden>")[0].trim() 
-                      : msg.content}
-                  </p>
-                  
-                  {/* Debug information for OpenAI API tool calls */}
-                  {msg.role === "assistant" && actionData?.debug && actionData.debug.tool_calls && (
-                    <details className="mt-2 text-xs border-t pt-2">
-                      <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show API details ↓</summary>
-                      <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
-                        <p><strong>Tool Calls:</strong></p>
-                        <pre className="mt-1 text-xs whitespace-pre-wrap overflow-auto max-h-60">
-                          {JSON.stringify(actionData?.debug?.tool_calls, null, 2)}
-                        </pre>
+                  <div 
+                    className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                      msg.role === "user" 
+                        ? "bg-blue-500 text-white" 
+                        : "bg-white dark:bg-gray-800 shadow border dark:border-gray-700"
+                    }`}
+                  >
+                    <p className="text-sm whitespace-pre-wrap">
+                      {msg.content && msg.content.includes("<debug-info hidden>")
+                        ? msg.content.split("<debug-info hidden>")[0].trim() 
+                        : msg.content}
+                    </p>
+                    {msg.mutationErrors?.map((failure: MutationFailure, failureIndex: number) => (
+                      <div key={failureIndex} className="mt-2 p-2 text-xs rounded bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+                        <p className="font-medium">Shopify rejected a change</p>
+                        <ul className="mt-1 space-y-1">
+                          {failure.userErrors.map((userError, errorIndex) => (
+                            <li key={errorIndex}>
+                              <span className="font-mono">{userError.mutation}</span>
+                              {userError.field && (
+                                <span className="font-mono"> → {userError.field.join(".")}</span>
+                              )}
+                              : {userError.message}
+                              {userError.code && <span className="text-red-500 dark:text-red-400"> ({userError.code})</span>}
+                            </li>
+                          ))}
+                        </ul>
                       </div>
-                    </details>
-                  )}
-                  
-                  {/* Debug information for Operation status */}
-                  {msg.role === "assistant" && actionData?.debug && !actionData.debug.tool_calls && (
-                    <details className="mt-2 text-xs border-t pt-2">
-                      <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show Operation Status ↓</summary>
-                      <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
-                        <pre className="text-xs whitespace-pre-wrap overflow-auto max-h-60">
-                          {JSON.stringify(actionData?.debug, null, 2)}
-                        </pre>
+                    ))}
+                    {msg.deprecations?.length > 0 && (
+                      <div className="mt-2 p-2 text-xs rounded bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 border border-yellow-200 dark:border-yellow-800">
+                        <p className="font-medium">Deprecated Admin API usage</p>
+                        <ul className="list-disc list-inside">
+                          {msg.deprecations.map((warning: string, warningIndex: number) => (
+                            <li key={warningIndex}>{warning}</li>
+                          ))}
+                        </ul>
                       </div>
-                    </details>
+                    )}
+                    {msg.store && loaderData.stores.length > 1 && (
+                      <p className={`mt-1 text-xs ${msg.role === "user" ? "text-blue-100" : "text-gray-400 dark:text-gray-500"}`}>
+                        {msg.store.name}
+                      </p>
+                    )}
+                    
+                    {/* Debug information for OpenAI API tool calls */}
+                    {msg.role === "assistant" && latestDebug && latestDebug.tool_calls && (
+                      <details className="mt-2 text-xs border-t pt-2">
+                        <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show API details ↓</summary>
+                        <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
+                          <p><strong>Tool Calls:</strong></p>
+                          <pre className="mt-1 text-xs whitespace-pre-wrap overflow-auto max-h-60">
+                            {JSON.stringify(latestDebug.tool_calls, null, 2)}
+                          </pre>
+                        </div>
+                      </details>
+                    )}
+                    
+                    {/* Debug information for Operation status */}
+                    {msg.role === "assistant" && latestDebug && !latestDebug.tool_calls && (
+                      <details className="mt-2 text-xs border-t pt-2">
+                        <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show Operation Status ↓</summary>
+                        <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
+                          <pre className="text-xs whitespace-pre-wrap overflow-auto max-h-60">
+                            {JSON.stringify(latestDebug, null, 2)}
+                          </pre>
+                        </div>
+                      </details>
+                    )}
+                    
+                    {/* Look for hidden debug info embedded in the message */}
+                    {msg.role === "assistant" && msg.content && msg.content.includes("<debug-info hidden>") && (
+                      <details className="mt-2 text-xs border-t pt-2">
+                        <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show Agent Trace ↓</summary>
+                        <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
+                          <pre className="text-xs whitespace-pre-wrap overflow-auto max-h-60">
+                            {msg.content.includes("<debug-info hidden>") && msg.content.includes("</debug-info>") 
+                              ? msg.content.split("<debug-info hidden>")[1].split("</debug-info>")[0]
+                              : "No debug information available"}
+                          </pre>
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+          {pendingMutations.length > 0 && (
+            <div className="space-y-3">
+              {pendingMutations.map((pending) => (
+                <div
+                  key={pending.id}
+                  className="max-w-[80%] rounded-lg px-4 py-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700"
+                >
+                  <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                    Awaiting approval: {pending.preview.rootFields.join(", ") || pending.preview.operationName || "mutation"}
+                  </p>
+                  {pending.preview.targetIds.length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-700 dark:text-gray-300 list-disc list-inside">
+                      {pending.preview.targetIds.map((targetId) => (
+                        <li key={targetId}>{targetId}</li>
+                      ))}
+                    </ul>
                   )}
-                  
-                  {/* Look for hidden debug info embedded in the message */}
-                  {msg.role === "assistant" && msg.content && msg.content.includes("<debug-info hidden>") && (
-                    <details className="mt-2 text-xs border-t pt-2">
-                      <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show Agent Trace ↓</summary>
-                      <div className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded overflow-auto">
-                        <pre className="text-xs whitespace-pre-wrap overflow-auto max-h-60">
-                          {msg.content.includes("<debug-info hidden>") && msg.content.includes("</debug-info>") 
-                            ? msg.content.split("<debug-info hidden>")[1].split("</debug-info>")[0]
-                            : "No debug information available"}
-                        </pre>
-                      </div>
-                    </details>
+                  <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show variables ↓</summary>
+                    <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded text-xs whitespace-pre-wrap overflow-auto max-h-60">
+                      {JSON.stringify(pending.preview.variables, null, 2)}
+                    </pre>
+                  </details>
+                  <details className="mt-1 text-xs">
+                    <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Show mutation ↓</summary>
+                    <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded text-xs whitespace-pre-wrap overflow-auto max-h-60">
+                      {pending.mutation}
+                    </pre>
+                  </details>
+                  <Form method="post" className="mt-3 flex space-x-2">
+                    <input type="hidden" name="mutationId" value={pending.id} />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="approve_mutation"
+                      disabled={isSubmitting || !loaderData.canMutate}
+                      className="px-3 py-1 text-sm text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="reject_mutation"
+                      disabled={isSubmitting}
+                      className="px-3 py-1 text-sm text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </Form>
+                </div>
+              ))}
+            </div>
+          )}
+          {runningBulkOperations.length > 0 && (
+            <div className="space-y-2">
+              {runningBulkOperations.map((operation) => (
+                <div
+                  key={operation.id}
+                  className="max-w-[80%] flex items-center rounded-lg px-4 py-2 text-xs bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200"
+                >
+                  <svg className="mr-2 h-2 w-2 text-blue-400 animate-pulse" fill="currentColor" viewBox="0 0 8 8">
+                    <circle cx="4" cy="4" r="3" />
+                  </svg>
+                  {operation.type === "QUERY" ? "Bulk export" : `Bulk update of ${operation.rowCount ?? "?"} rows`}{" "}
+                  {operation.status.toLowerCase()}
+                  {operation.objectCount ? ` (${operation.objectCount} objects so far)` : ""}
+                </div>
+              ))}
+            </div>
+          )}
+          {undoableChanges.length > 0 && (
+            <details className="max-w-[80%] text-xs border rounded-lg px-4 py-2 bg-white dark:bg-gray-800 dark:border-gray-700">
+              <summary className="cursor-pointer font-medium text-gray-700 dark:text-gray-300">
+                Recent changes ({undoableChanges.length})
+              </summary>
+              <ul className="mt-2 space-y-2">
+                {undoableChanges.slice().reverse().map((record) => (
+                  <li key={record.id} className="flex items-center justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {new Date(record.createdAt).toLocaleString()}: {record.summary}
+                    </span>
+                    <Form method="post">
+                      <input type="hidden" name="changeId" value={record.id} />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="undo_change"
+                        disabled={isSubmitting || !loaderData.canMutate}
+                        className="ml-2 px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        Undo
+                      </button>
+                    </Form>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {streaming && (
+            <>
+              <div className="flex justify-end">
+                <div className="max-w-[80%] rounded-lg px-4 py-2 bg-blue-500 text-white">
+                  <p className="text-sm whitespace-pre-wrap">{streaming.userMessage}</p>
+                </div>
+              </div>
+              <div className="flex justify-start">
+                <div className="max-w-[80%] rounded-lg px-4 py-2 bg-white dark:bg-gray-800 shadow border dark:border-gray-700">
+                  {streaming.steps.length > 0 && (
+                    <ul className="mb-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                      {streaming.steps.map((step) => (
+                        <li
+                          key={step.id}
+                          className={
+                            step.status === "error"
+                              ? "text-red-600 dark:text-red-400"
+                              : step.status === "pending_approval"
+                                ? "text-amber-700 dark:text-amber-300"
+                                : step.status === "running"
+                                  ? "animate-pulse"
+                                  : undefined
+                          }
+                        >
+                          {step.status === "success" ? "✓ " : step.status === "error" ? "✗ " : "… "}
+                          {step.label}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {streaming.text ? (
+                    <p className="text-sm whitespace-pre-wrap">{streaming.text}</p>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce"></div>
+                      <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.2s" }}></div>
+                      <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.4s" }}></div>
+                    </div>
                   )}
                 </div>
               </div>
-            );
-          })
-        )}
-        {isSubmitting && (
-          <div className="flex justify-start">
-            <div className="max-w-[80%] rounded-lg px-4 py-2 bg-white dark:bg-gray-800 shadow border dark:border-gray-700">
-              <div className="flex space-x-2">
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce"></div>
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.2s" }}></div>
-                <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.4s" }}></div>
+            </>
+          )}
+          {navigation.state === "submitting" && (
+            <div className="flex justify-start">
+              <div className="max-w-[80%] rounded-lg px-4 py-2 bg-white dark:bg-gray-800 shadow border dark:border-gray-700">
+                <div className="flex space-x-2">
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce"></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.2s" }}></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0.4s" }}></div>
+                </div>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
-      {/* Input Form */}
-      <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
-        <Form method="post" onSubmit={handleSubmit}>
-          <div className="flex">
-            <input
-              type="text"
-              name="message"
-              placeholder={activeOperation ? "Respond to the assistant..." : "Ask about your store..."}
-              className="flex-1 px-4 py-2 border rounded-l-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              disabled={isSubmitting}
-            />
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="px-4 py-2 bg-blue-500 text-white rounded-r-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-blue-300"
-            >
-              Send
-            </button>
-          </div>
-        </Form>
+        {/* Input Form */}
+        <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
+          <Form method="post" onSubmit={handleSubmit}>
+            <div className="flex">
+              <input
+                type="text"
+                name="message"
+                placeholder={activeOperation ? "Respond to the assistant..." : "Ask about your store..."}
+                className="flex-1 px-4 py-2 border rounded-l-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                disabled={isSubmitting}
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-blue-500 text-white rounded-r-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-blue-300"
+              >
+                Send
+              </button>
+            </div>
+          </Form>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,151 @@
+import { LoaderFunctionArgs, json, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { requireAdmin } from "~/utils/auth.server";
+import {
+  auditEntriesToCsv,
+  queryAuditLog,
+  type AuditEntry,
+  type AuditFilters
+} from "~/utils/audit-log.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Audit log - Shopify Assistant" }];
+};
+
+// Most entries in one CSV export
+const CSV_EXPORT_LIMIT = 10000;
+
+// Read the filters from the query string
+function getFilters(url: URL): AuditFilters {
+  const param = (name: string) => url.searchParams.get(name)?.trim() || undefined;
+  return {
+    from: param("from"),
+    to: param("to"),
+    user: param("user"),
+    resourceId: param("resource"),
+    mutationName: param("mutation")
+  };
+}
+
+// List audit entries matching the filters, or download them as CSV with ?format=csv (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const url = new URL(request.url);
+  const filters = getFilters(url);
+
+  if (url.searchParams.get("format") === "csv") {
+    const entries = queryAuditLog({ ...filters, limit: CSV_EXPORT_LIMIT });
+    return new Response(auditEntriesToCsv(entries), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+      }
+    });
+  }
+
+  return json({ entries: queryAuditLog(filters) });
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  success: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  user_errors: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  error: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+};
+
+export default function Audit() {
+  // The CSV branch returns a plain Response, so the JSON shape is declared here
+  const { entries } = useLoaderData<typeof loader>() as unknown as { entries: AuditEntry[] };
+  const [searchParams] = useSearchParams();
+
+  const csvParams = new URLSearchParams(searchParams);
+  csvParams.set("format", "csv");
+
+  const inputClass =
+    "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">Audit log</h1>
+        <Link to="/assistant" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          Back to the assistant
+        </Link>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-4">
+        <Form method="get" className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap gap-2 items-end text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col">
+            From
+            <input name="from" type="date" defaultValue={searchParams.get("from") || ""} className={inputClass} />
+          </label>
+          <label className="flex flex-col">
+            To
+            <input name="to" type="date" defaultValue={searchParams.get("to") || ""} className={inputClass} />
+          </label>
+          <label className="flex flex-col">
+            User
+            <input name="user" type="text" placeholder="Email" defaultValue={searchParams.get("user") || ""} className={inputClass} />
+          </label>
+          <label className="flex flex-col">
+            Resource
+            <input name="resource" type="text" placeholder="gid://shopify/Product/123" defaultValue={searchParams.get("resource") || ""} className={`w-64 ${inputClass}`} />
+          </label>
+          <label className="flex flex-col">
+            Mutation
+            <input name="mutation" type="text" placeholder="productUpdate" defaultValue={searchParams.get("mutation") || ""} className={inputClass} />
+          </label>
+          <button type="submit" className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            Filter
+          </button>
+          <a href={`/audit?${csvParams}`} className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Export CSV
+          </a>
+        </Form>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-300">No mutations match these filters.</p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.id} className="bg-white dark:bg-gray-800 rounded-lg shadow px-4 py-3 text-sm text-gray-800 dark:text-gray-200">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                  <span className="font-medium">{entry.mutationName}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[entry.status] || ""}`}>
+                    {entry.status.replace("_", " ")}
+                  </span>
+                  <span className="text-xs text-gray-600 dark:text-gray-300">{entry.userEmail || "unknown user"}</span>
+                  {entry.store && <span className="text-xs text-gray-500 dark:text-gray-400">{entry.store}</span>}
+                </div>
+                {entry.prompt && (
+                  <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 italic">&ldquo;{entry.prompt}&rdquo;</p>
+                )}
+                {entry.resourceIds.length > 0 && (
+                  <p className="mt-1 text-xs font-mono text-gray-500 dark:text-gray-400 break-all">{entry.resourceIds.join(", ")}</p>
+                )}
+                {entry.userErrors.length > 0 && (
+                  <ul className="mt-1 text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+                    {entry.userErrors.map((error, index) => (
+                      <li key={index}>{error.field ? `${error.field.join(".")}: ` : ""}{error.message}</li>
+                    ))}
+                  </ul>
+                )}
+                <details className="mt-2 text-xs">
+                  <summary className="cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">Details ↓</summary>
+                  <p className="mt-1 text-gray-500 dark:text-gray-400">Chat: {entry.chatId || "none"}</p>
+                  <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded whitespace-pre-wrap overflow-auto max-h-60">{entry.document}</pre>
+                  <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded whitespace-pre-wrap overflow-auto max-h-60">
+                    {JSON.stringify(entry.variables, null, 2)}
+                  </pre>
+                  <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded whitespace-pre-wrap overflow-auto max-h-60">
+                    {JSON.stringify(entry.response, null, 2)}
+                  </pre>
+                </details>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { LoaderFunctionArgs, redirect } from "@remix-run/node";
+import { requireAdmin } from "~/utils/auth.server";
+import { commitSession, takeOAuthState } from "~/utils/session.server";
+import { callShopifyGraphQL } from "~/utils/shopify.server";
+import { exchangeCodeForToken, isValidShopDomain, verifyShopifyHmac } from "~/utils/shopify-oauth.server";
+import { saveShopToken } from "~/utils/shop-tokens.server";
+import { runWithStore } from "~/utils/stores.server";
+
+// Send the admin back to the Stores page with a message
+function failInstall(error: string, headers: HeadersInit) {
+  return redirect(`/stores?${new URLSearchParams({ error })}`, { headers });
+}
+
+// Finish installing the app: check Shopify's signature and our state nonce, then store the shop's offline token
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const shop = params.get("shop");
+  const code = params.get("code");
+  const expectedState = await takeOAuthState(request);
+  const headers = { "Set-Cookie": await commitSession(request) };
+
+  if (!isValidShopDomain(shop) || !code) {
+    return failInstall("The install request is missing the shop or code", headers);
+  }
+  if (!verifyShopifyHmac(params)) {
+    return failInstall("The install request's signature is invalid", headers);
+  }
+  if (!expectedState || params.get("state") !== expectedState) {
+    return failInstall("This install wasn't started from this browser. Please start it again.", headers);
+  }
+
+  const token = await exchangeCodeForToken(shop, code);
+  if (token.error || !token.accessToken) {
+    return failInstall(token.error || "Shopify didn't return an access token", headers);
+  }
+
+  // Use the shop's own name in the store picker when we can read it
+  let name = shop;
+  try {
+    const result = await runWithStore({ id: shop, name: shop, domain: shop, accessToken: token.accessToken }, () =>
+      callShopifyGraphQL<{ shop: { name: string } }>("query { shop { name } }")
+    );
+    name = result?.data?.shop?.name || shop;
+  } catch (error) {
+    console.warn(`Couldn't read the name of ${shop}:`, error);
+  }
+
+  saveShopToken({ domain: shop, name, accessToken: token.accessToken, scopes: token.scopes });
+
+  const query = new URLSearchParams({ installed: shop });
+  if (token.missingScopes.length > 0) {
+    query.set("missing", token.missingScopes.join(","));
+  }
+  return redirect(`/stores?${query}`, { headers });
+}
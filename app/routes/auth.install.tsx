@@ -0,0 +1,47 @@
+import { LoaderFunctionArgs, redirect } from "@remix-run/node";
+import { requireAdmin } from "~/utils/auth.server";
+import { setOAuthState } from "~/utils/session.server";
+import {
+  buildAuthorizeUrl,
+  createOAuthState,
+  isOAuthConfigured,
+  isValidShopDomain,
+  verifyShopifyHmac
+} from "~/utils/shopify-oauth.server";
+
+// Send the admin back to the Stores page with a message
+function failInstall(error: string) {
+  return redirect(`/stores?${new URLSearchParams({ error })}`);
+}
+
+// Where Shopify sends the merchant back after they approve the app
+function getCallbackUrl(request: Request) {
+  const appUrl = process.env.SHOPIFY_APP_URL || new URL(request.url).origin;
+  return `${appUrl.replace(/\/$/, "")}/auth/callback`;
+}
+
+// Start installing the app on a shop: /auth/install?shop=my-shop.myshopify.com (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  if (!isOAuthConfigured()) {
+    return failInstall("Set SHOPIFY_API_KEY, SHOPIFY_API_SECRET and TOKEN_ENCRYPTION_KEY to install the app on shops");
+  }
+
+  // Accept the bare shop name as well as the full domain
+  const shopParam = params.get("shop")?.trim().toLowerCase() || "";
+  const shop = shopParam && !shopParam.includes(".") ? `${shopParam}.myshopify.com` : shopParam;
+  if (!isValidShopDomain(shop)) {
+    return failInstall("Enter a shop domain ending in .myshopify.com");
+  }
+
+  // When Shopify's admin opens the app it signs the request; reject a signature that doesn't match
+  if (params.has("hmac") && !verifyShopifyHmac(params)) {
+    return failInstall("The install request's signature is invalid");
+  }
+
+  const state = createOAuthState();
+  return redirect(buildAuthorizeUrl(shop, state, getCallbackUrl(request)), {
+    headers: { "Set-Cookie": await setOAuthState(request, state) }
+  });
+}
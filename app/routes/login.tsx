@@ -0,0 +1,130 @@
+import {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  json,
+  type MetaFunction,
+  redirect
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import { getAuthMode, getCurrentUser, getSafeRedirect } from "~/utils/auth.server";
+import { setSessionUser } from "~/utils/session.server";
+import { authenticateUser, countUsers, createUser, MIN_PASSWORD_LENGTH } from "~/utils/users.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Sign in - Shopify Assistant" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const redirectTo = getSafeRedirect(new URL(request.url).searchParams.get("redirectTo"));
+
+  if (await getCurrentUser(request)) {
+    return redirect(redirectTo);
+  }
+
+  return json({
+    authMode: getAuthMode(),
+    // The first person to open the app creates the admin account
+    needsSetup: getAuthMode() === "password" && countUsers() === 0,
+    minPasswordLength: MIN_PASSWORD_LENGTH
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (getAuthMode() !== "password") {
+    return json({ error: "Sign in through your organization's single sign-on" }, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const email = String(formData.get("email") || "");
+  const password = String(formData.get("password") || "");
+  const redirectTo = getSafeRedirect(formData.get("redirectTo"));
+
+  // Create the first account, which is always an admin
+  if (intent === "setup") {
+    if (countUsers() > 0) {
+      return json({ error: "The admin account has already been created. Please sign in." }, { status: 400 });
+    }
+    const { user, error } = await createUser({
+      email,
+      name: String(formData.get("name") || ""),
+      password,
+      role: "admin",
+      onlyIfFirst: true
+    });
+    if (!user) {
+      return json({ error }, { status: 400 });
+    }
+    return redirect(redirectTo, { headers: { "Set-Cookie": await setSessionUser(request, user.id) } });
+  }
+
+  const user = await authenticateUser(email, password);
+  if (!user) {
+    return json({ error: "Incorrect email or password" }, { status: 401 });
+  }
+
+  return redirect(redirectTo, { headers: { "Set-Cookie": await setSessionUser(request, user.id) } });
+}
+
+export default function Login() {
+  const { authMode, needsSetup, minPasswordLength } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const isSubmitting = navigation.state === "submitting";
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 dark:bg-gray-900">
+      <div className="w-full max-w-sm rounded-lg bg-white dark:bg-gray-800 shadow p-6">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">
+          {needsSetup ? "Create the admin account" : "Sign in to Shopify Assistant"}
+        </h1>
+
+        {authMode === "header" ? (
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+            This assistant uses your organization&apos;s single sign-on. Open it through the company portal to sign in.
+          </p>
+        ) : (
+          <Form method="post" className="mt-4 space-y-4">
+            <input type="hidden" name="intent" value={needsSetup ? "setup" : "login"} />
+            <input type="hidden" name="redirectTo" value={searchParams.get("redirectTo") || ""} />
+            {needsSetup && (
+              <label className="block text-sm text-gray-700 dark:text-gray-300">
+                Name
+                <input name="name" type="text" autoComplete="name" className={`mt-1 ${inputClass}`} />
+              </label>
+            )}
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Email
+              <input name="email" type="email" autoComplete="email" required className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Password
+              <input
+                name="password"
+                type="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                minLength={needsSetup ? minPasswordLength : undefined}
+                required
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            {actionData?.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              {needsSetup ? "Create account" : "Sign in"}
+            </button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
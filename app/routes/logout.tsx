@@ -0,0 +1,11 @@
+import { ActionFunctionArgs, redirect } from "@remix-run/node";
+import { destroySession } from "~/utils/session.server";
+
+// Sign out and go back to the login page
+export async function action({ request }: ActionFunctionArgs) {
+  return redirect("/login", { headers: { "Set-Cookie": await destroySession(request) } });
+}
+
+export async function loader() {
+  return redirect("/assistant");
+}
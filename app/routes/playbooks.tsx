@@ -0,0 +1,263 @@
+import {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  json,
+  redirect,
+  type MetaFunction
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireAdmin } from "~/utils/auth.server";
+import {
+  createPlaybook,
+  deletePlaybook,
+  getPlaybook,
+  listPlaybooks,
+  listPlaybookVersions,
+  restorePlaybookVersion,
+  updatePlaybook,
+  type PlaybookInput
+} from "~/utils/playbooks.server";
+import { getChatStore } from "~/utils/session.server";
+import { getStore, listStores, toStoreSummary } from "~/utils/stores.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Playbooks - Shopify Assistant" }];
+};
+
+// List a store's playbooks, with the one being edited and its versions (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const store = getStore(params.get("store")) || await getChatStore(request);
+  const playbooks = store ? listPlaybooks(store.domain) : [];
+  const selected = playbooks.find((playbook) => playbook.id === params.get("playbook")) || null;
+
+  return json({
+    stores: listStores().map(toStoreSummary),
+    storeId: store?.id || null,
+    playbooks,
+    selected,
+    versions: selected ? listPlaybookVersions(selected.id) : []
+  });
+}
+
+function readInput(formData: FormData): PlaybookInput {
+  return {
+    title: String(formData.get("title") || ""),
+    keywords: String(formData.get("keywords") || ""),
+    content: String(formData.get("content") || "")
+  };
+}
+
+// Add, edit, restore and delete playbooks
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAdmin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create_playbook") {
+    const store = getStore(String(formData.get("storeId") || ""));
+    if (!store) {
+      return json({ error: "That store is no longer connected" }, { status: 404 });
+    }
+    const { playbook, error } = createPlaybook(store.domain, readInput(formData), user.email);
+    return playbook
+      ? redirect(`/playbooks?store=${encodeURIComponent(store.id)}&playbook=${playbook.id}`)
+      : json({ error }, { status: 400 });
+  }
+
+  const playbook = getPlaybook(String(formData.get("playbookId") || ""));
+  if (!playbook) {
+    return json({ error: "That playbook no longer exists" }, { status: 404 });
+  }
+
+  if (intent === "update_playbook") {
+    const { error } = updatePlaybook(playbook.id, readInput(formData), user.email);
+    return error ? json({ error }, { status: 400 }) : json({ message: `Saved version ${playbook.version + 1}` });
+  }
+
+  if (intent === "restore_version") {
+    const version = Number(formData.get("version"));
+    const { error } = restorePlaybookVersion(playbook.id, version, user.email);
+    return error ? json({ error }, { status: 400 }) : json({ message: `Restored version ${version} as version ${playbook.version + 1}` });
+  }
+
+  if (intent === "delete_playbook") {
+    deletePlaybook(playbook.id);
+    const store = listStores().find((entry) => entry.domain === playbook.shop);
+    return redirect(store ? `/playbooks?store=${encodeURIComponent(store.id)}` : "/playbooks");
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+}
+
+export default function Playbooks() {
+  const { stores, storeId, playbooks, selected, versions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as { error?: string; message?: string } | undefined;
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const storeQuery = storeId ? `store=${encodeURIComponent(storeId)}&` : "";
+
+  const inputClass =
+    "w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">Playbooks</h1>
+        <div className="flex items-center space-x-4">
+          {stores.length > 1 && (
+            <Form method="get">
+              <select
+                name="store"
+                defaultValue={storeId || undefined}
+                onChange={(event) => event.currentTarget.form?.submit()}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                {stores.map((store) => <option key={store.id} value={store.id}>{store.name}</option>)}
+              </select>
+            </Form>
+          )}
+          <Link to="/assistant" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Back to the assistant
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 flex gap-6">
+        <nav className="w-64 shrink-0 space-y-1">
+          <Link
+            to={`/playbooks?${storeQuery}`}
+            className="block px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            + New playbook
+          </Link>
+          {playbooks.map((playbook) => (
+            <Link
+              key={playbook.id}
+              to={`/playbooks?${storeQuery}playbook=${playbook.id}`}
+              className={`block px-3 py-2 rounded-md text-sm ${
+                playbook.id === selected?.id
+                  ? "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
+                  : "text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              }`}
+            >
+              <div className="font-medium">{playbook.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{playbook.keywords.join(", ")}</div>
+            </Link>
+          ))}
+        </nav>
+
+        <section className="flex-1 space-y-4">
+          {actionData?.error && <p className="text-sm text-red-600 dark:text-red-400">{actionData.error}</p>}
+          {actionData?.message && <p className="text-sm text-green-700 dark:text-green-400">{actionData.message}</p>}
+
+          {!storeId ? (
+            <p className="text-sm text-gray-600 dark:text-gray-300">Connect a store to add playbooks.</p>
+          ) : (
+            <Form
+              method="post"
+              key={selected ? `${selected.id}-${selected.version}` : "new"}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3 text-sm text-gray-700 dark:text-gray-300"
+            >
+              <input type="hidden" name="storeId" value={storeId} />
+              {selected && <input type="hidden" name="playbookId" value={selected.id} />}
+              <label className="block">
+                Title
+                <input name="title" type="text" required defaultValue={selected?.title} className={inputClass} />
+              </label>
+              <label className="block">
+                Keywords
+                <input
+                  name="keywords"
+                  type="text"
+                  required
+                  defaultValue={selected?.keywords.join(", ")}
+                  placeholder="price, pricelist, cost"
+                  className={inputClass}
+                />
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Comma-separated. The playbook is added to the assistant&apos;s instructions when a request mentions one of them.
+                </span>
+              </label>
+              <label className="block">
+                Procedure
+                <textarea name="content" required rows={14} defaultValue={selected?.content} className={`font-mono ${inputClass}`} />
+              </label>
+              <div className="flex justify-between items-center">
+                <button
+                  type="submit"
+                  name="intent"
+                  value={selected ? "update_playbook" : "create_playbook"}
+                  disabled={isSubmitting}
+                  className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+                >
+                  {selected ? "Save new version" : "Add playbook"}
+                </button>
+                {selected && (
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="delete_playbook"
+                    disabled={isSubmitting}
+                    formNoValidate
+                    onClick={(event) => {
+                      if (!confirm(`Delete the "${selected.title}" playbook?`)) event.preventDefault();
+                    }}
+                    className="px-2 py-1 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </Form>
+          )}
+
+          {selected && versions.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 text-sm text-gray-700 dark:text-gray-300">
+              <h2 className="font-medium mb-2">History</h2>
+              <ul className="space-y-2">
+                {versions.map((version) => (
+                  <li key={version.version} className="border-t dark:border-gray-700 pt-2">
+                    <div className="flex justify-between items-center">
+                      <span>
+                        Version {version.version}
+                        {version.version === selected.version && " (current)"}
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(version.updatedAt).toLocaleString()}
+                          {version.updatedBy ? ` by ${version.updatedBy}` : ""}
+                        </span>
+                      </span>
+                      {version.version !== selected.version && (
+                        <Form method="post">
+                          <input type="hidden" name="playbookId" value={selected.id} />
+                          <input type="hidden" name="version" value={version.version} />
+                          <button
+                            type="submit"
+                            name="intent"
+                            value="restore_version"
+                            disabled={isSubmitting}
+                            className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                          >
+                            Restore
+                          </button>
+                        </Form>
+                      )}
+                    </div>
+                    <details className="mt-1 text-xs">
+                      <summary className="cursor-pointer text-blue-600 dark:text-blue-400 hover:underline">
+                        {version.title} ↓
+                      </summary>
+                      <p className="mt-1 text-gray-500 dark:text-gray-400">Keywords: {version.keywords.join(", ")}</p>
+                      <pre className="mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded whitespace-pre-wrap">{version.content}</pre>
+                    </details>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  json,
+  type MetaFunction
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import { requireAdmin } from "~/utils/auth.server";
+import { getRequestedScopes, isOAuthConfigured } from "~/utils/shopify-oauth.server";
+import { listInstalledShops, removeShopToken, setShopApiVersion } from "~/utils/shop-tokens.server";
+import { DEFAULT_API_VERSION, isApiVersion, listStores, toStoreSummary } from "~/utils/stores.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Stores - Shopify Assistant" }];
+};
+
+// List the connected stores and how each was connected (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const installed = listInstalledShops();
+
+  return json({
+    stores: listStores().map((store) => {
+      const shop = installed.find((entry) => entry.domain === store.domain);
+      return {
+        ...toStoreSummary(store),
+        // Stores with a token in the environment take precedence over an install
+        source: store.accessToken ? "environment" : "installed",
+        scopes: shop?.scopes || [],
+        installedAt: shop?.installedAt || null
+      };
+    }),
+    defaultApiVersion: DEFAULT_API_VERSION,
+    requestedScopes: getRequestedScopes(),
+    canInstall: isOAuthConfigured()
+  });
+}
+
+// Change the API version of, or disconnect, a shop that was installed through OAuth
+export async function action({ request }: ActionFunctionArgs) {
+  await requireAdmin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const domain = String(formData.get("domain") || "");
+
+  if (!listInstalledShops().some((shop) => shop.domain === domain)) {
+    return json({ error: "That shop isn't installed" }, { status: 404 });
+  }
+
+  if (intent === "set_api_version") {
+    // An empty version goes back to the default
+    const apiVersion = String(formData.get("apiVersion") || "").trim();
+    if (apiVersion && !isApiVersion(apiVersion)) {
+      return json({ error: `"${apiVersion}" isn't an API version. Use a name like 2025-04.` }, { status: 400 });
+    }
+    setShopApiVersion(domain, apiVersion || null);
+    return json({ message: `${domain} now uses API version ${apiVersion || DEFAULT_API_VERSION}` });
+  }
+
+  if (intent === "remove_shop") {
+    removeShopToken(domain);
+    return json({ message: `Disconnected ${domain}. Uninstall the app from the shop's admin to revoke its token.` });
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+}
+
+export default function Stores() {
+  const { stores, defaultApiVersion, requestedScopes, canInstall } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as { error?: string; message?: string } | undefined;
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const isSubmitting = navigation.state === "submitting";
+
+  // Messages from the install flow arrive in the query string
+  const installed = searchParams.get("installed");
+  const missingScopes = searchParams.get("missing");
+  const error = actionData?.error || searchParams.get("error");
+  const message = actionData?.message || (installed ? `Connected ${installed}` : null);
+
+  const inputClass =
+    "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">Stores</h1>
+        <div className="flex space-x-4">
+          <Link to="/api-versions" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Check an API version upgrade
+          </Link>
+          <Link to="/assistant" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Back to the assistant
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-6">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {message && <p className="text-sm text-green-700 dark:text-green-400">{message}</p>}
+        {missingScopes && (
+          <p className="text-sm text-yellow-700 dark:text-yellow-400">
+            The shop didn&apos;t grant every scope the assistant needs: {missingScopes.split(",").join(", ")}. Some tools will fail there.
+          </p>
+        )}
+
+        {stores.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-300">No stores are connected yet.</p>
+        ) : (
+          <table className="w-full text-sm bg-white dark:bg-gray-800 rounded-lg shadow">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-4 py-2">Store</th>
+                <th className="px-4 py-2">Connected through</th>
+                <th className="px-4 py-2">API version</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {stores.map((store) => (
+                <tr key={store.id} className="border-t dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{store.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{store.domain}</div>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-600 dark:text-gray-300">
+                    {store.source === "environment" ? (
+                      "Admin API token in the environment"
+                    ) : (
+                      <>
+                        <div>App install{store.installedAt ? ` on ${new Date(store.installedAt).toLocaleDateString()}` : ""}</div>
+                        <div className="text-gray-500 dark:text-gray-400">{store.scopes.join(", ")}</div>
+                      </>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {store.source === "installed" ? (
+                      <Form method="post" className="flex space-x-2">
+                        <input type="hidden" name="domain" value={store.domain} />
+                        <input
+                          name="apiVersion"
+                          type="text"
+                          defaultValue={store.apiVersion === defaultApiVersion ? "" : store.apiVersion}
+                          placeholder={defaultApiVersion}
+                          className={`w-24 ${inputClass}`}
+                        />
+                        <button type="submit" name="intent" value="set_api_version" disabled={isSubmitting} className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+                          Save
+                        </button>
+                      </Form>
+                    ) : (
+                      <span className="text-xs">{store.apiVersion}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {store.source === "installed" && (
+                      <Form
+                        method="post"
+                        onSubmit={(event) => {
+                          if (!confirm(`Disconnect ${store.domain}?`)) event.preventDefault();
+                        }}
+                      >
+                        <input type="hidden" name="domain" value={store.domain} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="remove_shop"
+                          disabled={isSubmitting}
+                          className="px-2 py-1 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                        >
+                          Disconnect
+                        </button>
+                      </Form>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {canInstall ? (
+          <Form method="get" action="/auth/install" reloadDocument className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-2">
+            <div className="flex flex-wrap gap-2 items-center">
+              <input name="shop" type="text" placeholder="my-shop.myshopify.com" required className={`w-64 ${inputClass}`} />
+              <button type="submit" className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                Install on shop
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Requests these scopes: {requestedScopes.join(", ")}</p>
+          </Form>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Set SHOPIFY_API_KEY, SHOPIFY_API_SECRET and TOKEN_ENCRYPTION_KEY to connect shops by installing the app.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
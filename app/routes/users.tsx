@@ -0,0 +1,206 @@
+import {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  json,
+  type MetaFunction
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { getAuthMode, requireAdmin } from "~/utils/auth.server";
+import { isRole, ROLES } from "~/utils/permissions.server";
+import {
+  createUser,
+  deleteUser,
+  getUserById,
+  listUsers,
+  setUserPassword,
+  setUserRole
+} from "~/utils/users.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Users - Shopify Assistant" }];
+};
+
+// List the assistant's users (admins only)
+export async function loader({ request }: LoaderFunctionArgs) {
+  const currentUser = await requireAdmin(request);
+
+  return json({
+    currentUserId: currentUser.id,
+    users: listUsers(),
+    roles: ROLES,
+    authMode: getAuthMode()
+  });
+}
+
+// Add, change and remove users
+export async function action({ request }: ActionFunctionArgs) {
+  const currentUser = await requireAdmin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const role = formData.get("role");
+
+  if (intent === "create_user") {
+    if (!isRole(role)) {
+      return json({ error: "Please choose a role" }, { status: 400 });
+    }
+    const { user, error } = await createUser({
+      email: String(formData.get("email") || ""),
+      name: String(formData.get("name") || ""),
+      password: String(formData.get("password") || ""),
+      role
+    });
+    return user ? json({ message: `Added ${user.email}` }) : json({ error }, { status: 400 });
+  }
+
+  const user = getUserById(String(formData.get("userId") || ""));
+  if (!user) {
+    return json({ error: "That user no longer exists" }, { status: 404 });
+  }
+
+  // Admins can't lock themselves out by demoting or removing their own account
+  if ((intent === "set_role" || intent === "delete_user") && user.id === currentUser.id) {
+    return json({ error: "You can't change your own role or remove yourself" }, { status: 400 });
+  }
+
+  if (intent === "set_role") {
+    if (!isRole(role)) {
+      return json({ error: "Please choose a role" }, { status: 400 });
+    }
+    setUserRole(user.id, role);
+    return json({ message: `${user.email} is now ${role === "admin" ? "an" : "a"} ${role}` });
+  }
+
+  if (intent === "reset_password") {
+    const { error } = await setUserPassword(user.id, String(formData.get("password") || ""));
+    return error ? json({ error }, { status: 400 }) : json({ message: `Password changed for ${user.email}` });
+  }
+
+  if (intent === "delete_user") {
+    deleteUser(user.id);
+    return json({ message: `Removed ${user.email}` });
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+}
+
+export default function Users() {
+  const { currentUserId, users, roles, authMode } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as { error?: string; message?: string } | undefined;
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const inputClass =
+    "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+  const buttonClass =
+    "px-2 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow py-4 px-6 flex justify-between items-center">
+        <h1 className="text-xl font-bold text-gray-800 dark:text-white">Users</h1>
+        <Link to="/assistant" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          Back to the assistant
+        </Link>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-6">
+        {actionData?.error && <p className="text-sm text-red-600 dark:text-red-400">{actionData.error}</p>}
+        {actionData?.message && <p className="text-sm text-green-700 dark:text-green-400">{actionData.message}</p>}
+
+        <table className="w-full text-sm bg-white dark:bg-gray-800 rounded-lg shadow">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="px-4 py-2">User</th>
+              <th className="px-4 py-2">Role</th>
+              <th className="px-4 py-2">Last sign-in</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id} className="border-t dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                <td className="px-4 py-2">
+                  <div className="font-medium">{user.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{user.email}</div>
+                </td>
+                <td className="px-4 py-2">
+                  {user.id === currentUserId ? (
+                    <span className="capitalize">{user.role} (you)</span>
+                  ) : (
+                    <Form method="post" className="flex space-x-2">
+                      <input type="hidden" name="userId" value={user.id} />
+                      <select name="role" defaultValue={user.role} className={inputClass}>
+                        {roles.map((role) => <option key={role} value={role}>{role}</option>)}
+                      </select>
+                      <button type="submit" name="intent" value="set_role" disabled={isSubmitting} className={buttonClass}>
+                        Save
+                      </button>
+                    </Form>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                  {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end space-x-2">
+                    {authMode === "password" && (
+                      <Form method="post" className="flex space-x-2">
+                        <input type="hidden" name="userId" value={user.id} />
+                        <input name="password" type="password" placeholder="New password" autoComplete="new-password" required className={`w-32 ${inputClass}`} />
+                        <button type="submit" name="intent" value="reset_password" disabled={isSubmitting} className={buttonClass}>
+                          Set password
+                        </button>
+                      </Form>
+                    )}
+                    {user.id !== currentUserId && (
+                      <Form
+                        method="post"
+                        onSubmit={(event) => {
+                          if (!confirm(`Remove ${user.email}?`)) event.preventDefault();
+                        }}
+                      >
+                        <input type="hidden" name="userId" value={user.id} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="delete_user"
+                          disabled={isSubmitting}
+                          className="px-2 py-1 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </Form>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {authMode === "password" ? (
+          <Form method="post" className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap gap-2 items-center">
+            <input type="hidden" name="intent" value="create_user" />
+            <input name="name" type="text" placeholder="Name" className={inputClass} />
+            <input name="email" type="email" placeholder="Email" required className={inputClass} />
+            <input name="password" type="password" placeholder="Password" autoComplete="new-password" required className={inputClass} />
+            <select name="role" defaultValue="editor" className={inputClass}>
+              {roles.map((role) => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              Add user
+            </button>
+          </Form>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Users are added automatically the first time they sign in through single sign-on.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
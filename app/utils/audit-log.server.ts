@@ -0,0 +1,257 @@
+/**
+ * Append-only audit log of the Shopify mutations the assistant sends
+ * Every mutation that goes through callShopifyGraphQL is recorded with who
+ * asked for it, in which chat, the prompt, the document, variables and
+ * Shopify's response. The table refuses updates and deletes.
+ *
+ * Who is acting is carried in an AsyncLocalStorage context set around each
+ * request's work, so mutations deep inside tools, plans and undo are attributed
+ * without passing the user through every call.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getDatabase } from "./db.server";
+import { previewMutation } from "./mutation-preview.server";
+import { getCurrentStore } from "./stores.server";
+import { findUserErrors } from "./user-errors.server";
+import type { ShopifyGraphQLResponse } from "./shopify.server";
+
+export interface AuditContext {
+  userId: string | null;
+  userEmail: string | null;
+  chatId: string | null;
+  // The message (or action) that led to the mutation
+  prompt: string | null;
+}
+
+export type AuditStatus = "success" | "user_errors" | "error";
+
+export interface AuditEntry extends AuditContext {
+  id: number;
+  createdAt: string;
+  // Domain of the store the mutation was sent to
+  store: string | null;
+  mutationName: string;
+  document: string;
+  variables: unknown;
+  response: unknown;
+  userErrors: { field?: string[] | null; message: string; code?: string }[];
+  resourceIds: string[];
+  status: AuditStatus;
+}
+
+export interface AuditFilters {
+  // ISO dates; "to" includes the whole day when only a date is given
+  from?: string;
+  to?: string;
+  user?: string;
+  resourceId?: string;
+  mutationName?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 10000;
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a piece of work with every mutation it sends attributed to the given user, chat and prompt
+ */
+export function runWithAuditContext<T>(context: AuditContext, work: () => Promise<T>): Promise<T> {
+  return auditContext.run(context, work);
+}
+
+export function getAuditContext(): AuditContext | undefined {
+  return auditContext.getStore();
+}
+
+// Prepared statements, created with the table on first use
+let statements: ReturnType<typeof prepareStatements> | null = null;
+
+function prepareStatements() {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      user_id TEXT,
+      user_email TEXT,
+      chat_id TEXT,
+      prompt TEXT,
+      mutation_name TEXT NOT NULL,
+      document TEXT NOT NULL,
+      variables TEXT NOT NULL,
+      response TEXT NOT NULL,
+      user_errors TEXT NOT NULL,
+      resource_ids TEXT NOT NULL,
+      status TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS audit_log_created_at ON audit_log (created_at);
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `);
+
+  // The store column was added once more than one store could be connected
+  const columns = db.prepare("PRAGMA table_info(audit_log)").all() as { name: string }[];
+  if (!columns.some((column) => column.name === "store")) {
+    db.exec("ALTER TABLE audit_log ADD COLUMN store TEXT");
+  }
+
+  return {
+    insert: db.prepare(`
+      INSERT INTO audit_log (
+        created_at, user_id, user_email, chat_id, prompt, mutation_name,
+        document, variables, response, user_errors, resource_ids, status, store
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+  };
+}
+
+function getStatements() {
+  if (!statements) {
+    statements = prepareStatements();
+  }
+  return statements;
+}
+
+/**
+ * Record a mutation and Shopify's response to it
+ * A failure to write the log is reported but never fails the mutation, which has already been sent.
+ */
+export function recordMutation(
+  document: string,
+  variables: Record<string, unknown>,
+  result: Pick<ShopifyGraphQLResponse<unknown>, "data" | "errors">
+) {
+  try {
+    const context = getAuditContext();
+    const preview = previewMutation(document, variables);
+    const response = { data: result?.data, errors: result?.errors };
+    const userErrors = findUserErrors(result?.data).map(({ field, message, code }) => ({ field, message, code }));
+    const responseIds = JSON.stringify(result?.data ?? null).match(/gid:\/\/shopify\/[A-Za-z]+\/\d+/g) || [];
+    const resourceIds = Array.from(new Set([...preview.targetIds, ...responseIds]));
+    const status: AuditStatus = result?.errors?.length ? "error" : userErrors.length ? "user_errors" : "success";
+
+    getStatements().insert.run(
+      new Date().toISOString(),
+      context?.userId ?? null,
+      context?.userEmail ?? null,
+      context?.chatId ?? null,
+      context?.prompt ?? null,
+      preview.rootFields.join(", ") || preview.operationName || "unknown",
+      document,
+      JSON.stringify(variables),
+      JSON.stringify(response),
+      JSON.stringify(userErrors),
+      // Space-separated with spaces around, so a GID can be matched exactly with LIKE
+      ` ${resourceIds.join(" ")} `,
+      status,
+      getCurrentStore()?.domain ?? null
+    );
+  } catch (error) {
+    console.error("Failed to write the audit log:", error);
+  }
+}
+
+interface AuditRow {
+  id: number;
+  createdAt: string;
+  store: string | null;
+  userId: string | null;
+  userEmail: string | null;
+  chatId: string | null;
+  prompt: string | null;
+  mutationName: string;
+  document: string;
+  variables: string;
+  response: string;
+  userErrors: string;
+  resourceIds: string;
+  status: AuditStatus;
+}
+
+// An ISO timestamp for a date filter, or null if it's missing or not a date
+function toTimestamp(value: string | undefined): string | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+/**
+ * Find audit entries, newest first
+ */
+export function queryAuditLog(filters: AuditFilters = {}): AuditEntry[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  const from = toTimestamp(filters.from);
+  if (from) {
+    conditions.push("created_at >= ?");
+    params.push(from);
+  }
+  // A bare date means the end of that day
+  const to = toTimestamp(filters.to && /^\d{4}-\d{2}-\d{2}$/.test(filters.to) ? `${filters.to}T23:59:59.999Z` : filters.to);
+  if (to) {
+    conditions.push("created_at <= ?");
+    params.push(to);
+  }
+  if (filters.user) {
+    conditions.push("(user_email LIKE ? OR user_id = ?)");
+    params.push(`%${filters.user}%`, filters.user);
+  }
+  if (filters.resourceId) {
+    conditions.push("resource_ids LIKE ?");
+    params.push(`% ${filters.resourceId.trim()} %`);
+  }
+  if (filters.mutationName) {
+    conditions.push("mutation_name LIKE ?");
+    params.push(`%${filters.mutationName}%`);
+  }
+
+  const limit = Math.min(filters.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  // Make sure the table exists before querying it
+  getStatements();
+  const rows = getDatabase().prepare(`
+    SELECT id, created_at AS createdAt, store, user_id AS userId, user_email AS userEmail, chat_id AS chatId,
+      prompt, mutation_name AS mutationName, document, variables, response,
+      user_errors AS userErrors, resource_ids AS resourceIds, status
+    FROM audit_log ${where} ORDER BY id DESC LIMIT ?
+  `).all(...params, limit) as AuditRow[];
+
+  return rows.map((row) => ({
+    ...row,
+    variables: JSON.parse(row.variables),
+    response: JSON.parse(row.response),
+    userErrors: JSON.parse(row.userErrors),
+    resourceIds: row.resourceIds.trim().split(" ").filter(Boolean)
+  }));
+}
+
+// Quote a value for CSV when it contains a delimiter, quote or newline.
+// Values a spreadsheet would run as a formula get a leading ' (prompts, documents
+// and Shopify's messages all end up here, and none of them are trusted).
+function csvField(value: unknown): string {
+  const raw = value === null || value === undefined
+    ? ""
+    : typeof value === "string" ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export audit entries as CSV
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const columns: (keyof AuditEntry)[] = [
+    "id", "createdAt", "store", "userEmail", "userId", "chatId", "prompt", "mutationName", "status",
+    "resourceIds", "userErrors", "document", "variables", "response"
+  ];
+  const rows = entries.map((entry) =>
+    columns.map((column) => csvField(column === "resourceIds" ? entry.resourceIds.join(" ") : entry[column])).join(",")
+  );
+  return [columns.join(","), ...rows].join("\r\n") + "\r\n";
+}
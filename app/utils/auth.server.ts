@@ -0,0 +1,86 @@
+/**
+ * Who is using the assistant
+ * - password (default): users sign in on /login with a local account
+ * - header: a reverse proxy handles SSO and passes the user's email in a header,
+ *   which is trusted as is. Only use this when the app can't be reached except
+ *   through that proxy.
+ */
+import { json, redirect } from "@remix-run/node";
+import { getSessionUser, setSessionUser } from "./session.server";
+import { findOrCreateSsoUser, type User } from "./users.server";
+
+export type AuthMode = "password" | "header";
+
+export function getAuthMode(): AuthMode {
+  return process.env.AUTH_MODE === "header" ? "header" : "password";
+}
+
+// Headers set by the SSO proxy
+function getAuthHeaders() {
+  return {
+    email: process.env.AUTH_EMAIL_HEADER || "X-Forwarded-Email",
+    name: process.env.AUTH_NAME_HEADER || "X-Forwarded-User"
+  };
+}
+
+/**
+ * Only allow redirects back into the app after signing in
+ */
+export function getSafeRedirect(to: FormDataEntryValue | string | null, fallback = "/assistant") {
+  if (typeof to !== "string" || !to.startsWith("/") || to.startsWith("//")) {
+    return fallback;
+  }
+  return to;
+}
+
+/**
+ * Get the user making a request, or null if nobody is signed in
+ * In header mode the proxy's header wins over whoever the session had, so the session follows the SSO user.
+ */
+export async function getCurrentUser(request: Request): Promise<User | null> {
+  if (getAuthMode() === "header") {
+    const headers = getAuthHeaders();
+    const email = request.headers.get(headers.email);
+    if (!email) {
+      return null;
+    }
+
+    const user = await findOrCreateSsoUser(email, request.headers.get(headers.name) || undefined);
+    if (user) {
+      await setSessionUser(request, user.id);
+    }
+    return user;
+  }
+
+  return getSessionUser(request);
+}
+
+/**
+ * Get the signed-in user, or send the browser to the login page
+ * API-style requests (like the streaming endpoint) get a 401 instead of a redirect.
+ */
+export async function requireUser(request: Request, { redirectToLogin = true } = {}): Promise<User> {
+  const user = await getCurrentUser(request);
+  if (user) {
+    return user;
+  }
+
+  if (!redirectToLogin || getAuthMode() === "header") {
+    throw json({ error: "Please sign in to use the assistant" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const params = new URLSearchParams({ redirectTo: `${url.pathname}${url.search}` });
+  throw redirect(`/login?${params}`);
+}
+
+/**
+ * Get the signed-in user if they are an admin, otherwise refuse the request
+ */
+export async function requireAdmin(request: Request): Promise<User> {
+  const user = await requireUser(request);
+  if (user.role !== "admin") {
+    throw json({ error: "Only admins can do this" }, { status: 403 });
+  }
+  return user;
+}
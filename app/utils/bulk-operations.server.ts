@@ -0,0 +1,405 @@
+/**
+ * Shopify Bulk Operations
+ * Store-wide exports (bulkOperationRunQuery) and imports (bulkOperationRunMutation)
+ * run asynchronously on Shopify; we start them, poll their status and read the
+ * JSONL file they produce.
+ */
+import { callShopifyGraphQL, type ShopifyGraphQLResponse } from "./shopify.server";
+import { fetchFile } from "./replay.server";
+import { getCurrentStore, getRecordStore, runWithStore } from "./stores.server";
+
+// A bulk operation started from a conversation, tracked until it finishes
+export interface BulkOperationRecord {
+  id: string;
+  type: "QUERY" | "MUTATION";
+  status: string; // CREATED, RUNNING, COMPLETED, CANCELING, CANCELED, FAILED or EXPIRED
+  operation: string; // The bulk query or the mutation run once per row
+  rowCount?: number;
+  createdAt: string;
+  completedAt?: string | null;
+  objectCount?: number;
+  url?: string | null;
+  errorCode?: string | null;
+  reported: boolean; // Whether its outcome has been posted to the conversation
+  storeId?: string; // The store it runs on
+}
+
+// Summary of a downloaded JSONL result
+export interface BulkResultSummary {
+  lines: number;
+  sample: unknown[];
+  truncated: boolean;
+  failedLines?: number; // Mutation rows whose result had userErrors
+  failures?: unknown[];
+}
+
+// Lines of a result file returned to the model as a sample
+const RESULT_SAMPLE_SIZE = 50;
+
+// Stop reading result files after this many bytes
+const MAX_RESULT_BYTES = 50 * 1024 * 1024;
+
+const TERMINAL_STATUSES = ["COMPLETED", "CANCELED", "FAILED", "EXPIRED"];
+
+// A bulk operation as Shopify returns it (BULK_OPERATION_FIELDS)
+interface BulkOperationNode {
+  id: string;
+  type?: "QUERY" | "MUTATION";
+  status: string;
+  errorCode?: string | null;
+  createdAt?: string;
+  completedAt?: string | null;
+  objectCount?: string | null;
+  url?: string | null;
+  partialDataUrl?: string | null;
+}
+
+// What the mutations that start a bulk operation return
+type BulkOperationPayload = { bulkOperation: BulkOperationNode; userErrors: { message: string }[] };
+
+type StagedUploadPayload = {
+  stagedTargets: { url: string; resourceUrl: string; parameters: { name: string; value: string }[] }[];
+  userErrors: { message: string }[];
+};
+
+const BULK_OPERATION_FIELDS = `
+  id
+  type
+  status
+  errorCode
+  createdAt
+  completedAt
+  objectCount
+  url
+  partialDataUrl
+`;
+
+const RUN_QUERY_MUTATION = `
+  mutation bulkOperationRunQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation { ${BULK_OPERATION_FIELDS} }
+      userErrors { field message }
+    }
+  }
+`;
+
+const STAGED_UPLOAD_MUTATION = `
+  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets { url resourceUrl parameters { name value } }
+      userErrors { field message }
+    }
+  }
+`;
+
+const RUN_MUTATION_MUTATION = `
+  mutation bulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+    bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+      bulkOperation { ${BULK_OPERATION_FIELDS} }
+      userErrors { field message }
+    }
+  }
+`;
+
+const CURRENT_BULK_OPERATION_QUERY = `
+  query currentBulkOperation($type: BulkOperationType!) {
+    currentBulkOperation(type: $type) { ${BULK_OPERATION_FIELDS} }
+  }
+`;
+
+const BULK_OPERATION_QUERY = `
+  query bulkOperation($id: ID!) {
+    node(id: $id) { ... on BulkOperation { ${BULK_OPERATION_FIELDS} } }
+  }
+`;
+
+// First GraphQL or user error of a response, if any
+function getFirstError(
+  result: ShopifyGraphQLResponse<Record<string, { userErrors: { message: string }[] }>>,
+  field: string
+): string | null {
+  if (result.errors?.length) {
+    return result.errors[0]?.message || "Unknown error";
+  }
+  const userErrors = result.data?.[field]?.userErrors || [];
+  return userErrors.length > 0 ? userErrors.map((e) => e.message).join("; ") : null;
+}
+
+function toRecord(operation: BulkOperationNode, text: string, rowCount?: number): BulkOperationRecord {
+  return {
+    id: operation.id,
+    type: operation.type || (rowCount === undefined ? "QUERY" : "MUTATION"),
+    status: operation.status,
+    operation: text,
+    rowCount,
+    createdAt: operation.createdAt || new Date().toISOString(),
+    completedAt: operation.completedAt,
+    objectCount: operation.objectCount === undefined ? undefined : Number(operation.objectCount),
+    url: operation.url,
+    errorCode: operation.errorCode,
+    reported: false,
+    storeId: getCurrentStore()?.id
+  };
+}
+
+// The tool result the model sees once a bulk operation has been started
+function getStartedToolResult(record: BulkOperationRecord) {
+  return {
+    status: "started",
+    bulkOperationId: record.id,
+    bulkOperation: record,
+    message: "The bulk operation is running on Shopify. Tell the user it has started and that you will report in this conversation when it finishes. Don't wait for it; use check_bulk_operation only if the user asks about it."
+  };
+}
+
+/**
+ * Start a bulk export of everything a query selects
+ */
+export async function startBulkQuery({ query }: { query: string }) {
+  try {
+    const result = await callShopifyGraphQL<{ bulkOperationRunQuery: BulkOperationPayload }>(RUN_QUERY_MUTATION, { query });
+    const error = getFirstError(result, "bulkOperationRunQuery");
+    if (error) {
+      return { error, _graphql: result._graphql };
+    }
+
+    const record = toRecord(result.data!.bulkOperationRunQuery.bulkOperation, query);
+    return { ...getStartedToolResult(record), _graphql: result._graphql };
+  } catch (error: unknown) {
+    return { error: error instanceof Error ? error.message : "Error starting bulk query" };
+  }
+}
+
+/**
+ * Start a bulk import that runs a mutation once per row of variables
+ * The rows are uploaded as a JSONL file to a staged upload target first.
+ */
+export async function startBulkMutation(
+  { mutation, variables }: { mutation: string; variables: Record<string, unknown>[] }
+) {
+  try {
+    if (!Array.isArray(variables) || variables.length === 0) {
+      return { error: "variables must be a non-empty array with one object per mutation call" };
+    }
+
+    const staged = await callShopifyGraphQL<{ stagedUploadsCreate: StagedUploadPayload }>(STAGED_UPLOAD_MUTATION, {
+      input: [{
+        resource: "BULK_MUTATION_VARIABLES",
+        filename: "bulk_op_vars.jsonl",
+        mimeType: "text/jsonl",
+        httpMethod: "POST"
+      }]
+    });
+    const stagedError = getFirstError(staged, "stagedUploadsCreate");
+    if (stagedError) {
+      return { error: stagedError, _graphql: staged._graphql };
+    }
+
+    const target = staged.data!.stagedUploadsCreate.stagedTargets[0];
+    const form = new FormData();
+    let stagedUploadPath = "";
+    for (const { name, value } of target.parameters) {
+      form.append(name, value);
+      if (name === "key") stagedUploadPath = value;
+    }
+    const jsonl = variables.map((row) => JSON.stringify(row)).join("\n");
+    form.append("file", new Blob([jsonl], { type: "text/jsonl" }), "bulk_op_vars.jsonl");
+
+    const upload = await fetchFile(target.url, { method: "POST", body: form });
+    if (!upload.ok) {
+      return { error: `Uploading the bulk mutation variables failed with HTTP ${upload.status}` };
+    }
+
+    const result = await callShopifyGraphQL<{ bulkOperationRunMutation: BulkOperationPayload }>(
+      RUN_MUTATION_MUTATION,
+      { mutation, stagedUploadPath }
+    );
+    const error = getFirstError(result, "bulkOperationRunMutation");
+    if (error) {
+      return { error, _graphql: result._graphql };
+    }
+
+    const record = toRecord(result.data!.bulkOperationRunMutation.bulkOperation, mutation, variables.length);
+    return { ...getStartedToolResult(record), _graphql: result._graphql };
+  } catch (error: unknown) {
+    return { error: error instanceof Error ? error.message : "Error starting bulk mutation" };
+  }
+}
+
+/**
+ * Fetch the latest state of a bulk operation
+ * currentBulkOperation is checked first; if a newer operation of the same type
+ * has replaced it there, the operation is looked up by ID instead.
+ */
+async function fetchBulkOperation(id: string, type: "QUERY" | "MUTATION"): Promise<BulkOperationNode | null> {
+  const current = await callShopifyGraphQL<{ currentBulkOperation: BulkOperationNode | null }>(
+    CURRENT_BULK_OPERATION_QUERY,
+    { type }
+  );
+  if (current.data?.currentBulkOperation?.id === id) {
+    return current.data.currentBulkOperation;
+  }
+
+  const result = await callShopifyGraphQL<{ node: BulkOperationNode | null }>(BULK_OPERATION_QUERY, { id });
+  if (result.errors?.length) {
+    throw new Error(result.errors[0]?.message || "Error fetching bulk operation");
+  }
+  return result.data?.node || null;
+}
+
+/**
+ * Download a JSONL result file, keeping a sample of its lines
+ * Mutation results also count the rows that came back with userErrors.
+ */
+export async function downloadBulkResults(url: string, type: "QUERY" | "MUTATION"): Promise<BulkResultSummary> {
+  const response = await fetchFile(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Downloading bulk operation results failed with HTTP ${response.status}`);
+  }
+
+  const summary: BulkResultSummary = { lines: 0, sample: [], truncated: false };
+  if (type === "MUTATION") {
+    summary.failedLines = 0;
+    summary.failures = [];
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let bytes = 0;
+
+  const readLine = (line: string) => {
+    if (!line.trim()) return;
+    const record = JSON.parse(line);
+    summary.lines++;
+    if (summary.sample.length < RESULT_SAMPLE_SIZE) {
+      summary.sample.push(record);
+    }
+
+    // Each mutation result line is { data: { <mutation>: { userErrors } }, __lineNumber }
+    if (type === "MUTATION") {
+      const payload = Object.values(record.data || {})[0] as { userErrors?: unknown[] } | undefined;
+      if (payload?.userErrors?.length) {
+        summary.failedLines!++;
+        if (summary.failures!.length < RESULT_SAMPLE_SIZE) {
+          summary.failures!.push(record);
+        }
+      }
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytes += value.length;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(readLine);
+
+    if (bytes > MAX_RESULT_BYTES) {
+      summary.truncated = true;
+      await reader.cancel();
+      return summary;
+    }
+  }
+
+  readLine(buffer);
+  return summary;
+}
+
+/**
+ * Report the status of a bulk operation, with a summary of its results once it has completed
+ */
+export async function checkBulkOperation({ id, type = "QUERY" }: { id: string; type?: "QUERY" | "MUTATION" }) {
+  try {
+    const operation = await fetchBulkOperation(id, type);
+    if (!operation) {
+      return { error: `Bulk operation ${id} not found` };
+    }
+
+    const record = toRecord(operation, "");
+    if (record.status !== "COMPLETED" || !record.url) {
+      return { data: { bulkOperation: operation } };
+    }
+
+    const results = await downloadBulkResults(record.url, record.type);
+    return { data: { bulkOperation: operation, results } };
+  } catch (error: unknown) {
+    return { error: error instanceof Error ? error.message : "Error checking bulk operation" };
+  }
+}
+
+/**
+ * Refresh bulk operations that are still running
+ * Returns every record, updated, plus the finished ones not yet reported.
+ */
+export async function refreshBulkOperations(records: BulkOperationRecord[]) {
+  const finished: BulkOperationRecord[] = [];
+
+  const updated = await Promise.all(records.map(async (record) => {
+    if (TERMINAL_STATUSES.includes(record.status)) {
+      // e.g. it failed as soon as it started
+      if (!record.reported) finished.push(record);
+      return record;
+    }
+
+    try {
+      // Ask the store it was started on, whichever store the chat uses now
+      const store = getRecordStore(record.storeId);
+      if (!store) return record;
+
+      return await runWithStore(store, async () => {
+        const operation = await fetchBulkOperation(record.id, record.type);
+        if (!operation) return record;
+
+        const refreshed = {
+          ...toRecord(operation, record.operation, record.rowCount),
+          type: record.type,
+          createdAt: record.createdAt,
+          storeId: record.storeId
+        };
+        if (TERMINAL_STATUSES.includes(refreshed.status)) {
+          finished.push(refreshed);
+        }
+        return refreshed;
+      });
+    } catch (error) {
+      console.error(`Error refreshing bulk operation ${record.id}:`, error);
+      return record;
+    }
+  }));
+
+  return { records: updated, finished };
+}
+
+/**
+ * Whether a bulk operation is still running on Shopify
+ */
+export function isBulkOperationRunning(record: BulkOperationRecord): boolean {
+  return !TERMINAL_STATUSES.includes(record.status);
+}
+
+/**
+ * Describe a finished bulk operation for the conversation
+ */
+export function describeBulkOperationOutcome(record: BulkOperationRecord): string {
+  const what = record.type === "QUERY" ? "bulk export" : `bulk update of ${record.rowCount ?? "?"} rows`;
+
+  switch (record.status) {
+    case "COMPLETED":
+      return record.type === "QUERY"
+        ? `The ${what} (${record.id}) has finished with ${record.objectCount ?? 0} objects.` +
+          (record.url ? ` Download the results (JSONL, link valid for a week): ${record.url}` : " There were no results.")
+        : `The ${what} (${record.id}) has finished; ${record.objectCount ?? 0} objects were processed. Ask me to check it for any rows that failed.`;
+    case "FAILED":
+      return `The ${what} (${record.id}) failed${record.errorCode ? ` with ${record.errorCode}` : ""}.`;
+    case "CANCELED":
+      return `The ${what} (${record.id}) was canceled.`;
+    case "EXPIRED":
+      return `The ${what} (${record.id}) expired before it could finish.`;
+    default:
+      return `The ${what} (${record.id}) is ${record.status.toLowerCase()}.`;
+  }
+}
@@ -0,0 +1,489 @@
+import { v4 as uuidv4 } from 'uuid';
+import { callShopifyGraphQL, executeShopifyMutation, type MutationResult } from './shopify.server';
+import { previewMutation } from './mutation-preview.server';
+import { getCurrentStore } from './stores.server';
+import { readInventoryChanges, type InventoryChangePayload, type InventoryLevelChange } from './inventory.server';
+
+// Types for recorded changes and their snapshots
+export type ShopifyRecord = Record<string, unknown>;
+
+// A resource as SNAPSHOT_QUERY selects it; which fields it has depends on its type
+export interface ResourceState {
+  __typename: string;
+  id: string;
+  title?: string;
+  status?: string;
+  vendor?: string | null;
+  productType?: string;
+  descriptionHtml?: string;
+  tags?: string[];
+  sku?: string | null;
+  price?: string;
+  compareAtPrice?: string | null;
+  barcode?: string | null;
+  inventoryPolicy?: string;
+  taxable?: boolean;
+  product?: { id: string };
+  tracked?: boolean;
+  unitCost?: { amount: string } | null;
+  measurement?: { weight: { unit: string; value: number } | null } | null;
+}
+
+export interface ResourceSnapshot {
+  id: string;
+  typename: string;
+  before: ResourceState | null;
+  after?: ResourceState | null;
+}
+
+interface MetafieldTarget {
+  ownerId: string;
+  namespace: string;
+  key: string;
+}
+
+export interface MetafieldSnapshot extends MetafieldTarget {
+  before: { type: string; value: string } | null;
+  after?: { type: string; value: string } | null;
+}
+
+export interface ChangeRecord {
+  id: string;
+  createdAt: string;
+  mutation: string;
+  variables: ShopifyRecord;
+  rootFields: string[];
+  summary: string;
+  resources: ResourceSnapshot[];
+  metafields: MetafieldSnapshot[];
+  inventory?: InventoryLevelChange[]; // Quantities changed by inventoryAdjustQuantities or inventorySetQuantities
+  status: 'applied' | 'undoing' | 'undone' | 'undo_failed'; // undoing: claimed by an undo in progress
+  storeId?: string; // The store the change was made on, and where undo has to go
+  undoneAt?: string;
+  undoError?: string;
+}
+
+export interface UndoOperation {
+  mutation: string;
+  variables: ShopifyRecord;
+}
+
+// Resource types we know how to snapshot and restore
+const SNAPSHOT_TYPES = ['Product', 'ProductVariant', 'InventoryItem', 'Order', 'Customer'];
+
+// Most IDs Shopify accepts in one nodes(ids:) lookup
+const NODES_PER_REQUEST = 250;
+
+const SNAPSHOT_QUERY = `#graphql
+  query ChangeSnapshot($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      __typename
+      id
+      ... on Product {
+        title
+        status
+        vendor
+        productType
+        descriptionHtml
+        tags
+      }
+      ... on ProductVariant {
+        sku
+        price
+        compareAtPrice
+        barcode
+        inventoryPolicy
+        taxable
+        product { id }
+      }
+      ... on InventoryItem {
+        sku
+        tracked
+        unitCost { amount }
+        measurement { weight { unit value } }
+      }
+      ... on Order { tags }
+      ... on Customer { tags }
+    }
+  }
+`;
+
+const METAFIELD_SNAPSHOT_QUERY = `#graphql
+  query MetafieldSnapshot($ownerId: ID!, $namespace: String!, $key: String!) {
+    node(id: $ownerId) {
+      ... on HasMetafields {
+        metafield(namespace: $namespace, key: $key) {
+          type
+          value
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Get the resource type from a Shopify GID
+ */
+function getGidType(gid: string): string | null {
+  const match = gid.match(/^gid:\/\/shopify\/([A-Za-z]+)\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * Fetch the current state of the given resources
+ */
+async function fetchResourceStates(ids: string[]): Promise<Map<string, ResourceState | null>> {
+  const states = new Map<string, ResourceState | null>();
+  if (ids.length === 0) return states;
+
+  // Larger changes are looked up in chunks, so they still get a snapshot
+  for (let start = 0; start < ids.length; start += NODES_PER_REQUEST) {
+    const chunk = ids.slice(start, start + NODES_PER_REQUEST);
+    const result = await callShopifyGraphQL<{ nodes: (ResourceState | null)[] }>(SNAPSHOT_QUERY, { ids: chunk });
+    const nodes = result.data?.nodes || [];
+
+    chunk.forEach((id, index) => {
+      states.set(id, nodes[index] || null);
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Fetch the current value of a metafield, or null if it isn't set
+ */
+async function fetchMetafieldState(
+  { ownerId, namespace, key }: MetafieldTarget
+): Promise<{ type: string; value: string } | null> {
+  const result = await callShopifyGraphQL<{ node: { metafield?: { type: string; value: string } | null } | null }>(
+    METAFIELD_SNAPSHOT_QUERY,
+    { ownerId, namespace, key }
+  );
+  return result.data?.node?.metafield || null;
+}
+
+/**
+ * Find the metafields a metafieldsSet mutation will write, from its variables
+ */
+function getMetafieldTargets(variables: ShopifyRecord): MetafieldTarget[] {
+  const metafields: (Partial<MetafieldTarget> | null)[] = Array.isArray(variables.metafields) ? variables.metafields : [];
+  return metafields
+    .filter((m): m is MetafieldTarget => !!(m && m.ownerId && m.namespace && m.key))
+    .map((m) => ({ ownerId: m.ownerId, namespace: m.namespace, key: m.key }));
+}
+
+/**
+ * Capture the state of everything a mutation is about to touch
+ */
+async function captureBeforeState(mutation: string, variables: ShopifyRecord) {
+  const preview = previewMutation(mutation, variables);
+  const ids = preview.targetIds.filter((id) => SNAPSHOT_TYPES.includes(getGidType(id) || ''));
+
+  const states = await fetchResourceStates(ids);
+  const resources: ResourceSnapshot[] = ids
+    .filter((id) => states.get(id))
+    .map((id) => ({
+      id,
+      typename: states.get(id)?.__typename || getGidType(id) || 'Unknown',
+      before: states.get(id) || null
+    }));
+
+  const metafields: MetafieldSnapshot[] = [];
+  if (preview.rootFields.includes('metafieldsSet')) {
+    for (const target of getMetafieldTargets(variables)) {
+      metafields.push({ ...target, before: await fetchMetafieldState(target) });
+    }
+  }
+
+  return { preview, resources, metafields };
+}
+
+/**
+ * The quantities an inventory mutation changed, from its response
+ * Setting "available" also changes "on_hand"; only the quantity the mutation
+ * named is kept, since undoing it puts the other back too.
+ */
+function readQuantityChanges(data: ShopifyRecord | undefined, variables: ShopifyRecord): InventoryLevelChange[] {
+  const name = (variables.input as { name?: string } | undefined)?.name;
+  return Object.values(data || {})
+    .flatMap((payload) => readInventoryChanges(payload as InventoryChangePayload | null))
+    .filter((change) => change.delta !== 0 && (!name || change.name === name));
+}
+
+/**
+ * Execute a mutation, recording before/after snapshots of the resources it touches
+ * so it can be undone later. changeRecord is null when the mutation certainly
+ * changed nothing, or nothing it changed can be restored. A mutation Shopify
+ * refused with userErrors may have made part of its change, so it is recorded too.
+ */
+export async function executeTrackedMutation(
+  { mutation, variables = {} }: { mutation: string; variables?: ShopifyRecord }
+): Promise<{ result: MutationResult; changeRecord: ChangeRecord | null }> {
+  let before;
+  try {
+    before = await captureBeforeState(mutation, variables);
+  } catch (error) {
+    // Never block the mutation itself because a snapshot failed
+    console.error("Error capturing snapshot before mutation:", error);
+    before = null;
+  }
+
+  const result = await executeShopifyMutation({ mutation, variables });
+
+  const applied = !result.error || !!result.userErrors;
+  if (!applied || !before) {
+    return { result, changeRecord: null };
+  }
+
+  try {
+    const after = await fetchResourceStates(before.resources.map((r) => r.id));
+    for (const resource of before.resources) {
+      resource.after = after.get(resource.id) || null;
+    }
+    for (const metafield of before.metafields) {
+      metafield.after = await fetchMetafieldState(metafield);
+    }
+  } catch (error) {
+    console.error("Error capturing snapshot after mutation:", error);
+  }
+
+  const changeRecord: ChangeRecord = {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    mutation,
+    variables,
+    rootFields: before.preview.rootFields,
+    summary: '',
+    resources: before.resources,
+    metafields: before.metafields,
+    inventory: readQuantityChanges(result.data, variables),
+    status: 'applied',
+    storeId: getCurrentStore()?.id
+  };
+  changeRecord.summary = describeChange(changeRecord);
+
+  if (buildUndoOperations(changeRecord).length === 0) {
+    return { result, changeRecord: null };
+  }
+  return { result, changeRecord };
+}
+
+/**
+ * Pick the fields whose value differs between two snapshots
+ */
+function changedFields(before: ResourceState, after: ResourceState | null | undefined, fields: (keyof ResourceState)[]) {
+  // Without an after snapshot, restore every field we know about
+  return fields.filter((field) => !after || JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * Build the mutations that restore the "before" state of a change record
+ */
+export function buildUndoOperations(record: ChangeRecord): UndoOperation[] {
+  const operations: UndoOperation[] = [];
+  const variantsByProduct = new Map<string, ShopifyRecord[]>();
+
+  for (const resource of record.resources) {
+    const before = resource.before;
+    if (!before) continue;
+    const after = resource.after;
+
+    // Tags are restored with a diff so tags added elsewhere in the meantime survive
+    const beforeTags = before.tags;
+    if (Array.isArray(beforeTags)) {
+      const afterTags = after?.tags || [];
+      const added = afterTags.filter((tag) => !beforeTags.includes(tag));
+      const removed = beforeTags.filter((tag) => !afterTags.includes(tag));
+
+      if (added.length > 0) {
+        operations.push({
+          mutation: `mutation UndoTagsAdd($id: ID!, $tags: [String!]!) {
+  tagsRemove(id: $id, tags: $tags) { userErrors { field message } }
+}`,
+          variables: { id: resource.id, tags: added }
+        });
+      }
+      if (removed.length > 0) {
+        operations.push({
+          mutation: `mutation UndoTagsRemove($id: ID!, $tags: [String!]!) {
+  tagsAdd(id: $id, tags: $tags) { userErrors { field message } }
+}`,
+          variables: { id: resource.id, tags: removed }
+        });
+      }
+    }
+
+    if (resource.typename === 'Product') {
+      const fields = changedFields(before, after, ['title', 'status', 'vendor', 'productType', 'descriptionHtml']);
+      if (fields.length > 0) {
+        const product: ShopifyRecord = { id: resource.id };
+        fields.forEach((field) => { product[field] = before[field]; });
+        operations.push({
+          mutation: `mutation UndoProductUpdate($product: ProductUpdateInput!) {
+  productUpdate(product: $product) { product { id } userErrors { field message } }
+}`,
+          variables: { product }
+        });
+      }
+    }
+
+    if (resource.typename === 'ProductVariant' && before.product?.id) {
+      const fields = changedFields(before, after, ['price', 'compareAtPrice', 'barcode', 'inventoryPolicy', 'taxable', 'sku']);
+      if (fields.length > 0) {
+        const variant: ShopifyRecord = { id: resource.id };
+        fields.forEach((field) => {
+          if (field === 'sku') {
+            variant.inventoryItem = { sku: before.sku };
+          } else {
+            variant[field] = before[field];
+          }
+        });
+        const variants = variantsByProduct.get(before.product.id) || [];
+        variants.push(variant);
+        variantsByProduct.set(before.product.id, variants);
+      }
+    }
+
+    if (resource.typename === 'InventoryItem') {
+      const fields = changedFields(before, after, ['sku', 'tracked', 'unitCost', 'measurement']);
+      if (fields.length > 0) {
+        const input: ShopifyRecord = {};
+        fields.forEach((field) => {
+          if (field === 'unitCost') {
+            input.cost = before.unitCost?.amount ?? null;
+          } else if (field === 'measurement') {
+            if (before.measurement?.weight) {
+              input.measurement = { weight: before.measurement.weight };
+            }
+          } else {
+            input[field] = before[field];
+          }
+        });
+        operations.push({
+          mutation: `mutation UndoInventoryItemUpdate($id: ID!, $input: InventoryItemInput!) {
+  inventoryItemUpdate(id: $id, input: $input) { inventoryItem { id } userErrors { field message } }
+}`,
+          variables: { id: resource.id, input }
+        });
+      }
+    }
+  }
+
+  variantsByProduct.forEach((variants, productId) => {
+    operations.push({
+      mutation: `mutation UndoVariantsUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+  productVariantsBulkUpdate(productId: $productId, variants: $variants) { productVariants { id } userErrors { field message } }
+}`,
+      variables: { productId, variants }
+    });
+  });
+
+  // Adjusted back by the opposite amount, so sales made since the change are kept
+  const adjustments = (record.inventory || []).filter((change) => change.name === 'available');
+  if (adjustments.length > 0) {
+    operations.push({
+      mutation: `mutation UndoInventoryAdjust($input: InventoryAdjustQuantitiesInput!) {
+  inventoryAdjustQuantities(input: $input) { inventoryAdjustmentGroup { reason } userErrors { field message } }
+}`,
+      variables: {
+        input: {
+          name: 'available',
+          reason: 'correction',
+          changes: adjustments.map(({ inventoryItemId, locationId, delta }) => ({ inventoryItemId, locationId, delta: -delta }))
+        }
+      }
+    });
+  }
+
+  // Other quantities (on hand) can only be set, and only if nothing changed them since
+  const resets = (record.inventory || []).filter((change) => change.name !== 'available' && change.before !== null);
+  for (const name of new Set(resets.map((change) => change.name))) {
+    operations.push({
+      mutation: `mutation UndoInventorySet($input: InventorySetQuantitiesInput!) {
+  inventorySetQuantities(input: $input) { inventoryAdjustmentGroup { reason } userErrors { field message } }
+}`,
+      variables: {
+        input: {
+          name,
+          reason: 'correction',
+          quantities: resets
+            .filter((change) => change.name === name)
+            .map(({ inventoryItemId, locationId, before, after }) => ({ inventoryItemId, locationId, quantity: before, compareQuantity: after }))
+        }
+      }
+    });
+  }
+
+  const metafieldsToSet = record.metafields
+    .filter((m) => m.before && (!m.after || m.after.value !== m.before.value || m.after.type !== m.before.type))
+    .map((m) => ({ ownerId: m.ownerId, namespace: m.namespace, key: m.key, type: m.before?.type, value: m.before?.value }));
+  const metafieldsToDelete = record.metafields
+    .filter((m) => !m.before && m.after)
+    .map((m) => ({ ownerId: m.ownerId, namespace: m.namespace, key: m.key }));
+
+  if (metafieldsToSet.length > 0) {
+    operations.push({
+      mutation: `mutation UndoMetafieldsSet($metafields: [MetafieldsSetInput!]!) {
+  metafieldsSet(metafields: $metafields) { metafields { id } userErrors { field message } }
+}`,
+      variables: { metafields: metafieldsToSet }
+    });
+  }
+  if (metafieldsToDelete.length > 0) {
+    operations.push({
+      mutation: `mutation UndoMetafieldsAdded($metafields: [MetafieldIdentifierInput!]!) {
+  metafieldsDelete(metafields: $metafields) { deletedMetafields { key } userErrors { field message } }
+}`,
+      variables: { metafields: metafieldsToDelete }
+    });
+  }
+
+  return operations;
+}
+
+/**
+ * Undo a recorded change by running its inverse mutations
+ */
+export async function undoChange(record: ChangeRecord): Promise<ChangeRecord> {
+  if (record.status !== 'applied') {
+    return record;
+  }
+
+  const operations = buildUndoOperations(record);
+  const errors: string[] = [];
+  if (operations.length === 0) {
+    errors.push('nothing recorded for this change can be restored');
+  }
+
+  for (const operation of operations) {
+    // Inverse mutations Shopify refuses come back with their userErrors as the error
+    const result = await executeShopifyMutation(operation);
+    if (result.error) {
+      errors.push(result.error);
+    }
+  }
+
+  record.undoneAt = new Date().toISOString();
+  if (errors.length > 0) {
+    record.status = 'undo_failed';
+    record.undoError = errors.join('; ');
+  } else {
+    record.status = 'undone';
+  }
+
+  return record;
+}
+
+/**
+ * Summarize a change record for display
+ */
+export function describeChange(record: ChangeRecord): string {
+  const name = record.rootFields.join(', ') || 'mutation';
+  const targets = [
+    ...record.resources.map((r) => r.id),
+    ...record.metafields.map((m) => `${m.ownerId} (${m.namespace}.${m.key})`)
+  ];
+
+  return targets.length > 0 ? `${name} on ${targets.join(', ')}` : name;
+}
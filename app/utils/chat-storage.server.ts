@@ -0,0 +1,258 @@
+import { getDatabase } from "./db.server";
+import type { OperationPlan } from "./operation-executor.server";
+import type { PendingMutation } from "./mutation-approval.server";
+import type { ChangeRecord } from "./change-history.server";
+import type { BulkOperationRecord } from "./bulk-operations.server";
+import type { MutationFailure } from "./openai.server";
+
+// A message of a conversation; an assistant reply can carry the deprecation warnings
+// and refused mutations it ran into, and any message the store it was sent on
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  deprecations?: string[];
+  mutationErrors?: MutationFailure[];
+  store?: { id: string; name: string };
+}
+
+// Everything stored per chat, keyed by kind
+export interface ChatData {
+  history: ChatMessage[];
+  operation: OperationPlan;
+  pendingMutations: PendingMutation[];
+  changeRecords: ChangeRecord[];
+  bulkOperations: BulkOperationRecord[];
+  // The store picked for the chat
+  storeId: string;
+}
+
+export type ChatDataKind = keyof ChatData;
+
+// A named conversation thread belonging to one browser/user
+export interface Conversation {
+  id: string;
+  ownerId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for per-chat state
+ */
+export interface ChatStorage {
+  get<K extends ChatDataKind>(chatId: string, kind: K): Promise<ChatData[K] | null>;
+  set<K extends ChatDataKind>(chatId: string, kind: K, value: ChatData[K]): Promise<void>;
+  // Read and replace a value in one step, so concurrent requests can't interleave between the two
+  update<K extends ChatDataKind>(chatId: string, kind: K, change: (value: ChatData[K] | null) => ChatData[K]): Promise<void>;
+  // Without a kind, removes the whole chat including its conversation entry
+  delete(chatId: string, kind?: ChatDataKind): Promise<void>;
+  // Remove chats not updated since the given time (epoch ms); returns the number of entries removed
+  deleteExpired(updatedBefore: number): Promise<number>;
+  getConversation(chatId: string): Promise<Conversation | null>;
+  saveConversation(conversation: Conversation): Promise<void>;
+  // Most recently updated first
+  listConversations(ownerId: string): Promise<Conversation[]>;
+}
+
+/**
+ * In-memory storage - state is lost on restart, useful for tests and local development
+ */
+export function createMemoryChatStorage(): ChatStorage {
+  const chats = new Map<string, { updatedAt: number; data: Partial<Record<ChatDataKind, string>> }>();
+  const conversations = new Map<string, Conversation>();
+
+  return {
+    async get(chatId, kind) {
+      const value = chats.get(chatId)?.data[kind];
+      return value === undefined ? null : JSON.parse(value);
+    },
+
+    async set(chatId, kind, value) {
+      const chat = chats.get(chatId) || { updatedAt: 0, data: {} };
+      // Serialize like the SQLite store does, so callers can't rely on shared references
+      chat.data[kind] = JSON.stringify(value);
+      chat.updatedAt = Date.now();
+      chats.set(chatId, chat);
+    },
+
+    async update(chatId, kind, change) {
+      // Nothing awaits between the read and the write, so no other request runs in between
+      const chat = chats.get(chatId) || { updatedAt: 0, data: {} };
+      const value = chat.data[kind];
+      chat.data[kind] = JSON.stringify(change(value === undefined ? null : JSON.parse(value)));
+      chat.updatedAt = Date.now();
+      chats.set(chatId, chat);
+    },
+
+    async delete(chatId, kind) {
+      if (!kind) {
+        chats.delete(chatId);
+        conversations.delete(chatId);
+        return;
+      }
+      delete chats.get(chatId)?.data[kind];
+    },
+
+    async deleteExpired(updatedBefore) {
+      let removed = 0;
+      chats.forEach((chat, chatId) => {
+        if (chat.updatedAt < updatedBefore) {
+          chats.delete(chatId);
+          removed += Object.keys(chat.data).length;
+        }
+      });
+      const cutoff = new Date(updatedBefore).toISOString();
+      conversations.forEach((conversation, chatId) => {
+        if (conversation.updatedAt < cutoff) {
+          conversations.delete(chatId);
+          removed++;
+        }
+      });
+      return removed;
+    },
+
+    async getConversation(chatId) {
+      const conversation = conversations.get(chatId);
+      return conversation ? { ...conversation } : null;
+    },
+
+    async saveConversation(conversation) {
+      conversations.set(conversation.id, { ...conversation });
+    },
+
+    async listConversations(ownerId) {
+      return Array.from(conversations.values())
+        .filter((conversation) => conversation.ownerId === ownerId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map((conversation) => ({ ...conversation }));
+    }
+  };
+}
+
+/**
+ * SQLite storage - state survives restarts and deploys
+ */
+export function createSqliteChatStorage(): ChatStorage {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chat_data (
+      chat_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (chat_id, kind)
+    );
+    CREATE INDEX IF NOT EXISTS chat_data_updated_at ON chat_data (updated_at);
+    CREATE TABLE IF NOT EXISTS conversations (
+      id TEXT PRIMARY KEY,
+      owner_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS conversations_owner ON conversations (owner_id, updated_at);
+  `);
+
+  const selectValue = db.prepare("SELECT value FROM chat_data WHERE chat_id = ? AND kind = ?");
+  const upsertValue = db.prepare(`
+    INSERT INTO chat_data (chat_id, kind, value, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (chat_id, kind) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `);
+  const deleteValue = db.prepare("DELETE FROM chat_data WHERE chat_id = ? AND kind = ?");
+  // An immediate transaction takes the write lock before reading, so other processes wait
+  const updateValue = db.transaction((chatId: string, kind: ChatDataKind, change: (value: unknown) => unknown) => {
+    const row = selectValue.get(chatId, kind) as { value: string } | undefined;
+    upsertValue.run(chatId, kind, JSON.stringify(change(row ? JSON.parse(row.value) : null)), Date.now());
+  });
+  const deleteChat = db.prepare("DELETE FROM chat_data WHERE chat_id = ?");
+  const deleteExpiredChats = db.prepare(`
+    DELETE FROM chat_data WHERE chat_id IN (
+      SELECT chat_id FROM chat_data GROUP BY chat_id HAVING MAX(updated_at) < ?
+    )
+  `);
+  const deleteConversation = db.prepare("DELETE FROM conversations WHERE id = ?");
+  const deleteExpiredConversations = db.prepare("DELETE FROM conversations WHERE updated_at < ?");
+  const selectConversation = db.prepare(`
+    SELECT id, owner_id AS ownerId, title, created_at AS createdAt, updated_at AS updatedAt
+    FROM conversations WHERE id = ?
+  `);
+  const upsertConversation = db.prepare(`
+    INSERT INTO conversations (id, owner_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET title = excluded.title, updated_at = excluded.updated_at
+  `);
+  const selectConversations = db.prepare(`
+    SELECT id, owner_id AS ownerId, title, created_at AS createdAt, updated_at AS updatedAt
+    FROM conversations WHERE owner_id = ? ORDER BY updated_at DESC
+  `);
+
+  return {
+    async get(chatId, kind) {
+      const row = selectValue.get(chatId, kind) as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : null;
+    },
+
+    async set(chatId, kind, value) {
+      upsertValue.run(chatId, kind, JSON.stringify(value), Date.now());
+    },
+
+    async update(chatId, kind, change) {
+      updateValue.immediate(chatId, kind, change as (value: unknown) => unknown);
+    },
+
+    async delete(chatId, kind) {
+      if (kind) {
+        deleteValue.run(chatId, kind);
+      } else {
+        deleteChat.run(chatId);
+        deleteConversation.run(chatId);
+      }
+    },
+
+    async deleteExpired(updatedBefore) {
+      return deleteExpiredChats.run(updatedBefore).changes +
+        deleteExpiredConversations.run(new Date(updatedBefore).toISOString()).changes;
+    },
+
+    async getConversation(chatId) {
+      return (selectConversation.get(chatId) as Conversation | undefined) || null;
+    },
+
+    async saveConversation(conversation) {
+      upsertConversation.run(
+        conversation.id,
+        conversation.ownerId,
+        conversation.title,
+        conversation.createdAt,
+        conversation.updatedAt
+      );
+    },
+
+    async listConversations(ownerId) {
+      return selectConversations.all(ownerId) as Conversation[];
+    }
+  };
+}
+
+// Storage selected by CHAT_STORAGE ("sqlite" by default, or "memory")
+let chatStorage: ChatStorage | null = null;
+
+/**
+ * Get the configured chat storage backend
+ */
+export function getChatStorage(): ChatStorage {
+  if (!chatStorage) {
+    chatStorage = process.env.CHAT_STORAGE === "memory"
+      ? createMemoryChatStorage()
+      : createSqliteChatStorage();
+  }
+  return chatStorage;
+}
+
+/**
+ * Replace the chat storage backend (e.g. with an in-memory store in tests)
+ */
+export function setChatStorage(storage: ChatStorage) {
+  chatStorage = storage;
+}
@@ -0,0 +1,148 @@
+import { processUserMessage, type AgentEventHandler } from "./openai.server";
+import {
+  describeBulkOperationOutcome,
+  refreshBulkOperations,
+  type BulkOperationRecord
+} from "./bulk-operations.server";
+import { getPermissions } from "./permissions.server";
+import { runWithAuditContext } from "./audit-log.server";
+import { getRecordStore, type ShopifyStore } from "./stores.server";
+import type { ChatMessage } from "./chat-storage.server";
+import {
+  getChatHistory,
+  storeChatHistory,
+  getActiveOperation,
+  storeActiveOperation,
+  clearActiveOperation,
+  getPendingMutations,
+  addPendingMutations,
+  getChangeRecords,
+  saveChangeRecord,
+  getBulkOperations,
+  storeBulkOperations,
+  getSessionUser,
+  getUserRole,
+  getChatStore,
+  ensureChatId,
+  commitSession
+} from "./session.server";
+
+/**
+ * Send a user message to the assistant and store everything it produced
+ * Used by both the regular form action and the streaming endpoint.
+ */
+export async function handleChatMessage(
+  request: Request,
+  userMessage: string,
+  onEvent?: AgentEventHandler
+) {
+  // Get chat history and active operation from session
+  const chatHistory = await getChatHistory(request);
+  const activeOperation = await getActiveOperation(request);
+  const user = await getSessionUser(request);
+  const permissions = getPermissions(await getUserRole(request));
+  const store = await getChatStore(request);
+
+  // Process the message through OpenAI, attributing any mutations to this user and prompt
+  const audit = {
+    userId: user?.id || null,
+    userEmail: user?.email || null,
+    chatId: await ensureChatId(request),
+    prompt: userMessage
+  };
+  const result = await runWithAuditContext(audit, () =>
+    processUserMessage(userMessage, chatHistory, activeOperation, { onEvent, permissions, store })
+  );
+
+  // Store updated chat history in session, noting which store the new messages were about
+  const messages = tagMessagesWithStore(result.messages, chatHistory.length, store);
+  await storeChatHistory(request, messages);
+
+  // Queue any mutations the assistant wants to run behind the approval gate
+  await addPendingMutations(request, result.pendingMutations || []);
+  const pendingMutations = await getPendingMutations(request);
+
+  // Keep snapshots of any changes the assistant made so they can be undone
+  let changeRecords = await getChangeRecords(request);
+  for (const changeRecord of result.changeRecords || []) {
+    changeRecords = await saveChangeRecord(request, changeRecord);
+  }
+
+  // Track bulk operations so their completion can be reported in the conversation
+  const bulkOperations = await trackBulkOperations(request, result.bulkOperations || []);
+
+  // Store active operation if there is one
+  if (result.operation) {
+    await storeActiveOperation(request, result.operation);
+  } else if (result.operationAborted || activeOperation) {
+    // Clear operation if it was aborted or was completed
+    await clearActiveOperation(request);
+  }
+
+  return {
+    reply: result.reply,
+    messages,
+    operation: result.operation,
+    pendingMutations,
+    changeRecords,
+    bulkOperations,
+    debug: result.debug,
+    cookie: await commitSession(request)
+  };
+}
+
+/**
+ * Mark messages from the given index on with the store they were sent on
+ */
+export function tagMessagesWithStore(messages: ChatMessage[], from: number, store: ShopifyStore | null) {
+  if (!store) {
+    return messages;
+  }
+  return messages.map((message, index) =>
+    index < from || message.store ? message : { ...message, store: { id: store.id, name: store.name } }
+  );
+}
+
+/**
+ * Add newly started bulk operations to the ones tracked for the conversation
+ */
+export async function trackBulkOperations(request: Request, started: BulkOperationRecord[]) {
+  const bulkOperations = await getBulkOperations(request);
+  if (started.length > 0) {
+    bulkOperations.push(...started);
+    await storeBulkOperations(request, bulkOperations);
+  }
+  return bulkOperations;
+}
+
+/**
+ * Check on the conversation's running bulk operations and post a message for each one that has finished
+ */
+export async function syncBulkOperations(request: Request) {
+  const stored = await getBulkOperations(request);
+  if (!stored.some((operation) => !operation.reported)) {
+    return stored;
+  }
+
+  const { records, finished } = await refreshBulkOperations(stored);
+
+  if (finished.length > 0) {
+    const chatHistory = await getChatHistory(request);
+    const messages = finished.map((operation) => {
+      const message: ChatMessage = {
+        role: "assistant",
+        content: describeBulkOperationOutcome(operation) +
+          "\n\n<debug-info hidden>" + JSON.stringify({ bulk_operation: operation }) + "</debug-info>"
+      };
+      return tagMessagesWithStore([message], 0, getRecordStore(operation.storeId))[0];
+    });
+    await storeChatHistory(request, [...chatHistory, ...messages]);
+
+    finished.forEach((operation) => {
+      operation.reported = true;
+    });
+  }
+
+  await storeBulkOperations(request, records);
+  return records;
+}
@@ -0,0 +1,25 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+// Shared SQLite connection, opened on first use
+let db: Database.Database | null = null;
+
+/**
+ * Get the application's SQLite database
+ * The file location comes from SQLITE_PATH (defaults to data/shopify-assistant.sqlite)
+ */
+export function getDatabase(): Database.Database {
+  if (db) return db;
+
+  const dbPath = process.env.SQLITE_PATH || path.join("data", "shopify-assistant.sqlite");
+  if (dbPath !== ":memory:") {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  return db;
+}
@@ -0,0 +1,201 @@
+/**
+ * Pre-flight validation of model-generated GraphQL
+ * Documents are parsed and validated against the cached Admin API schema
+ * before they are sent, so mistakes come back as precise feedback instead of
+ * a Shopify error.
+ */
+import {
+  buildClientSchema,
+  getNamedType,
+  getVariableValues,
+  isObjectType,
+  isInterfaceType,
+  Kind,
+  NoDeprecatedCustomRule,
+  parse,
+  validate,
+  type GraphQLError,
+  type GraphQLSchema,
+  type IntrospectionQuery,
+  type OperationDefinitionNode
+} from "graphql";
+import { getShopifySchema } from "./shopify-schema.server";
+import { getApiVersion } from "./stores.server";
+import { getReplaySession } from "./replay.server";
+
+// The arguments of a tool call that sends a GraphQL document
+interface DocumentToolArguments {
+  query?: unknown;
+  mutation?: unknown;
+  variables?: Record<string, unknown>;
+}
+
+// Tools whose documents are validated, and whether they may contain mutations
+const VALIDATED_TOOLS: Record<string, { documentArg: "query" | "mutation"; allowMutations: boolean }> = {
+  execute_query: { documentArg: "query", allowMutations: false },
+  execute_mutation: { documentArg: "mutation", allowMutations: true },
+  start_bulk_query: { documentArg: "query", allowMutations: false },
+  start_bulk_mutation: { documentArg: "mutation", allowMutations: true }
+};
+
+// Built schemas by API version
+const graphQLSchemas = new Map<string, GraphQLSchema>();
+
+/**
+ * The Admin API schema for an API version (by default the current store's), built for graphql-js
+ */
+export async function getGraphQLSchema(version = getApiVersion()): Promise<GraphQLSchema> {
+  let schema = graphQLSchemas.get(version);
+  if (!schema) {
+    const introspection = await getShopifySchema(version);
+    schema = buildClientSchema({ __schema: introspection } as unknown as IntrospectionQuery);
+    graphQLSchemas.set(version, schema);
+  }
+  return schema;
+}
+
+// An error with where it happened in the document, e.g. "(line 3, column 7)"
+function formatError(error: GraphQLError): string {
+  const location = error.locations?.[0];
+  return location ? `${error.message} (line ${location.line}, column ${location.column})` : error.message;
+}
+
+// Fields shown when nothing on the type resembles an unknown field
+const MAX_LISTED_FIELDS = 25;
+
+// The lower-cased words of a camelCase name, e.g. inventoryQuantity -> ["inventory", "quantity"]
+function splitWords(name: string): string[] {
+  return name.split(/(?=[A-Z])|_/).map((word) => word.toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Add suggestions to an unknown field error that graphql couldn't suggest anything for
+ * Fields sharing a word with the unknown one are offered first, otherwise the type's fields are listed.
+ */
+function addFieldSuggestions(schema: GraphQLSchema, message: string): string {
+  const match = message.match(/^Cannot query field "(\w+)" on type "(\w+)"\.$/);
+  const type = match && getNamedType(schema.getType(match[2]));
+  if (!match || !(isObjectType(type) || isInterfaceType(type))) {
+    return message;
+  }
+
+  const fieldNames = Object.keys(type.getFields());
+  const words = splitWords(match[1]);
+  const similar = fieldNames.filter((name) => splitWords(name).some((word) => words.includes(word)));
+
+  if (similar.length > 0) {
+    return `${message} Did you mean ${similar.slice(0, 5).map((name) => `"${name}"`).join(", ")}?`;
+  }
+  const listed = fieldNames.slice(0, MAX_LISTED_FIELDS).join(", ");
+  return `${message} Fields on ${type.name}: ${listed}${fieldNames.length > MAX_LISTED_FIELDS ? ", ..." : ""}.`;
+}
+
+/**
+ * Validate a GraphQL document, and its variables, against the Admin API schema
+ * Returns the problems found, or an empty list if the document is valid.
+ */
+export async function validateGraphQLDocument(
+  document: string,
+  { variables, allowMutations }: { variables?: Record<string, unknown>; allowMutations: boolean }
+): Promise<string[]> {
+  let ast;
+  try {
+    ast = parse(document);
+  } catch (error) {
+    return [`Syntax error: ${formatError(error as GraphQLError)}`];
+  }
+
+  const operations = ast.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+
+  if (!allowMutations) {
+    const mutation = operations.find((operation) => operation.operation === "mutation");
+    if (mutation) {
+      return [
+        `This tool is read-only, but the document contains a mutation operation${mutation.name ? ` "${mutation.name.value}"` : ""}. Use execute_mutation to change data.`
+      ];
+    }
+  }
+
+  const schema = await getGraphQLSchema();
+  const errors = validate(schema, ast).map((error) => {
+    error.message = addFieldSuggestions(schema, error.message);
+    return formatError(error);
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Check the variables against the types the operation declares
+  if (variables && operations.length === 1) {
+    const coerced = getVariableValues(schema, operations[0].variableDefinitions || [], variables);
+    if (coerced.errors) {
+      return coerced.errors.map(formatError);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Validate the document of a tool call before it is executed
+ * Returns an error result for the model, or null if the call can go ahead.
+ * If the schema can't be loaded, validation is skipped rather than blocking the call.
+ * It is off while a scenario is recorded or replayed (see replay.server).
+ */
+export async function validateToolCall(functionName: string, args: DocumentToolArguments | null | undefined) {
+  const tool = VALIDATED_TOOLS[functionName];
+  const document = tool && args?.[tool.documentArg];
+  // Recorded scenarios run without the schema, so they don't depend on the machine's schema cache
+  if (!tool || typeof document !== "string" || getReplaySession()) {
+    return null;
+  }
+
+  let problems: string[];
+  try {
+    problems = await validateGraphQLDocument(document, {
+      // Bulk mutations take an array of variable rows, which are checked by Shopify
+      variables: functionName === "start_bulk_mutation" ? undefined : args?.variables || {},
+      allowMutations: tool.allowMutations
+    });
+  } catch (error) {
+    console.warn(`Skipping GraphQL validation for ${functionName}:`, error);
+    return null;
+  }
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  return {
+    error: `The GraphQL document was not sent because it is invalid: ${problems.join("; ")}`,
+    validationErrors: problems,
+    invalid: true
+  };
+}
+
+/**
+ * Find the deprecated fields, arguments and enum values a tool call's document uses
+ * Returns warnings for the model and the UI. Documents that don't parse, or a
+ * schema that can't be loaded, give no warnings; validateToolCall reports those.
+ */
+export async function getDeprecationWarnings(
+  functionName: string,
+  args: DocumentToolArguments | null | undefined
+): Promise<string[]> {
+  const tool = VALIDATED_TOOLS[functionName];
+  const document = tool && args?.[tool.documentArg];
+  if (!tool || typeof document !== "string" || getReplaySession()) {
+    return [];
+  }
+
+  try {
+    const schema = await getGraphQLSchema();
+    return validate(schema, parse(document), [NoDeprecatedCustomRule]).map(
+      (error) => `${error.message} (API version ${getApiVersion()})`
+    );
+  } catch {
+    return [];
+  }
+}
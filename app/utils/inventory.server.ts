@@ -0,0 +1,346 @@
+/**
+ * Inventory quantities on the inventoryAdjustQuantities and inventorySetQuantities APIs
+ * Changes are made per inventory item and location, either "set to N" or
+ * "adjust by ±N". Locations can be given by ID or by name, items by variant or
+ * inventory item ID, and every change reports the quantity before and after
+ * at each location.
+ */
+import { callShopifyGraphQL, getLookupError, type Connection, type LookupError } from "./shopify.server";
+
+// The reasons Shopify accepts for a quantity change
+export const INVENTORY_REASONS = [
+  "correction",
+  "cycle_count_available",
+  "damaged",
+  "movement_created",
+  "movement_received",
+  "other",
+  "promotion",
+  "quality_control",
+  "received",
+  "restock",
+  "safety_stock",
+  "shrinkage"
+];
+
+// The quantities that can be set; adjustments always change "available"
+export type InventoryQuantityName = "available" | "on_hand";
+
+export interface InventoryLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+export interface InventoryChangeRequest {
+  // A variant ID or its inventory item ID
+  id: string;
+  mode: "set" | "adjust";
+  // quantity is the new quantity when setting, delta the change when adjusting
+  levels: { location: string; quantity?: number; delta?: number }[];
+  reason?: string;
+  // Where the change comes from, e.g. a purchase order URL or "gid://my-app/Stocktake/12"
+  referenceDocumentUri?: string;
+  name?: InventoryQuantityName;
+}
+
+// A quantity before and after a change at one location
+export interface InventoryLevelChange {
+  inventoryItemId: string;
+  locationId: string;
+  locationName: string | null;
+  name: string;
+  before: number | null;
+  after: number | null;
+  delta: number;
+}
+
+export interface PreparedInventoryChange {
+  mutation: string;
+  variables: Record<string, unknown>;
+  // What the change will do, from the current quantities
+  planned: InventoryLevelChange[];
+}
+
+const LOCATIONS_QUERY = `#graphql
+  query InventoryLocations {
+    locations(first: 100, includeInactive: true) {
+      edges { node { id name isActive } }
+    }
+  }
+`;
+
+const INVENTORY_ITEM_QUERY = `#graphql
+  query VariantInventoryItem($id: ID!) {
+    productVariant(id: $id) { inventoryItem { id } }
+  }
+`;
+
+// An inventory item as INVENTORY_LEVELS_QUERY selects it
+interface InventoryItemLevels {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  inventoryLevels: Connection<{
+    location: { id: string; name: string };
+    quantities: { name: string; quantity: number }[];
+  }>;
+}
+
+const INVENTORY_LEVELS_QUERY = `#graphql
+  query InventoryLevels($id: ID!) {
+    inventoryItem(id: $id) {
+      id
+      sku
+      tracked
+      inventoryLevels(first: 100) {
+        edges {
+          node {
+            location { id name }
+            quantities(names: ["available", "on_hand", "committed", "incoming"]) { name quantity }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// The adjustment group both mutations return
+const ADJUSTMENT_GROUP_FIELDS = `inventoryAdjustmentGroup {
+      reason
+      referenceDocumentUri
+      changes { name delta quantityAfterChange item { id } location { id name } }
+    }
+    userErrors { field message }`;
+
+// The payload of either mutation, as ADJUSTMENT_GROUP_FIELDS selects it
+export interface InventoryChangePayload {
+  inventoryAdjustmentGroup?: {
+    changes: {
+      name: string;
+      delta: number;
+      quantityAfterChange?: number | null;
+      item: { id: string };
+      location: { id: string; name: string };
+    }[];
+  } | null;
+}
+
+const ADJUST_MUTATION = `mutation AdjustInventoryQuantities($input: InventoryAdjustQuantitiesInput!) {
+  inventoryAdjustQuantities(input: $input) {
+    ${ADJUSTMENT_GROUP_FIELDS}
+  }
+}`;
+
+const SET_MUTATION = `mutation SetInventoryQuantities($input: InventorySetQuantitiesInput!) {
+  inventorySetQuantities(input: $input) {
+    ${ADJUSTMENT_GROUP_FIELDS}
+  }
+}`;
+
+// A URI with a scheme, as Shopify requires for referenceDocumentUri
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+
+/**
+ * The store's locations, active ones first
+ */
+export async function listLocations(): Promise<{ locations: InventoryLocation[] } | LookupError> {
+  const result = await callShopifyGraphQL<{ locations: Connection<InventoryLocation> }>(LOCATIONS_QUERY);
+  if (result.errors?.length) {
+    return getLookupError(result, "Error fetching locations");
+  }
+  const locations = result.data!.locations.edges.map((edge) => edge.node);
+  return { locations: locations.sort((a, b) => Number(b.isActive) - Number(a.isActive)) };
+}
+
+/**
+ * Find a location by ID or by name among the store's locations
+ * Names match case-insensitively, exactly or else by a single partial match.
+ */
+export function resolveLocation(location: string, locations: InventoryLocation[]): { location?: InventoryLocation; error?: string } {
+  const wanted = location.trim().toLowerCase();
+  const byId = locations.find((candidate) => candidate.id === location.trim());
+  const exact = locations.filter((candidate) => candidate.name.toLowerCase() === wanted);
+  const partial = locations.filter((candidate) => candidate.name.toLowerCase().includes(wanted));
+  const found = byId || (exact.length === 1 ? exact[0] : partial.length === 1 ? partial[0] : null);
+
+  if (!found) {
+    const candidates = (exact.length > 1 ? exact : partial.length > 1 ? partial : locations).map((candidate) => `"${candidate.name}"`);
+    return {
+      error: `${exact.length > 1 || partial.length > 1 ? "More than one location matches" : "No location matches"} "${location}". Locations: ${candidates.join(", ")}`
+    };
+  }
+  if (!found.isActive) {
+    return { error: `The location "${found.name}" is deactivated` };
+  }
+  return { location: found };
+}
+
+/**
+ * The inventory item of a variant; inventory item IDs are returned as they are
+ */
+export async function resolveInventoryItemId(id: string): Promise<{ inventoryItemId: string } | LookupError> {
+  if (id.startsWith("gid://shopify/InventoryItem/")) {
+    return { inventoryItemId: id };
+  }
+  const result = await callShopifyGraphQL<{ productVariant: { inventoryItem: { id: string } | null } | null }>(
+    INVENTORY_ITEM_QUERY,
+    { id }
+  );
+  const inventoryItemId = result.data?.productVariant?.inventoryItem?.id;
+  if (result.errors?.length || !inventoryItemId) {
+    return getLookupError(result, `Variant ${id} not found`);
+  }
+  return { inventoryItemId };
+}
+
+/**
+ * The quantities of an inventory item at each location it is stocked at
+ */
+export async function fetchInventoryLevels(id: string) {
+  const item = await resolveInventoryItemId(id);
+  if ("error" in item) {
+    return item;
+  }
+
+  const result = await callShopifyGraphQL<{ inventoryItem: InventoryItemLevels | null }>(
+    INVENTORY_LEVELS_QUERY,
+    { id: item.inventoryItemId }
+  );
+  const inventoryItem = result.data?.inventoryItem;
+  if (result.errors?.length || !inventoryItem) {
+    return getLookupError(result, `Inventory item ${item.inventoryItemId} not found`);
+  }
+
+  const levels = inventoryItem.inventoryLevels.edges.map(({ node }) => ({
+    locationId: node.location.id,
+    locationName: node.location.name,
+    ...Object.fromEntries(node.quantities.map(({ name, quantity }) => [name, quantity]))
+  }));
+
+  return {
+    inventoryItemId: inventoryItem.id,
+    sku: inventoryItem.sku,
+    tracked: inventoryItem.tracked,
+    levels: levels as ({ locationId: string; locationName: string } & Record<string, number>)[],
+    _graphql: result._graphql
+  };
+}
+
+/**
+ * Resolve an inventory change and compile it to a mutation
+ * Setting uses the current quantities as compareQuantity, so Shopify refuses
+ * the change if stock moved in the meantime instead of overwriting it.
+ */
+export async function prepareInventoryChange(request: InventoryChangeRequest): Promise<PreparedInventoryChange | LookupError> {
+  const name = request.mode === "adjust" ? "available" : request.name || "available";
+  const reason = request.reason || "correction";
+  if (!INVENTORY_REASONS.includes(reason)) {
+    return { error: `Unknown reason "${reason}". Use one of: ${INVENTORY_REASONS.join(", ")}`, invalid: true };
+  }
+  if (request.referenceDocumentUri && !URI_PATTERN.test(request.referenceDocumentUri)) {
+    return { error: `referenceDocumentUri must be a URI, e.g. "https://..." or "gid://my-app/PurchaseOrder/12"`, invalid: true };
+  }
+  if (request.levels.length === 0) {
+    return { error: "No locations to change", invalid: true };
+  }
+
+  const current = await fetchInventoryLevels(request.id);
+  if ("error" in current) {
+    return current;
+  }
+
+  // Looked up once for all the levels
+  const found = await listLocations();
+  if ("error" in found) {
+    return found;
+  }
+  const { locations } = found;
+
+  const planned: InventoryLevelChange[] = [];
+  for (const level of request.levels) {
+    const amount = request.mode === "set" ? level.quantity : level.delta;
+    if (!Number.isInteger(amount)) {
+      return { error: `Give ${request.mode === "set" ? "a whole quantity" : "a whole delta"} for "${level.location}"`, invalid: true };
+    }
+
+    const { location, error } = resolveLocation(level.location, locations);
+    if (!location) {
+      return { error: error || `Location "${level.location}" not found`, invalid: true };
+    }
+    if (planned.some((change) => change.locationId === location.id)) {
+      return { error: `"${location.name}" is listed more than once`, invalid: true };
+    }
+
+    // An item has no level at a location it isn't stocked at, and its quantity there can't be changed
+    const before = current.levels.find((entry) => entry.locationId === location.id)?.[name];
+    if (before === undefined) {
+      return { error: `The item isn't stocked at "${location.name}"`, invalid: true };
+    }
+    const after = request.mode === "set" ? amount! : before + amount!;
+    planned.push({
+      inventoryItemId: current.inventoryItemId,
+      locationId: location.id,
+      locationName: location.name,
+      name,
+      before,
+      after,
+      delta: after - before
+    });
+  }
+
+  const reference = request.referenceDocumentUri ? { referenceDocumentUri: request.referenceDocumentUri } : {};
+  if (request.mode === "adjust") {
+    return {
+      mutation: ADJUST_MUTATION,
+      variables: {
+        input: {
+          name,
+          reason,
+          ...reference,
+          changes: planned.map(({ inventoryItemId, locationId, delta }) => ({ inventoryItemId, locationId, delta }))
+        }
+      },
+      planned
+    };
+  }
+
+  return {
+    mutation: SET_MUTATION,
+    variables: {
+      input: {
+        name,
+        reason,
+        ...reference,
+        quantities: planned.map(({ inventoryItemId, locationId, after, before }) => ({
+          inventoryItemId,
+          locationId,
+          quantity: after,
+          compareQuantity: before
+        }))
+      }
+    },
+    planned
+  };
+}
+
+/**
+ * The before and after quantities in an inventoryAdjustQuantities or inventorySetQuantities payload
+ * Shopify doesn't always return quantityAfterChange; the planned quantities fill in for it.
+ */
+export function readInventoryChanges(payload: InventoryChangePayload | null | undefined, planned: InventoryLevelChange[] = []): InventoryLevelChange[] {
+  const changes = payload?.inventoryAdjustmentGroup?.changes || [];
+  return changes.map((change) => {
+    const plan = planned.find((entry) => entry.locationId === change.location?.id && entry.name === change.name);
+    const after = typeof change.quantityAfterChange === "number" ? change.quantityAfterChange : plan?.after ?? null;
+    return {
+      inventoryItemId: change.item?.id,
+      locationId: change.location?.id,
+      locationName: change.location?.name ?? null,
+      name: change.name,
+      before: after === null ? null : after - change.delta,
+      after,
+      delta: change.delta
+    };
+  });
+}
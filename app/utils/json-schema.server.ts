@@ -0,0 +1,107 @@
+/**
+ * JSON schemas for tool arguments and results, and a validator for them
+ * Covers the part of JSON Schema the tools use: types (with null for optional
+ * values), object properties, required, additionalProperties, array items,
+ * enums, string patterns and lengths, and numeric minimums and maximums.
+ */
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  pattern?: string;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+function typeOf(value: unknown): JsonSchemaType | "undefined" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType | "undefined";
+}
+
+// An integer is also a number
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Check a value against a schema
+ * Returns one message per problem, e.g. "$.variants[0].price must be a string", or an empty list.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path} must be ${types.join(" or ")}, not ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} character(s) long`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (record[name] === undefined) {
+        errors.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          errors.push(...validateJsonSchema(propertySchema, propertyValue, `${path}.${name}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
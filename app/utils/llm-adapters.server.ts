@@ -0,0 +1,352 @@
+/**
+ * Adapters between the agent loop and the model APIs
+ * The loop works with one conversation format and one turn result; each
+ * adapter translates them to its API (Responses or Chat Completions), so
+ * operations, retries and debug traces don't depend on which API is used.
+ * Models without native function calling get the tools through the system
+ * prompt instead (withPromptedTools).
+ */
+import type OpenAI from "openai";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessageParam,
+  ChatCompletionTool
+} from "openai/resources/chat/completions";
+import type { FunctionTool, ResponseInputItem } from "openai/resources/responses/responses";
+import { v4 as uuidv4 } from "uuid";
+import { parseToolArguments } from "./tool-arguments.server";
+
+export type AgentApi = "responses" | "chat_completions";
+
+// A tool call the model asked for, with its arguments as the model sent them
+export interface ModelToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// The conversation the agent loop keeps across rounds
+export type AgentItem =
+  | { type: "message"; role: "user" | "assistant"; content: string }
+  // The model's tool calls; native holds the API's own output items when it needs them back
+  | { type: "tool_calls"; content: string; calls: ModelToolCall[]; native?: unknown }
+  | { type: "tool_result"; callId: string; output: string };
+
+export interface TurnRequest {
+  system: string;
+  items: AgentItem[];
+  tools: ChatCompletionTool[];
+  // "none" asks for a final answer without more tool calls
+  toolChoice: "auto" | "none";
+  // Receives the reply text as it streams in
+  onTextDelta?: (delta: string) => void;
+}
+
+// One model response, whichever API produced it
+export interface ModelTurn {
+  id: string;
+  text: string;
+  toolCalls: ModelToolCall[];
+  totalTokens: number;
+  native?: unknown;
+}
+
+export interface LlmAdapter {
+  api: AgentApi;
+  model: string;
+  // The configured provider the adapter talks to
+  provider?: string;
+  createTurn(request: TurnRequest): Promise<ModelTurn>;
+}
+
+// Tools in the flat format the Responses API expects
+function toResponsesTools(tools: ChatCompletionTool[]): FunctionTool[] {
+  return tools.map((tool) => ({
+    type: "function",
+    name: tool.function.name,
+    description: tool.function.description,
+    parameters: tool.function.parameters || {},
+    strict: false
+  }));
+}
+
+function toResponsesInput(system: string, items: AgentItem[]): ResponseInputItem[] {
+  const input: ResponseInputItem[] = [{ role: "system", content: system }];
+  for (const item of items) {
+    if (item.type === "message") {
+      input.push({ role: item.role, content: item.content });
+    } else if (item.type === "tool_calls") {
+      // The model's own output items, so each call has its matching output; calls
+      // from another API are rebuilt (the API doesn't need their item IDs)
+      input.push(...((item.native as ResponseInputItem[] | undefined) || item.calls.map((call) => ({
+        type: "function_call",
+        call_id: call.id,
+        name: call.name,
+        arguments: call.arguments
+      }) as ResponseInputItem)));
+    } else {
+      input.push({ type: "function_call_output", call_id: item.callId, output: item.output });
+    }
+  }
+  return input;
+}
+
+/**
+ * Adapter for the Responses API
+ */
+export function createResponsesAdapter(client: OpenAI, model: string): LlmAdapter {
+  return {
+    api: "responses",
+    model,
+    async createTurn({ system, items, tools, toolChoice, onTextDelta }) {
+      const params = {
+        model,
+        input: toResponsesInput(system, items),
+        text: { format: { type: "text" as const } },
+        tools: toResponsesTools(tools),
+        tool_choice: toolChoice
+      };
+
+      let response;
+      if (!onTextDelta) {
+        response = await client.responses.create({ ...params, stream: false });
+      } else {
+        const stream = await client.responses.create({ ...params, stream: true });
+        let text = "";
+        for await (const event of stream) {
+          if (event.type === "response.output_text.delta") {
+            text += event.delta;
+            onTextDelta(event.delta);
+          } else if (event.type === "response.completed") {
+            response = event.response;
+          } else if (event.type === "response.failed") {
+            throw new Error(event.response.error?.message || "Response failed");
+          } else if (event.type === "error") {
+            throw new Error(event.message);
+          }
+        }
+        if (!response) {
+          throw new Error("Response stream ended before the response completed");
+        }
+        // The convenience output_text is only filled in for non-streamed responses
+        response.output_text = response.output_text || text;
+      }
+
+      const toolCalls = response.output
+        .filter((item) => item.type === "function_call")
+        .map((item) => ({ id: item.call_id, name: item.name, arguments: item.arguments }));
+
+      return {
+        id: response.id,
+        text: response.output_text || "",
+        toolCalls,
+        totalTokens: response.usage?.total_tokens || 0,
+        native: response.output
+      };
+    }
+  };
+}
+
+// An ID for a tool call the API didn't give one
+function newCallId(): string {
+  return `call_${uuidv4()}`;
+}
+
+function toChatMessages(system: string, items: AgentItem[]): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = [{ role: "system", content: system }];
+  for (const item of items) {
+    if (item.type === "message") {
+      messages.push({ role: item.role, content: item.content });
+    } else if (item.type === "tool_calls") {
+      messages.push({
+        role: "assistant",
+        content: item.content || null,
+        tool_calls: item.calls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      });
+    } else {
+      messages.push({ role: "tool", tool_call_id: item.callId, content: item.output });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Adapter for the Chat Completions API
+ */
+export function createChatCompletionsAdapter(client: OpenAI, model: string): LlmAdapter {
+  return {
+    api: "chat_completions",
+    model,
+    async createTurn({ system, items, tools, toolChoice, onTextDelta }) {
+      const params = {
+        model,
+        messages: toChatMessages(system, items),
+        ...(tools.length > 0 ? { tools, tool_choice: toolChoice } : {})
+      };
+
+      if (!onTextDelta) {
+        const completion = await client.chat.completions.create(params);
+        const message = completion.choices[0]?.message;
+        return {
+          id: completion.id,
+          text: message?.content || "",
+          toolCalls: (message?.tool_calls || []).map((call) => ({
+            id: call.id || newCallId(),
+            name: call.function.name,
+            arguments: call.function.arguments
+          })),
+          totalTokens: completion.usage?.total_tokens || 0
+        };
+      }
+
+      const stream = await client.chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+      let id = "";
+      let text = "";
+      let totalTokens = 0;
+      // Tool calls arrive in pieces, keyed by their index in the message
+      const calls: ModelToolCall[] = [];
+      for await (const chunk of stream as AsyncIterable<ChatCompletionChunk>) {
+        id = id || chunk.id;
+        totalTokens = chunk.usage?.total_tokens || totalTokens;
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          onTextDelta(delta.content);
+        }
+        for (const part of delta?.tool_calls || []) {
+          const call = calls[part.index] || (calls[part.index] = { id: "", name: "", arguments: "" });
+          call.id = part.id || call.id;
+          call.name += part.function?.name || "";
+          call.arguments += part.function?.arguments || "";
+        }
+      }
+
+      return {
+        id,
+        text,
+        toolCalls: calls.filter(Boolean).map((call) => ({ ...call, id: call.id || newCallId() })),
+        totalTokens
+      };
+    }
+  };
+}
+
+// The block a model without native function calling ends its reply with to call tools
+const TOOL_CALLS_BLOCK = /```tool_calls\s*([\s\S]*?)\s*```/;
+
+function describePromptedTools(tools: ChatCompletionTool[]): string {
+  return `\n\n# CALLING TOOLS
+    To call tools, end your reply with one block in exactly this form, with nothing after it:
+    \`\`\`tool_calls
+    {"tool_calls": [{"name": "tool_name", "arguments": {"parameter": "value"}}]}
+    \`\`\`
+    The results come back in the next message. When you need no tools, just answer.
+
+    Available tools:
+    ${tools.map((tool) => `- ${tool.function.name}: ${tool.function.description || ""}
+      Parameters: ${JSON.stringify(tool.function.parameters || {})}`).join("\n    ")}`;
+}
+
+function formatPromptedToolCalls(calls: ModelToolCall[]): string {
+  const toolCalls = calls.map((call) => ({
+    id: call.id,
+    name: call.name,
+    arguments: parseToolArguments(call.arguments).args || call.arguments
+  }));
+  return "```tool_calls\n" + JSON.stringify({ tool_calls: toolCalls }) + "\n```";
+}
+
+// Tool calls and results as plain messages, for models that only read text
+function toPromptedItems(items: AgentItem[]): AgentItem[] {
+  const messages: AgentItem[] = [];
+  for (const item of items) {
+    if (item.type === "message") {
+      messages.push(item);
+    } else if (item.type === "tool_calls") {
+      messages.push({
+        type: "message",
+        role: "assistant",
+        content: [item.content, formatPromptedToolCalls(item.calls)].filter(Boolean).join("\n\n")
+      });
+    } else {
+      const result = `Result of ${item.callId}: ${item.output}`;
+      const previous = messages[messages.length - 1];
+      // The results of one round go back together
+      if (previous?.type === "message" && previous.role === "user" && previous.content.startsWith("Tool results:")) {
+        previous.content += "\n\n" + result;
+      } else {
+        messages.push({ type: "message", role: "user", content: "Tool results:\n\n" + result });
+      }
+    }
+  }
+  return messages;
+}
+
+/**
+ * Read the tool calls block at the end of a reply
+ * A block that isn't valid JSON becomes a call whose arguments fail to parse,
+ * so the model gets the parse error back and can send it again.
+ */
+function readPromptedToolCalls(text: string): { text: string; toolCalls: ModelToolCall[] } {
+  const block = text.match(TOOL_CALLS_BLOCK);
+  if (!block) {
+    return { text, toolCalls: [] };
+  }
+
+  const reply = text.replace(TOOL_CALLS_BLOCK, "").trim();
+  const parsed = parseToolArguments(block[1]);
+  const entries: unknown[] | null = Array.isArray(parsed.args?.tool_calls) ? parsed.args!.tool_calls : null;
+  if (!entries) {
+    return { text: reply, toolCalls: [{ id: newCallId(), name: "tool_calls", arguments: block[1] }] };
+  }
+
+  const toolCalls = entries.map((entry) => {
+    const call = (entry || {}) as { name?: unknown; arguments?: unknown };
+    return {
+      id: newCallId(),
+      name: String(call.name || ""),
+      arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {})
+    };
+  });
+  return { text: reply, toolCalls };
+}
+
+/**
+ * Call tools through text, for models without native function calling
+ * The tools are described in the system prompt and the model writes its calls
+ * in a tool_calls block; tool calls and results in the conversation are sent
+ * as plain messages. Replies that may call tools are only shown once the block
+ * is taken out, so the raw calls never stream to the user.
+ */
+export function withPromptedTools(adapter: LlmAdapter): LlmAdapter {
+  return {
+    ...adapter,
+    async createTurn({ system, items, tools, toolChoice, onTextDelta }) {
+      const offerTools = tools.length > 0 && toolChoice !== "none";
+      const turn = await adapter.createTurn({
+        system: offerTools ? system + describePromptedTools(tools) : system,
+        items: toPromptedItems(items),
+        tools: [],
+        toolChoice: "none",
+        onTextDelta: offerTools ? undefined : onTextDelta
+      });
+      if (!offerTools) {
+        return turn;
+      }
+
+      const { text, toolCalls } = readPromptedToolCalls(turn.text);
+      if (text) {
+        onTextDelta?.(text);
+      }
+      return { ...turn, text, toolCalls, native: undefined };
+    }
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Registry of the model providers the assistant can run on
+ * Providers come from LLM_PROVIDERS, a JSON array of
+ * { "id", "type", "baseUrl", "apiKey", "model", "api", "apiVersion", "capabilities" },
+ * and LLM_PROVIDER picks the one in use (the first by default). Without
+ * LLM_PROVIDERS, OpenAI is used with OPENAI_API_KEY, OPENAI_MODEL and OPENAI_API.
+ *
+ * Types: "openai", "azure" (Azure OpenAI; baseUrl is the resource endpoint and
+ * model the deployment name), "anthropic" (through Anthropic's OpenAI-compatible
+ * endpoint) and "openai_compatible" (any server speaking the Chat Completions
+ * API, e.g. a local Ollama, llama.cpp or vLLM server, or a mock in tests).
+ * A provider without native function calling gets the tools described in the
+ * system prompt and calls them through text (see withPromptedTools).
+ */
+import OpenAI, { AzureOpenAI } from "openai";
+import {
+  createChatCompletionsAdapter,
+  createResponsesAdapter,
+  withPromptedTools,
+  type AgentApi,
+  type LlmAdapter
+} from "./llm-adapters.server";
+import { fetchModelApi, getReplaySession } from "./replay.server";
+
+export type LlmProviderType = "openai" | "azure" | "anthropic" | "openai_compatible";
+
+export interface LlmProviderCapabilities {
+  // Native function calling; without it tools are called through text
+  tools: boolean;
+  // Streamed replies; without it the reply arrives in one piece
+  streaming: boolean;
+}
+
+export interface LlmProvider {
+  id: string;
+  type: LlmProviderType;
+  model: string;
+  api: AgentApi;
+  baseUrl?: string;
+  apiKey?: string;
+  // Azure OpenAI API version
+  apiVersion?: string;
+  capabilities: LlmProviderCapabilities;
+}
+
+const PROVIDER_TYPES: LlmProviderType[] = ["openai", "azure", "anthropic", "openai_compatible"];
+
+const DEFAULT_MODEL = "gpt-4o";
+const DEFAULT_AZURE_API_VERSION = "2025-03-01-preview";
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1/";
+
+// Parsed once; the environment doesn't change while the server runs
+let envProviders: LlmProvider[] | null = null;
+
+function loadEnvProviders(): LlmProvider[] {
+  const configured = process.env.LLM_PROVIDERS;
+  if (!configured) {
+    return [{
+      id: "openai",
+      type: "openai",
+      model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+      api: process.env.OPENAI_API === "chat_completions" ? "chat_completions" : "responses",
+      apiKey: process.env.OPENAI_API_KEY,
+      capabilities: { tools: true, streaming: true }
+    }];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(configured);
+  } catch (error) {
+    throw new Error(`LLM_PROVIDERS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("LLM_PROVIDERS must be a JSON array of providers");
+  }
+
+  return parsed.map((provider, index) => {
+    const type = provider?.type || "openai";
+    if (!PROVIDER_TYPES.includes(type)) {
+      throw new Error(`Provider ${index + 1} in LLM_PROVIDERS has an unknown type "${type}" (use ${PROVIDER_TYPES.join(", ")})`);
+    }
+    if (!provider.model) {
+      throw new Error(`Provider ${index + 1} in LLM_PROVIDERS needs a model`);
+    }
+    if ((type === "azure" || type === "openai_compatible") && !provider.baseUrl) {
+      throw new Error(`Provider ${index + 1} in LLM_PROVIDERS needs a baseUrl`);
+    }
+    if (provider.api !== undefined && provider.api !== "responses" && provider.api !== "chat_completions") {
+      throw new Error(`Provider ${index + 1} in LLM_PROVIDERS has an invalid api "${provider.api}"`);
+    }
+    // Only OpenAI and Azure OpenAI have the Responses API
+    const api: AgentApi = provider.api || (type === "openai" ? "responses" : "chat_completions");
+    if (api === "responses" && type !== "openai" && type !== "azure") {
+      throw new Error(`Provider ${index + 1} in LLM_PROVIDERS can only use the chat_completions api`);
+    }
+
+    return {
+      id: String(provider.id || type),
+      type,
+      model: String(provider.model),
+      api,
+      baseUrl: provider.baseUrl,
+      apiKey: provider.apiKey,
+      apiVersion: provider.apiVersion,
+      capabilities: {
+        tools: provider.capabilities?.tools !== false,
+        streaming: provider.capabilities?.streaming !== false
+      }
+    };
+  });
+}
+
+export function listLlmProviders(): LlmProvider[] {
+  if (!envProviders) {
+    envProviders = loadEnvProviders();
+  }
+  return envProviders;
+}
+
+/**
+ * The provider in use: the one named by LLM_PROVIDER, or the first
+ * A replayed scenario runs on the provider it was recorded with.
+ */
+export function getLlmProvider(): LlmProvider {
+  const replayed = getReplaySession()?.provider;
+  if (replayed) {
+    return replayed;
+  }
+
+  const providers = listLlmProviders();
+  const id = process.env.LLM_PROVIDER;
+  const provider = id ? providers.find((candidate) => candidate.id === id) : providers[0];
+  if (!provider) {
+    throw new Error(`LLM_PROVIDER "${id}" is not one of the providers in LLM_PROVIDERS`);
+  }
+  return provider;
+}
+
+// One client per provider, created on first use
+const clients = new Map<string, OpenAI>();
+
+function getClient(provider: LlmProvider): OpenAI {
+  let client = clients.get(provider.id);
+  if (client) {
+    return client;
+  }
+
+  if (!provider.apiKey && provider.type !== "openai_compatible") {
+    throw new Error(`No API key for the ${provider.id} model provider. Check your configuration.`);
+  }
+  if (provider.type === "azure") {
+    // Without a fixed deployment, the model of each request is used as the deployment name
+    client = new AzureOpenAI({
+      endpoint: provider.baseUrl,
+      apiKey: provider.apiKey,
+      apiVersion: provider.apiVersion || DEFAULT_AZURE_API_VERSION,
+      fetch: fetchModelApi
+    });
+  } else {
+    client = new OpenAI({
+      // Local servers usually don't check the key, but the client needs one
+      apiKey: provider.apiKey || "none",
+      baseURL: provider.type === "anthropic" ? provider.baseUrl || ANTHROPIC_BASE_URL : provider.baseUrl,
+      // Recorded and replayed in scenarios (see replay.server)
+      fetch: fetchModelApi
+    });
+  }
+  clients.set(provider.id, client);
+  return client;
+}
+
+// Providers that turned out to reject native tool calls, switched to prompted tools until restart
+const promptedToolProviders = new Set<string>();
+
+// Whether an API error is the provider refusing the tools in a request
+function isToolsUnsupportedError(error: unknown): boolean {
+  return error instanceof OpenAI.APIError &&
+    [400, 404, 422, 501].includes(error.status ?? 0) &&
+    /tool|function/i.test(error.message);
+}
+
+/**
+ * Send every text delta at once, for providers that don't stream
+ */
+function withoutStreaming(adapter: LlmAdapter): LlmAdapter {
+  return {
+    ...adapter,
+    async createTurn({ onTextDelta, ...request }) {
+      const turn = await adapter.createTurn(request);
+      if (turn.text) {
+        onTextDelta?.(turn.text);
+      }
+      return turn;
+    }
+  };
+}
+
+/**
+ * The adapter for a provider, with its capabilities applied
+ * A provider that rejects a request because of its tools is switched to
+ * prompted tools, and the turn is sent again.
+ */
+export function createProviderAdapter(provider: LlmProvider = getLlmProvider()): LlmAdapter {
+  const client = getClient(provider);
+  let adapter = provider.api === "responses"
+    ? createResponsesAdapter(client, provider.model)
+    : createChatCompletionsAdapter(client, provider.model);
+  if (!provider.capabilities.streaming) {
+    adapter = withoutStreaming(adapter);
+  }
+  adapter = { ...adapter, provider: provider.id };
+
+  const prompted = withPromptedTools(adapter);
+  if (!provider.capabilities.tools) {
+    return prompted;
+  }
+
+  const native = adapter;
+  return {
+    ...native,
+    async createTurn(request) {
+      if (promptedToolProviders.has(provider.id)) {
+        return prompted.createTurn(request);
+      }
+      try {
+        return await native.createTurn(request);
+      } catch (error) {
+        if (request.tools.length === 0 || !isToolsUnsupportedError(error)) {
+          throw error;
+        }
+        console.warn(`The ${provider.id} model provider doesn't accept tools, calling them through text instead:`, (error as Error).message);
+        promptedToolProviders.add(provider.id);
+        return prompted.createTurn(request);
+      }
+    }
+  };
+}
@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { executeTrackedMutation, type ChangeRecord } from './change-history.server';
+import { previewMutation, type MutationPreview } from './mutation-preview.server';
+import { startBulkMutation } from './bulk-operations.server';
+import { getAuditContext } from './audit-log.server';
+import { getCurrentStore } from './stores.server';
+import type { ShopifyUserError } from './user-errors.server';
+
+// Rows of a bulk mutation shown in its preview
+const BULK_PREVIEW_ROWS = 20;
+
+// Types for mutations waiting on a human decision
+export interface PendingMutation {
+  id: string;
+  toolCallId?: string;
+  mutation: string;
+  variables: Record<string, unknown>;
+  // Set for start_bulk_mutation: one set of variables per mutation call
+  bulkVariables?: Record<string, unknown>[];
+  preview: MutationPreview;
+  // 'executing' once approved and on its way to Shopify; it is never run again from there
+  status: 'pending' | 'executing' | 'executed' | 'failed' | 'rejected';
+  createdAt: string;
+  resolvedAt?: string;
+  // The user message that led to the mutation, for the audit log when it's approved
+  prompt?: string | null;
+  // The store it was proposed for, and where it runs once approved
+  storeId?: string;
+  result?: unknown;
+  error?: string;
+  // Why Shopify refused it, when it failed on userErrors
+  userErrors?: ShopifyUserError[];
+}
+
+/**
+ * Whether execute_mutation calls must be approved before they reach Shopify.
+ * Enabled unless REQUIRE_MUTATION_APPROVAL is explicitly set to "false".
+ */
+export function isMutationApprovalRequired(): boolean {
+  return process.env.REQUIRE_MUTATION_APPROVAL !== 'false';
+}
+
+/**
+ * Park an execute_mutation call as a pending action
+ */
+export function createPendingMutation(
+  { mutation, variables = {} }: { mutation: string; variables?: Record<string, unknown> },
+  toolCallId?: string
+): PendingMutation {
+  return {
+    id: uuidv4(),
+    toolCallId,
+    mutation,
+    variables,
+    preview: previewMutation(mutation, variables),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    prompt: getAuditContext()?.prompt,
+    storeId: getCurrentStore()?.id
+  };
+}
+
+/**
+ * Park a start_bulk_mutation call as a pending action
+ * The preview covers the first rows only, with the total row count.
+ */
+export function createPendingBulkMutation(
+  { mutation, variables }: { mutation: string; variables: Record<string, unknown>[] },
+  toolCallId?: string
+): PendingMutation {
+  const rows = Array.isArray(variables) ? variables : [];
+  const previewVariables = { rows: rows.slice(0, BULK_PREVIEW_ROWS), totalRows: rows.length };
+
+  return {
+    id: uuidv4(),
+    toolCallId,
+    mutation,
+    variables: previewVariables,
+    bulkVariables: rows,
+    preview: previewMutation(mutation, previewVariables),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    prompt: getAuditContext()?.prompt,
+    storeId: getCurrentStore()?.id
+  };
+}
+
+/**
+ * The tool result the model sees in place of the Shopify response
+ */
+export function getPendingMutationToolResult(pending: PendingMutation) {
+  return {
+    status: 'pending_approval',
+    pendingActionId: pending.id,
+    preview: pending.preview,
+    message: "This mutation has NOT been executed yet. It is waiting for the user to approve or reject it. Tell the user what you intend to change and that it is awaiting their approval."
+  };
+}
+
+/**
+ * Execute a pending mutation after the user approves it
+ * Returns the change record for undo, if the mutation touched restorable resources
+ */
+export async function approvePendingMutation(pending: PendingMutation): Promise<ChangeRecord | null> {
+  if (pending.status !== 'pending') {
+    return null;
+  }
+
+  // Bulk mutations run asynchronously on Shopify and are too large to snapshot for undo
+  if (pending.bulkVariables) {
+    const result = await startBulkMutation({ mutation: pending.mutation, variables: pending.bulkVariables });
+    pending.resolvedAt = new Date().toISOString();
+    pending.result = result;
+    pending.status = result.error ? 'failed' : 'executed';
+    pending.error = result.error;
+    return null;
+  }
+
+  const { result, changeRecord } = await executeTrackedMutation({
+    mutation: pending.mutation,
+    variables: pending.variables
+  });
+
+  pending.resolvedAt = new Date().toISOString();
+  pending.result = result;
+
+  if (result.error) {
+    pending.status = 'failed';
+    pending.error = result.error;
+    pending.userErrors = result.userErrors;
+  } else {
+    pending.status = 'executed';
+  }
+
+  return changeRecord;
+}
+
+/**
+ * Discard a pending mutation without executing it
+ */
+export function rejectPendingMutation(pending: PendingMutation): PendingMutation {
+  if (pending.status === 'pending') {
+    pending.status = 'rejected';
+    pending.resolvedAt = new Date().toISOString();
+  }
+
+  return pending;
+}
+
+/**
+ * Summarize the outcome of an approval decision for the chat history
+ */
+export function describePendingMutationOutcome(pending: PendingMutation): string {
+  const name = pending.preview.rootFields.join(', ') || pending.preview.operationName || 'mutation';
+  const targets = pending.preview.targetIds.length > 0
+    ? ` on ${pending.preview.targetIds.join(', ')}`
+    : '';
+
+  switch (pending.status) {
+    case 'executed':
+      return pending.bulkVariables
+        ? `Approved and started a bulk ${name} for ${pending.bulkVariables.length} rows. I'll report here when it finishes.`
+        : `Approved and executed ${name}${targets}.`;
+    case 'failed':
+      return `Approved ${name}${targets}, but Shopify returned an error: ${pending.error}`;
+    case 'rejected':
+      return `Rejected ${name}${targets}. No changes were made.`;
+    default:
+      return `${name}${targets} is awaiting approval.`;
+  }
+}
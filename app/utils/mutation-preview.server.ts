@@ -0,0 +1,72 @@
+import { Kind, parse, type DocumentNode, type FragmentDefinitionNode, type SelectionSetNode } from 'graphql';
+
+// Summary of what a mutation will touch, built without sending it to Shopify
+export interface MutationPreview {
+  operationName: string | null;
+  rootFields: string[];
+  targetIds: string[];
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Extract the top-level fields selected by every mutation in a GraphQL document
+ * Fields selected through fragment spreads and inline fragments count too. A
+ * document that doesn't parse has no root fields, so the allowlist refuses it.
+ */
+function parseMutationOperations(mutation: string): { operationName: string | null; rootFields: string[] } {
+  let document: DocumentNode;
+  try {
+    document = parse(mutation);
+  } catch {
+    return { operationName: null, rootFields: [] };
+  }
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+
+  const fields: string[] = [];
+  const collect = (selectionSet: SelectionSetNode, seenFragments: Set<string>) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        // The real field name, whatever alias it was given
+        fields.push(selection.name.value);
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        collect(selection.selectionSet, seenFragments);
+      } else {
+        const fragment = fragments.get(selection.name.value);
+        if (fragment && !seenFragments.has(fragment.name.value)) {
+          collect(fragment.selectionSet, new Set([...seenFragments, fragment.name.value]));
+        }
+      }
+    }
+  };
+
+  let operationName: string | null = null;
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.OPERATION_DEFINITION && definition.operation === 'mutation') {
+      operationName = operationName ?? definition.name?.value ?? null;
+      collect(definition.selectionSet, new Set());
+    }
+  }
+  return { operationName, rootFields: fields };
+}
+
+/**
+ * Build a dry-run preview of a mutation without sending it to Shopify
+ */
+export function previewMutation(mutation: string, variables: Record<string, unknown> = {}): MutationPreview {
+  const { operationName, rootFields } = parseMutationOperations(mutation);
+  const gidPattern = /gid:\/\/shopify\/[A-Za-z]+\/[^"'\s,)}\]\\]+/g;
+  const haystack = `${mutation}\n${JSON.stringify(variables)}`;
+
+  return {
+    operationName,
+    rootFields,
+    targetIds: Array.from(new Set(haystack.match(gidPattern) || [])),
+    variables
+  };
+}
@@ -1,27 +1,38 @@
-import OpenAI from "openai";
-// No need to import Tool type since we're using inline type definitions
-import { 
-  executeShopifyQuery,
-  executeShopifyMutation,
-  introspectShopifySchema
-} from "./shopify.server";
+import { extractGraphQLDocuments, type ReliedOnDocument } from "./schema-diff.server";
+import { findRelevantPlaybooks, formatPlaybooks, listPlaybooks } from "./playbooks.server";
+import { getTypedTool, getTypedToolDefinitions, isTypedMutationTool } from "./tool-registry.server";
+import { formatUserErrors, type ShopifyUserError } from "./user-errors.server";
+import { parseToolArguments } from "./tool-arguments.server";
+import {
+  describePermissions,
+  getDefaultRole,
+  getPermissions,
+  isToolAllowed,
+  type Permissions
+} from "./permissions.server";
+import { getApiVersion, getCurrentStore, listStores, runWithStore, type ShopifyStore } from "./stores.server";
+import { MAX_PAGINATED_RECORDS, summarizePaginatedResult } from "./pagination.server";
 import {
   createOperationPlan,
   executeOperationPlan,
   getOperationDebugInfo,
-  type OperationPlan
+  type OperationPlan,
+  type OperationStep,
+  type StepResult
 } from "./operation-executor.server";
-
-// Initialize OpenAI client
-let openai: OpenAI;
-const OPENAI_MODEL = "gpt-4-0125-preview"; // Model used for Chat Completions
-const OPENAI_RESPONSES_MODEL = "gpt-4o"; // Model used for Responses API and web search
-const USE_RESPONSES_API = true; // Set to true to use Responses API instead of Chat Completions
+import type { TypeDescription } from "./shopify-schema.server";
+import type { ChatMessage } from "./chat-storage.server";
+import type { AgentItem, LlmAdapter, ModelToolCall } from "./llm-adapters.server";
+import { createProviderAdapter } from "./llm-providers.server";
+import { isMutationApprovalRequired, type PendingMutation } from "./mutation-approval.server";
+import type { ChangeRecord } from "./change-history.server";
+import type { BulkOperationRecord } from "./bulk-operations.server";
+import type { Connection } from "./shopify.server";
 
 // Utility functions to generate friendly descriptions
 function getFriendlyQueryDescription(argsStr: string): string {
   try {
-    const args = safeParseJSON(argsStr);
+    const args = (parseToolArguments(argsStr).args || {}) as { query?: string };
     if (args.query && args.query.includes("productVariants")) {
       if (args.query.includes("sku:")) {
         const skuMatch = args.query.match(/sku:([^"'\s)]+)/);
@@ -50,7 +61,7 @@ function getFriendlyQueryDescription(argsStr: string): string {
 
 function getFriendlyMutationDescription(argsStr: string): string {
   try {
-    const args = safeParseJSON(argsStr);
+    const args = (parseToolArguments(argsStr).args || {}) as { mutation?: string };
     if (args.mutation && args.mutation.includes("productVariantsBulkUpdate")) {
       return "product variant details";
     } else if (args.mutation && args.mutation.includes("inventoryItemUpdate")) {
@@ -66,61 +77,6 @@ function getFriendlyMutationDescription(argsStr: string): string {
   }
 }
 
-// Helper function to safely parse JSON with escaped quotes and special characters
-function safeParseJSON(jsonString: string): any {
-  if (!jsonString) return {};
-  
-  try {
-    // First try normal parsing
-    return JSON.parse(jsonString);
-  } catch (e) {
-    // If that fails, try to fix common issues
-    console.log("Error parsing JSON, attempting to fix:", e);
-    
-    try {
-      // Replace escaped quotes that might be causing issues
-      let fixedString = jsonString
-        // Fix double-escaped quotes
-        .replace(/\\\\"/g, '\\"')
-        // Fix escaped quotes within already quoted strings
-        .replace(/\\"/g, '"')
-        // Replace double backslashes
-        .replace(/\\\\/g, '\\');
-      
-      // Try to handle GraphQL queries with escaped quotes
-      if (fixedString.includes('query:')) {
-        fixedString = fixedString.replace(/(query:\s*)"(.*?)"/g, (match, p1, p2) => {
-          // Fix the query parameter format
-          return `${p1}"${p2.replace(/"/g, '\\"')}"`;
-        });
-      }
-      
-      return JSON.parse(fixedString);
-    } catch (e2) {
-      console.error("Failed to parse JSON even after cleanup:", e2);
-      // As a last resort, try eval with a safety check (not recommended but may help in this case)
-      try {
-        // Very carefully evaluate as JSON - only if string looks like JSON
-        if (/^[\[{].*[\]}]$/.test(jsonString.trim())) {
-          const result = eval('(' + jsonString + ')');
-          return typeof result === 'object' ? result : {};
-        }
-      } catch (e3) {
-        console.error("All JSON parsing methods failed");
-      }
-      return {};
-    }
-  }
-}
-
-try {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-} catch (error) {
-  console.error("Error initializing OpenAI client:", error);
-}
-
 // Define Shopify tools for the OpenAI API
 const shopifyTools = [
   {
@@ -138,6 +94,21 @@ const shopifyTools = [
           variables: {
             type: "object",
             description: "Variables to use in the GraphQL query. Should match the variables referenced in the query."
+          },
+          paginate: {
+            type: "object",
+            description: "Optional. Fetch every page of one connection and merge the results, e.g. to list all products with a tag. The query must declare `$cursor: String`, pass `after: $cursor` to the connection and select `pageInfo { hasNextPage endCursor }` on it.",
+            properties: {
+              path: {
+                type: "string",
+                description: "Dot-separated path from the query's data to the connection to paginate, e.g. 'products' or 'product.variants'."
+              },
+              maxRecords: {
+                type: "number",
+                description: `Optional. Stop after this many records (at most ${MAX_PAGINATED_RECORDS}).`
+              }
+            },
+            required: ["path"]
           }
         },
         required: ["query"]
@@ -180,25 +151,123 @@ const shopifyTools = [
           field: {
             type: "string",
             description: "Optional. The name of a specific field to look up on the specified type. Only used if 'type' is also provided."
+          },
+          search: {
+            type: "string",
+            description: "Optional. Search the whole schema for types, fields, arguments, input fields and enum values matching this term, e.g. 'inventoryPolicy' or 'ProductVariantsBulkInput'. Fields also match when an argument or their return type matches."
+          },
+          scope: {
+            type: "string",
+            enum: ["all", "types", "fields", "queries", "mutations"],
+            description: "Optional. Limit a search to type names, fields, root query fields or mutations (e.g. mutations that take a given input type). Defaults to 'all'."
           }
         }
       }
     }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "start_bulk_query",
+      description: "Start a Shopify bulk operation that exports everything a query selects, for store-wide exports such as the full catalog or all orders this year. Runs in the background; the user is told in this conversation when it finishes.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "The bulk query. Connections are written without first/after arguments, e.g. '{ products(query: \"tag:clearance\") { edges { node { id title } } } }'."
+          }
+        },
+        required: ["query"]
+      }
+    }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "start_bulk_mutation",
+      description: "Start a Shopify bulk operation that runs one mutation once per row of variables, for changes to thousands of records such as setting a metafield on every variant. Runs in the background; the user is told in this conversation when it finishes.",
+      parameters: {
+        type: "object",
+        properties: {
+          mutation: {
+            type: "string",
+            description: "The mutation to run for each row, declaring its variables, e.g. 'mutation call($metafields: [MetafieldsSetInput!]!) { metafieldsSet(metafields: $metafields) { userErrors { field message } } }'."
+          },
+          variables: {
+            type: "array",
+            description: "One object of variables per mutation call.",
+            items: { type: "object" }
+          }
+        },
+        required: ["mutation", "variables"]
+      }
+    }
+  },
+  {
+    type: "function" as const,
+    function: {
+      name: "check_bulk_operation",
+      description: "Get the status of a bulk operation and, once it has completed, a summary and sample of its results.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "The bulk operation ID, e.g. 'gid://shopify/BulkOperation/123'."
+          },
+          type: {
+            type: "string",
+            enum: ["QUERY", "MUTATION"],
+            description: "Whether it was started with start_bulk_query (QUERY, the default) or start_bulk_mutation (MUTATION)."
+          }
+        },
+        required: ["id"]
+      }
+    }
   }
-  // Define tools for the Responses API
-  // These tools will be used when USE_RESPONSES_API is true
 ];
 
+/**
+ * The tools offered to a user with the given permissions
+ * Mutation tools are left out for read-only roles, and list the allowed mutations for editors.
+ * The typed tools come after the raw GraphQL ones they stand in for.
+ */
+function getShopifyTools(permissions: Permissions) {
+  const rawTools = shopifyTools
+    .filter((tool) => isToolAllowed(permissions, tool.function.name))
+    .map((tool) => {
+      if (!permissions.allowedMutations || !tool.function.name.includes('mutation')) {
+        return tool;
+      }
+      return {
+        ...tool,
+        function: {
+          ...tool.function,
+          description: `${tool.function.description} Only these mutations are allowed: ${permissions.allowedMutations.join(", ")}.`
+        }
+      };
+    });
+  return [...rawTools, ...getTypedToolDefinitions(permissions)];
+}
+
 /**
  * Prepare system message for Shopify Assistant
  */
-function prepareSystemMessage(activeOperation: OperationPlan | null = null): string {
+function prepareSystemMessage(
+  activeOperation: OperationPlan | null = null,
+  permissions?: Permissions,
+  request = ""
+): string {
   let baseMessage = `You are a Shopify Admin Assistant with access to the Shopify GraphQL Admin API. You can craft and execute custom GraphQL queries and mutations to help users manage their Shopify store.
 
     IMPORTANT: YOU MUST EXECUTE THE GRAPHQL OPERATIONS YOURSELF - DO NOT TELL THE USER HOW TO DO IT.
     
     When a user asks you to perform a task:
-    1. Determine what GraphQL operations are needed
+    1. Determine what operations are needed. Prefer the typed tools (search_products, get_variant_by_sku,
+       update_variant_price, set_inventory_cost, add_tags, remove_tags, set_metafield, get_inventory_levels,
+       adjust_inventory, set_inventory_quantity, ...)
+       when one does the job; use execute_query and execute_mutation for everything else
     2. If you're uncertain about the schema, use the introspect_schema function to check available fields, types, or mutations
     3. Immediately execute operations using the execute_query and execute_mutation functions
     4. NEVER show the user your GraphQL code - just take action and report the results
@@ -307,67 +376,46 @@ function prepareSystemMessage(activeOperation: OperationPlan | null = null): str
 
     For IDs, use the format: gid://shopify/[Type]/[id], e.g., "gid://shopify/Product/12345"
 
+    When the user asks for every matching record (e.g. "list every product tagged clearance"), pass
+    paginate to execute_query instead of relying on a single page:
+    execute_query({
+      query: "query($cursor: String) { products(first: 250, after: $cursor, query: \\"tag:clearance\\") { edges { node { id title } } pageInfo { hasNextPage endCursor } } }",
+      paginate: { path: "products" }
+    })
+    The result's pagination field says how many pages and records were fetched and whether more remain.
+
+    For store-wide exports (the full catalog, all orders this year) use start_bulk_query, and for changes
+    to more than a few hundred records use start_bulk_mutation. Bulk operations run in the background:
+    tell the user it has started and that you'll report back in this conversation - don't wait for it.
+
     Always check for errors in the response and format your answers in a clear, helpful way.
     Be concise and to the point in your responses.
     
     AGAIN: DO NOT TELL THE USER HOW TO EXECUTE QUERIES. EXECUTE THE QUERIES YOURSELF AND ONLY REPORT THE RESULTS.
     
-    # STORE-SPECIFIC INFORMATION AND BEST PRACTICES:
+    # COMMON MUTATIONS
     
-    1. PRICE AND COST UPDATES:
-       - For updating inventory item costs, use:
-         mutation {
-           inventoryItemUpdate(id: "gid://shopify/InventoryItem/12345", input: { cost: "50.00" }) {
-             inventoryItem { id unitCost { amount currencyCode } }
-             userErrors { field message }
-           }
-         }
-       
-       - For updating variant prices, use productVariantsBulkUpdate (NOT the deprecated productVariantUpdate):
-         mutation {
-           productVariantsBulkUpdate(
-             productId: "gid://shopify/Product/12345",
-             variants: [{ id: "gid://shopify/ProductVariant/67890", price: "99.00" }]
-           ) {
-             productVariants { id price }
-             userErrors { field message }
-           }
-         }
-       
-       - For US price updates, use the pricelist ID: "gid://shopify/PriceList/18798805026"
-    
-    2. TAGS AND METAFIELDS:
-       - When adding new tags, ALWAYS retrieve existing tags first, combine with new tags, then update
-       - For sale end dates, use the metafield: inventory.ShappifySaleEndDate with format: 2023-08-04T03:00:00Z
-    
-    3. SKU UPDATES:
-       - Update SKUs using productVariantsBulkUpdate with the inventoryItem field:
-         mutation {
-           productVariantsBulkUpdate(
-             productId: "gid://shopify/Product/12345",
-             variants: [{ id: "gid://shopify/ProductVariant/67890", inventoryItem: { sku: "NEW-SKU" } }]
-           ) {
-             productVariants { id sku }
-             userErrors { field message }
-           }
-         }
-    
-    4. PRE-ORDERS:
-       - Set inventory policy to "continue"
-       - Add tag "preorder-2-weeks"
-       - For specific shipping dates, add tag "shipping-nis-{DATE}" (e.g., "shipping-nis-February-2025")
+    - For updating variant prices, use productVariantsBulkUpdate (NOT the deprecated productVariantUpdate):
+      mutation {
+        productVariantsBulkUpdate(
+          productId: "gid://shopify/Product/12345",
+          variants: [{ id: "gid://shopify/ProductVariant/67890", price: "99.00" }]
+        ) {
+          productVariants { id price }
+          userErrors { field message }
+        }
+      }
     
-    5. SHIPPING WEIGHT:
-       - Update with inventoryItemUpdate using the measurement field:
-         mutation {
-           inventoryItemUpdate(
-             id: "gid://shopify/InventoryItem/12345",
-             input: { measurement: { weight: { unit: KILOGRAMS, value: 15.0 } } }
-           ) {
-             inventoryItem { id measurement { weight { unit value } } }
-             userErrors { field message }
-           }
-         }`;
+    - Update SKUs using productVariantsBulkUpdate with the inventoryItem field:
+      mutation {
+        productVariantsBulkUpdate(
+          productId: "gid://shopify/Product/12345",
+          variants: [{ id: "gid://shopify/ProductVariant/67890", inventoryItem: { sku: "NEW-SKU" } }]
+        ) {
+          productVariants { id sku }
+          userErrors { field message }
+        }
+      }`;
 
   // Add instructions for multi-step operations
   baseMessage += `\n\nYou MUST perform multi-step operations that need multiple Shopify API calls yourself. For complex tasks that require multiple steps:
@@ -426,7 +474,8 @@ function prepareSystemMessage(activeOperation: OperationPlan | null = null): str
     2. Example: introspect_schema() - to get all root query and mutation fields
     3. Example: introspect_schema({type: "Product"}) - to get information about the Product type
     4. Example: introspect_schema({type: "ProductInput", field: "variants"}) - to get information about a specific field
-    5. Use this information to construct correct queries and mutations
+    5. Example: introspect_schema({search: "ProductVariantsBulkInput", scope: "mutations"}) - to find mutations that take an input type
+    6. Use this information to construct correct queries and mutations
     
     This will help you to always use the correct and most up-to-date GraphQL schema.
     
@@ -449,7 +498,7 @@ function prepareSystemMessage(activeOperation: OperationPlan | null = null): str
     3. Determine what queries or mutations are needed
     4. Execute each step in sequence, handling any errors
     5. Verify the results before proceeding to the next step
-    6. Keep track of original values in case you need to revert changes
+    6. Keep track of original values in case you need to revert changes (the app also snapshots every change so the user can undo it)
     7. Provide a clear, concise response focusing on what was accomplished
     
     For example, if asked to update a product price, your internal reasoning might be:
@@ -461,6 +510,43 @@ function prepareSystemMessage(activeOperation: OperationPlan | null = null): str
     
     BUT you would only share the final result with the user, not this internal reasoning process.`;
 
+  if (isMutationApprovalRequired()) {
+    // Mutations are parked until the user approves them in the UI
+    baseMessage += `\n\n# MUTATION APPROVAL
+    Every execute_mutation call is queued for the user's approval instead of running immediately.
+    The function result will have status "pending_approval" - this means NOTHING has changed in the store yet.
+    Tell the user exactly what you intend to change (the records, the old values and the new values) and that the change is waiting for their approval.
+    NEVER say a change was made when its result is "pending_approval".`;
+  }
+
+  if (permissions) {
+    baseMessage += describePermissions(permissions);
+  }
+
+  // The examples above were written against one API version; say which one the store is on
+  baseMessage += `\n\n# API VERSION
+    Requests go to Admin API version ${getApiVersion()}. Use introspect_schema when an example above doesn't match it.
+    When a tool result has "deprecations", switch to the replacement it names in later calls and briefly tell the user.`;
+
+  baseMessage += `\n\n# REJECTED MUTATIONS
+    When Shopify rejects a mutation, the tool result has an error and "userErrors", each with the mutation, the input
+    field path it rejected (e.g. variants.0.price) and a message. Nothing in that mutation took effect. Correct the
+    named fields and try again if the fix is clear; otherwise tell the user exactly what Shopify refused and why.
+    Never report a rejected mutation as a success.`;
+
+  // With more than one store connected, make sure the model knows which one this chat is on
+  const store = getCurrentStore();
+  if (store && listStores().length > 1) {
+    baseMessage += `\n\n# STORE
+    You are working on the ${store.name} store (${store.domain}). Every query and mutation you run goes to this store.
+    Earlier messages may have been about another store; check the data again instead of reusing IDs from them.`;
+  }
+
+  // The store's own procedures, only for the requests they are about
+  if (store) {
+    baseMessage += formatPlaybooks(findRelevantPlaybooks(store.domain, request));
+  }
+
   if (activeOperation) {
     // Add information about the active operation
     baseMessage += `\n\nYou are currently working on a multi-step operation with ID: ${activeOperation.id}
@@ -478,1185 +564,590 @@ function prepareSystemMessage(activeOperation: OperationPlan | null = null): str
 }
 
 /**
- * Process continuation of an active operation
+ * The GraphQL examples in the system prompt and the current store's playbooks, for checking them against a new API version
  */
-async function continueOperation(
-  operation: OperationPlan, 
-  userInput: string, 
-  chatHistory: any[]
-): Promise<any> {
-  // Check if the user wants to abort the operation
-  if (userInput.toLowerCase().includes('cancel') || 
-      userInput.toLowerCase().includes('abort') ||
-      userInput.toLowerCase().includes('stop')) {
-    // Create an abort message
-    const abortMessage = {
-      role: "assistant" as const,
-      content: "I've canceled the current operation. Is there something else you'd like help with?"
-    };
-    
-    const finalMessages = [
-      ...chatHistory,
-      { role: "user" as const, content: userInput },
-      abortMessage
-    ];
-    
-    return {
-      reply: abortMessage.content,
-      messages: finalMessages,
-      operationAborted: true
-    };
-  }
-
-  // If the operation failed or is waiting for user input, let's update the AI
-  if (operation.status === 'failed' || operation.status === 'waiting_for_input') {
-    // Get some context for debug info
-    const debugInfo = getOperationDebugInfo(operation);
-    
-    // Prepare system message with operation context
-    const systemMessage = prepareSystemMessage(operation);
-    
-    // Prepare conversation history
-    const recentMessages = chatHistory
-      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-      .slice(-10);
-    
-    // Create messages array with system prompt and history
-    const messages = [
-      { role: "system" as const, content: systemMessage },
-      ...recentMessages,
-      { role: "user" as const, content: userInput }
-    ];
-    
-    // Call OpenAI to get guidance on how to proceed
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages,
-      tools: shopifyTools,
-      tool_choice: "auto"
-    });
-    
-    // Get the assistant's response
-    const assistantResponse = response.choices[0].message;
-    
-    // Check if the agent wants to modify the operation
-    if (assistantResponse.tool_calls && assistantResponse.tool_calls.length > 0) {
-      // Create a new operation plan based on the new tool calls
-      const newPlan = createOperationPlan(assistantResponse.tool_calls, userInput);
-      
-      // Execute the plan
-      const executedPlan = await executeOperationPlan(newPlan);
-      
-      // Format the result
-      let finalContent = '';
-      if (executedPlan.status === 'completed') {
-        // Generate a success response
-        const completionResponse = await openai.chat.completions.create({
-          model: OPENAI_MODEL,
-          messages: [
-            { role: "system" as const, content: systemMessage },
-            ...recentMessages,
-            { role: "user" as const, content: userInput },
-            { 
-              role: "system" as const, 
-              content: `The operation has completed successfully. Here is the context: ${JSON.stringify(executedPlan.context)}` 
-            }
-          ],
-          tools: shopifyTools
-        });
-        
-        finalContent = completionResponse.choices[0].message.content || '';
-      } else if (executedPlan.status === 'failed') {
-        // Generate a failure response
-        const failureResponse = await openai.chat.completions.create({
-          model: OPENAI_MODEL,
-          messages: [
-            { role: "system" as const, content: systemMessage },
-            ...recentMessages,
-            { role: "user" as const, content: userInput },
-            { 
-              role: "system" as const, 
-              content: `The operation failed. Here are the errors: ${JSON.stringify(executedPlan.steps.filter(s => s.error).map(s => s.error))}` 
-            }
-          ],
-          tools: shopifyTools
-        });
-        
-        finalContent = failureResponse.choices[0].message.content || '';
-      } else {
-        // Generate a partial completion response
-        const partialResponse = await openai.chat.completions.create({
-          model: OPENAI_MODEL,
-          messages: [
-            { role: "system" as const, content: systemMessage },
-            ...recentMessages,
-            { role: "user" as const, content: userInput },
-            { 
-              role: "system" as const, 
-              content: `The operation is still in progress. Some steps have completed. Here is the current context: ${JSON.stringify(executedPlan.context)}` 
-            }
-          ],
-          tools: shopifyTools
-        });
-        
-        finalContent = partialResponse.choices[0].message.content || '';
-      }
-      
-      // Create a message with debug info embedded
-      const assistantMessage = { 
-        role: "assistant" as const, 
-        content: finalContent + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>"
-      };
-      
-      // Construct the final message history
-      const finalMessages = [
-        ...chatHistory,
-        { role: "user" as const, content: userInput },
-        assistantMessage
-      ];
-      
-      return {
-        reply: finalContent,
-        messages: finalMessages,
-        operation: executedPlan,
-        debug: debugInfo
-      };
-    } else {
-      // No tool calls needed, just return the direct response
-      const assistantMessage = { 
-        role: "assistant" as const, 
-        content: (assistantResponse.content || '') + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>"
-      };
-      
-      const finalMessages = [
-        ...chatHistory,
-        { role: "user" as const, content: userInput },
-        assistantMessage
-      ];
-      
-      return {
-        reply: assistantResponse.content || '',
-        messages: finalMessages,
-        operation: null, // Clear the operation
-        debug: debugInfo
-      };
-    }
-  }
-  
-  // Otherwise, just continue executing the operation
-  const executedPlan = await executeOperationPlan(operation);
-  const debugInfo = getOperationDebugInfo(executedPlan);
-  
-  // Format the result
-  let finalContent = '';
-  if (executedPlan.status === 'completed') {
-    // Generate a success response
-    const systemMessage = prepareSystemMessage(executedPlan);
-    const completionResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system" as const, content: systemMessage },
-        ...chatHistory.filter(msg => msg.role === 'user' || msg.role === 'assistant').slice(-10),
-        { role: "user" as const, content: userInput },
-        { 
-          role: "system" as const, 
-          content: `The operation has completed successfully. Here is the context: ${JSON.stringify(executedPlan.context)}` 
-        }
-      ]
-    });
-    
-    finalContent = completionResponse.choices[0].message.content || '';
-  } else if (executedPlan.status === 'failed') {
-    // Generate a failure response
-    const systemMessage = prepareSystemMessage(executedPlan);
-    const failureResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system" as const, content: systemMessage },
-        ...chatHistory.filter(msg => msg.role === 'user' || msg.role === 'assistant').slice(-10),
-        { role: "user" as const, content: userInput },
-        { 
-          role: "system" as const, 
-          content: `The operation failed. Here are the errors: ${JSON.stringify(executedPlan.steps.filter(s => s.error).map(s => s.error))}` 
-        }
-      ]
-    });
-    
-    finalContent = failureResponse.choices[0].message.content || '';
-  } else {
-    // Generate a partial completion response
-    const systemMessage = prepareSystemMessage(executedPlan);
-    const partialResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system" as const, content: systemMessage },
-        ...chatHistory.filter(msg => msg.role === 'user' || msg.role === 'assistant').slice(-10),
-        { role: "user" as const, content: userInput },
-        { 
-          role: "system" as const, 
-          content: `The operation is still in progress. Some steps have completed. Here is the current context: ${JSON.stringify(executedPlan.context)}` 
-        }
-      ]
-    });
-    
-    finalContent = partialResponse.choices[0].message.content || '';
-  }
-  
-  // Create a message with debug info embedded
-  const assistantMessage = { 
-    role: "assistant" as const, 
-    content: finalContent + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>"
-  };
-  
-  // Construct the final message history
-  const finalMessages = [
-    ...chatHistory,
-    { role: "user" as const, content: userInput },
-    assistantMessage
+export function getSystemPromptDocuments(): ReliedOnDocument[] {
+  const store = getCurrentStore();
+  const playbooks = store ? listPlaybooks(store.domain) : [];
+  return [
+    ...extractGraphQLDocuments(prepareSystemMessage(null), "System prompt"),
+    ...playbooks.flatMap((playbook) => extractGraphQLDocuments(playbook.content, `Playbook "${playbook.title}"`))
   ];
-  
-  // If the operation is complete or failed, return null to clear it
-  const finalOperation = executedPlan.status === 'completed' || executedPlan.status === 'failed' 
-    ? null 
-    : executedPlan;
-  
-  return {
-    reply: finalContent,
-    messages: finalMessages,
-    operation: finalOperation,
-    debug: debugInfo
+}
+
+// The last messages of the conversation as plain role/content pairs for the model
+// (stored messages carry extra fields, like the store they were sent on)
+function getRecentMessages(chatHistory: ChatMessage[]) {
+  return chatHistory
+    .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+    .slice(-10)
+    .map(msg => ({ role: msg.role, content: msg.content }));
+}
+
+// Budget for the agent loop
+const AGENT_MAX_STEPS = Number(process.env.AGENT_MAX_STEPS) || 8; // Rounds of tool calls per user message
+const AGENT_MAX_TOKENS = Number(process.env.AGENT_MAX_TOKENS) || 200000; // Total tokens across all rounds
+
+// A paused operation only continues or stops when a message says so and nothing else
+const CONTINUE_OPERATION = /^\s*(continue|resume|retry)\s*[.!]?\s*$/i;
+const CANCEL_OPERATION = /^\s*(cancel|abort|stop)\s*[.!]?\s*$/i;
+
+const MAX_TOOL_OUTPUT_LENGTH = 50000; // Well below the 256000 limit for a function_call_output
+
+// A single tool call made during an agent round
+interface AgentToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
   };
+  result: StepResult | undefined;
+}
+
+// A mutation Shopify refused, shown as an error card under the reply
+export interface MutationFailure {
+  tool: string;
+  error: string;
+  userErrors: ShopifyUserError[];
 }
 
 /**
- * Create and start a new multi-step operation
+ * The refused mutations among a message's tool results
  */
-async function startNewOperation(
-  userInput: string, 
-  chatHistory: any[] = []
-): Promise<any> {
-  if (!openai) {
-    throw new Error("OpenAI client not initialized. Check your API key.");
+function getMutationFailures(results: { tool: string; result: StepResult | undefined }[]): MutationFailure[] | undefined {
+  const failures = results
+    .flatMap(({ tool, result }) => result?.userErrors?.length
+      ? [{ tool, error: result.error || "Shopify rejected the mutation", userErrors: result.userErrors }]
+      : []);
+  return failures.length > 0 ? failures : undefined;
+}
+
+// The refused mutations among an operation plan's steps
+function getPlanMutationFailures(plan: OperationPlan): MutationFailure[] | undefined {
+  return getMutationFailures(plan.steps.map((step) => ({
+    tool: step.toolName,
+    result: step.userErrors ? { error: step.error, userErrors: step.userErrors } : step.result
+  })));
+}
+
+// One request/response round of the agent loop, kept for the debug trace
+interface AgentRound {
+  step: number;
+  response_id: string;
+  total_tokens: number;
+  operation_id?: string; // The operation plan the round's tool calls ran as
+  tool_calls: AgentToolCall[];
+}
+
+// The trace of a message's agent loop, kept with the reply
+interface AgentDebugInfo {
+  provider?: string;
+  api: LlmAdapter["api"];
+  model: string;
+  response_id?: string;
+  stop_reason: 'completed' | 'max_steps' | 'max_tokens' | 'operation_paused';
+  total_tokens: number;
+  rounds: AgentRound[];
+  tool_calls: AgentToolCall[];
+  operations: ReturnType<typeof getOperationDebugInfo>[];
+}
+
+// What the agent made of a message
+export interface AgentReply {
+  reply: string;
+  // The chat history with the message and the reply
+  messages: ChatMessage[];
+  // A paused operation to continue or cancel with the next message
+  operation?: OperationPlan | null;
+  operationAborted?: boolean;
+  pendingMutations?: PendingMutation[];
+  changeRecords?: ChangeRecord[];
+  bulkOperations?: BulkOperationRecord[];
+  debug?: AgentDebugInfo;
+}
+
+/**
+ * Remove the hidden debug trace from a stored assistant message
+ */
+function stripDebugInfo(content: string): string {
+  if (!content || !content.includes("<debug-info hidden>")) {
+    return content || "";
   }
+  return content.split("<debug-info hidden>")[0].trim();
+}
 
-  // Prepare the system message
-  const systemMessage = prepareSystemMessage();
+// Progress events emitted while a message is processed, for streaming to the UI
+export type AgentEvent =
+  | { type: 'text_delta'; delta: string }
+  | { type: 'tool_call'; id: string; name: string; label: string }
+  | { type: 'tool_result'; id: string; name: string; label: string; status: 'success' | 'error' | 'pending_approval' }
+  | { type: 'done'; reply: string; debug?: unknown }
+  | { type: 'error'; message: string };
 
-  // Prepare conversation history
-  const recentMessages = chatHistory
-    .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-    .slice(-10);
+export type AgentEventHandler = (event: AgentEvent) => void;
 
-  // Create messages array with system prompt and history
-  const messages = [
-    { role: "system" as const, content: systemMessage },
-    ...recentMessages,
-    { role: "user" as const, content: userInput }
-  ];
-  
-  // First call to the OpenAI API to get the agent's response
-  const response = await openai.chat.completions.create({
-    model: OPENAI_MODEL,
-    messages,
-    tools: shopifyTools,
-    tool_choice: "auto",
-  });
+/**
+ * Label shown while a tool call is running, e.g. "running query: products"
+ */
+function describeToolCall(functionName: string, argsStr: string): string {
+  if (functionName === 'execute_query') {
+    return `running query: ${getFriendlyQueryDescription(argsStr)}`;
+  } else if (functionName === 'execute_mutation') {
+    return `running mutation: ${getFriendlyMutationDescription(argsStr)}`;
+  } else if (functionName === 'introspect_schema') {
+    return "looking up the Shopify schema";
+  } else if (functionName === 'start_bulk_query') {
+    return "starting a bulk export";
+  } else if (functionName === 'start_bulk_mutation') {
+    return "starting a bulk update";
+  } else if (functionName === 'check_bulk_operation') {
+    return "checking on a bulk operation";
+  }
+  return `running ${functionName}`;
+}
 
-  // Get the assistant's response
-  const assistantResponse = response.choices[0].message;
-  
-  // Check if the agent wants to call a tool/function
-  if (assistantResponse.tool_calls && assistantResponse.tool_calls.length > 0) {
-    // Create an operation plan from the tool calls
-    const operationPlan = createOperationPlan(assistantResponse.tool_calls, userInput);
-    
-    // Execute the operation plan
-    const executedPlan = await executeOperationPlan(operationPlan);
-    
-    // Get debug info
-    const debugInfo = getOperationDebugInfo(executedPlan);
-    
-    // Format the result
-    let finalContent = '';
-    if (executedPlan.status === 'completed') {
-      // All steps completed successfully
-      // Add the tool calls to messages
-      const toolMessages = [];
-      for (const step of executedPlan.steps) {
-        if (step.status === 'completed') {
-          toolMessages.push({
-            role: "tool" as const,
-            tool_call_id: step.id,
-            content: JSON.stringify(step.result)
-          });
-        }
-      }
-      
-      // Call OpenAI again with the function results to get final response
-      const secondResponse = await openai.chat.completions.create({
-        model: OPENAI_MODEL,
-        messages: [
-          ...messages,
-          {
-            role: "assistant" as const,
-            content: null,
-            tool_calls: assistantResponse.tool_calls
-          },
-          ...toolMessages
-        ],
-        tools: shopifyTools
-      });
-      
-      finalContent = secondResponse.choices[0].message.content || '';
-    } else if (executedPlan.status === 'failed') {
-      // Some steps failed
-      const failedSteps = executedPlan.steps.filter(s => s.status === 'failed');
-      
-      // Generate a response about the failure
-      const errorResponse = await openai.chat.completions.create({
-        model: OPENAI_MODEL,
-        messages: [
-          ...messages,
-          {
-            role: "system" as const,
-            content: `The operation failed. Here are the errors: ${JSON.stringify(failedSteps.map(s => s.error))}`
+/**
+ * Progress event for a finished tool call
+ */
+function describeToolResult(
+  call: ModelToolCall,
+  result: { status?: string; error?: string; bulkOperationId?: string; deprecations?: string[] } | undefined
+): AgentEvent {
+  const isMutation = call.name === 'execute_mutation' || call.name === 'start_bulk_mutation' ||
+    isTypedMutationTool(call.name);
+  const subject = isMutation && !getTypedTool(call.name)
+    ? getFriendlyMutationDescription(call.arguments)
+    : call.name === 'execute_query'
+      ? getFriendlyQueryDescription(call.arguments)
+      : call.name;
+
+  let status: 'success' | 'error' | 'pending_approval' = 'success';
+  let label = isMutation ? `mutation succeeded: ${subject}` : `query finished: ${subject}`;
+  if (result?.status === 'started') {
+    label = `bulk operation started: ${result.bulkOperationId}`;
+  } else if (result?.status === 'pending_approval') {
+    status = 'pending_approval';
+    label = `mutation awaiting approval: ${subject}`;
+  } else if (result?.error) {
+    status = 'error';
+    label = `${isMutation ? 'mutation' : 'query'} failed: ${result.error}`;
+  }
+  if (result?.deprecations?.length) {
+    label += ' (uses deprecated API features)';
+  }
+
+  return { type: 'tool_result', id: call.id, name: call.name, label, status };
+}
+
+/**
+ * Format a tool result as the output string sent back to the model, with size limits
+ */
+function formatToolResult(functionName: string, result: StepResult | undefined): string {
+  let resultStr: string;
+  try {
+    const schemaType = functionName === 'introspect_schema'
+      ? (result?.data as { type?: TypeDescription | null } | undefined)?.type
+      : undefined;
+    if (schemaType) {
+      // Schema results are large - keep full signatures but shorten descriptions
+      const type = schemaType;
+      const fields = (type.fields || []).slice(0, 100).map((field) => ({
+        name: field.name,
+        type: field.type,
+        args: field.args?.map((arg) => `${arg.name}: ${arg.type}`),
+        description: field.description?.substring(0, 100),
+        deprecated: field.deprecated
+      }));
+      const inputFields = type.inputFields?.map((field) => ({
+        name: field.name,
+        type: field.type,
+        description: field.description?.substring(0, 100)
+      }));
+
+      resultStr = JSON.stringify({
+        data: {
+          type: {
+            ...type,
+            description: type.description?.substring(0, 500),
+            fields,
+            inputFields,
+            note: type.fields && type.fields.length > 100
+              ? `Showing 100 of ${type.fields.length} fields`
+              : undefined
           }
-        ],
-        tools: shopifyTools
+        }
       });
-      
-      finalContent = errorResponse.choices[0].message.content || '';
+    } else if (result?.pagination && result.data) {
+      // Merged pages can be large - keep as many whole records as fit
+      resultStr = summarizePaginatedResult(
+        { data: result.data as Record<string, unknown>, pagination: result.pagination },
+        MAX_TOOL_OUTPUT_LENGTH
+      );
+    } else if (typeof result === 'string') {
+      resultStr = result;
+    } else if (result === undefined || result === null) {
+      resultStr = JSON.stringify({ message: "No result returned" });
+    } else if (result.error) {
+      resultStr = JSON.stringify({ error: result.error });
     } else {
-      // Operation is still in progress
-      const completedSteps = executedPlan.steps.filter(s => s.status === 'completed');
-      const pendingSteps = executedPlan.steps.filter(s => s.status === 'pending');
-      
-      // Generate a response about the partial completion
-      const partialResponse = await openai.chat.completions.create({
-        model: OPENAI_MODEL,
-        messages: [
-          ...messages,
-          {
-            role: "system" as const,
-            content: `The operation is still in progress. ${completedSteps.length} steps completed, ${pendingSteps.length} steps pending. Here is the current context: ${JSON.stringify(executedPlan.context)}`
-          }
-        ],
-        tools: shopifyTools
+      // Leave the debugging copy of the GraphQL request out of what the model sees
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { _graphql, ...rest } = result;
+      resultStr = JSON.stringify(rest);
+    }
+
+    // Final size check - if still too large, truncate drastically
+    if (resultStr.length > MAX_TOOL_OUTPUT_LENGTH) {
+      console.warn(`Result for ${functionName} is too large (${resultStr.length} chars), truncating`);
+      resultStr = JSON.stringify({
+        warning: "Result was too large and has been truncated",
+        original_size: resultStr.length,
+        summary: "Please request more specific information to avoid size limits",
+        sample: result?.data
+          ? "Data sample (truncated): " + JSON.stringify(result.data).substring(0, 1000)
+          : undefined
       });
-      
-      finalContent = partialResponse.choices[0].message.content || '';
     }
-    
-    // Create a message with debug info embedded
-    const assistantMessage = { 
-      role: "assistant" as const, 
-      content: finalContent + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>"
-    };
-    
-    // Construct the final message history
-    const finalMessages = [
-      ...chatHistory,
-      { role: "user" as const, content: userInput },
-      assistantMessage
-    ];
-    
-    // If the operation is complete or failed, return null to clear it
-    const finalOperation = executedPlan.status === 'completed' || executedPlan.status === 'failed' 
-      ? null 
-      : executedPlan;
-    
-    return {
-      reply: finalContent,
-      messages: finalMessages,
-      operation: finalOperation,
-      debug: debugInfo
-    };
-  } else {
-    // No tool calls needed, just return the direct response
-    const assistantMessage = { 
-      role: "assistant" as const, 
-      content: assistantResponse.content || ''
-    };
-    
-    const finalMessages = [
-      ...chatHistory,
-      { role: "user" as const, content: userInput },
-      assistantMessage
-    ];
-    
-    return {
-      reply: assistantResponse.content || '',
-      messages: finalMessages,
-      operation: null
-    };
+  } catch (e) {
+    console.error("Error stringifying result:", e);
+    resultStr = JSON.stringify({ error: "Could not format result" });
   }
+
+  return resultStr;
+}
+
+// The parts of an execute_query result a summary mentions
+interface SummarizedQueryData {
+  productVariants?: Connection<{ sku?: string | null; price?: string; product?: { title?: string } | null }>;
+  shop?: { name?: string; email?: string; myshopifyDomain?: string };
 }
 
 /**
- * Process user message through OpenAI
- * Handles both new operations and continuations of existing operations
- */
-/**
- * Process a user message using the OpenAI Responses API
+ * Build a plain-language reply from tool results when the model returned no text
  */
-async function processUserMessageWithResponses(
-  userInput: string,
-  chatHistory: any[] = []
-) {
-  try {
-    if (!openai) {
-      throw new Error("OpenAI client not initialized. Check your API key.");
-    }
+function summarizeToolCalls(toolCalls: AgentToolCall[]): string {
+  if (toolCalls.length === 0) {
+    return "I processed your request, but couldn't find any relevant information.";
+  }
 
-    // Prepare conversation history
-    const recentMessages = chatHistory
-      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-      .slice(-10);
-
-    // Create input array for the Responses API
-    const input = [
-      {
-        role: "user",
-        content: [
-          {
-            type: "input_text",
-            text: userInput
+  let summary = "I found the following information from the Shopify API:\n\n";
+
+  for (const call of toolCalls) {
+    const result = call.result || {};
+
+    if (call.function.name === 'execute_query' && result.data) {
+      summary += `I ran a query to find ${getFriendlyQueryDescription(call.function.arguments)}.\n`;
+      const data = result.data as SummarizedQueryData;
+
+      if (data.productVariants) {
+        const edges = data.productVariants.edges || [];
+        if (edges.length > 0) {
+          const variant = edges[0].node;
+          summary += `Found variant: ${variant.sku || 'Unknown SKU'}, Price: ${variant.price || 'Unknown'}\n`;
+          if (variant.product) {
+            summary += `Product: ${variant.product.title || 'Unknown title'}\n`;
           }
-        ]
+        } else {
+          summary += "No variants found matching your criteria.\n";
+        }
+      } else if (data.shop) {
+        const shop = data.shop;
+        summary += `Shop Name: ${shop.name || 'Unknown'}\n`;
+        if (shop.email) summary += `Email: ${shop.email}\n`;
+        if (shop.myshopifyDomain) summary += `Domain: ${shop.myshopifyDomain}\n`;
       }
-    ];
-
-    // Add conversation history to input if available
-    if (recentMessages.length > 0) {
-      // Convert previous messages to Responses API format
-      for (const msg of recentMessages) {
-        const convertedMsg = {
-          role: msg.role,
-          content: [
-            {
-              type: msg.role === "user" ? "input_text" : "output_text",
-              text: msg.content
-            }
-          ]
-        };
-        input.unshift(convertedMsg);
+    } else if (result.status === 'started') {
+      summary += `I started bulk operation ${result.bulkOperationId}. I'll let you know here when it finishes.\n`;
+    } else if (call.function.name === 'start_bulk_mutation' && result.status === 'pending_approval') {
+      summary += "I prepared a bulk update. It is waiting for your approval before anything is changed.\n";
+    } else if (call.function.name === 'execute_mutation' && result.status === 'pending_approval') {
+      // For parked mutations, make it clear nothing has changed yet
+      summary += `I prepared a change to ${getFriendlyMutationDescription(call.function.arguments)}.\n`;
+      summary += "It is waiting for your approval before anything is changed.\n";
+    } else if (call.function.name === 'execute_mutation' && result.data) {
+      summary += `I made changes to ${getFriendlyMutationDescription(call.function.arguments)}.\n`;
+      summary += "The update was successful.\n";
+    } else if (result.userErrors?.length) {
+      summary += `Shopify didn't accept the change, so nothing was updated: ${formatUserErrors(result.userErrors)}\n`;
+    } else if (result.error) {
+      summary += `I encountered an issue with the Shopify API: ${result.error}\n`;
+
+      // Suggest what to do next
+      if (result.error.includes("not found")) {
+        summary += "This item might not exist in your Shopify store.\n";
+      } else if (result.error.includes("access") || result.error.includes("permission")) {
+        summary += "I don't have permission to access this information.\n";
+      } else {
+        summary += "You might want to try a more specific request or check the data you provided.\n";
       }
     }
+  }
 
-    // Define the system message
-    const systemMessage = prepareSystemMessage();
+  return summary;
+}
 
-    // Define our tools for the Responses API
-    const responsesTools = [
-      {
-        type: "function",
-        name: "execute_query",
-        function: {
-          name: "execute_query",
-          description: "Execute a GraphQL query against the Shopify Admin API to retrieve data.",
-          parameters: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description: "The GraphQL query to execute. Must be a valid GraphQL query string."
-              },
-              variables: {
-                type: "object",
-                description: "Variables to use in the GraphQL query. Should match the variables referenced in the query."
-              }
-            },
-            required: ["query"]
-          }
-        }
-      },
-      {
-        type: "function",
-        name: "execute_mutation",
-        function: {
-          name: "execute_mutation",
-          description: "Execute a GraphQL mutation against the Shopify Admin API to modify data.",
-          parameters: {
-            type: "object",
-            properties: {
-              mutation: {
-                type: "string",
-                description: "The GraphQL mutation to execute. Must be a valid GraphQL mutation string."
-              },
-              variables: {
-                type: "object",
-                description: "Variables to use in the GraphQL mutation. Should match the variables referenced in the mutation."
-              }
-            },
-            required: ["mutation"]
-          }
-        }
-      },
-      {
-        type: "function",
-        name: "introspect_schema",
-        function: {
-          name: "introspect_schema",
-          description: "Introspect the Shopify GraphQL schema to get information about available types, fields, and operations.",
-          parameters: {
-            type: "object",
-            properties: {
-              type: {
-                type: "string",
-                description: "Optional. The name of a specific type to look up (e.g., 'Product', 'Order'). If omitted, returns all root query and mutation fields."
-              },
-              field: {
-                type: "string",
-                description: "Optional. The name of a specific field to look up on the specified type. Only used if 'type' is also provided."
-              }
-            }
-          }
-        }
-      },
+/**
+ * What a step of a round's operation gave back, for the model and the debug trace
+ */
+function getStepOutcome(step: OperationStep | undefined): StepResult {
+  if (!step) {
+    return { error: "The call was not run" };
+  }
+  if (step.status === 'completed' || step.status === 'failed') {
+    return step.result ?? { error: step.error };
+  }
+  // Waiting for Shopify's rate limit, a retry, or a step it depends on
+  return {
+    error: step.error || "Not run yet; it will run when the operation continues with the next message",
+    paused: true
+  };
+}
 
-    ];
+/**
+ * Process a user message with the agent loop
+ * The tool calls of each model turn become an operation plan that the
+ * operation executor runs (with its permission checks, approvals and retries);
+ * the results go back to the model until it answers without calling a tool or
+ * the step/token budget runs out. A plan paused by Shopify's rate limit, or
+ * by a failed query it can retry, is kept as the active operation until the
+ * user continues or cancels it in a message of its own (the Continue and Abort
+ * buttons send one); any other message leaves it as it is. Text and
+ * tool progress are reported to onEvent as they happen.
+ */
+async function runAgent(
+  adapter: LlmAdapter,
+  userInput: string,
+  chatHistory: ChatMessage[],
+  activeOperation: OperationPlan | null,
+  { onEvent, permissions }: { onEvent?: AgentEventHandler; permissions: Permissions }
+): Promise<AgentReply> {
+  const isPaused = activeOperation?.status === 'executing' || activeOperation?.status === 'planning';
 
-    // Add system message as the first message in the input array
-    input.unshift({
-      role: "system",
-      content: [
-        {
-          type: "input_text",
-          text: systemMessage
-        }
-      ]
-    });
+  // Let the user abort an operation that is still running
+  if (activeOperation && CANCEL_OPERATION.test(userInput)) {
+    const abortMessage = {
+      role: "assistant" as const,
+      content: "I've canceled the current operation. Is there something else you'd like help with?"
+    };
+    return {
+      reply: abortMessage.content,
+      messages: [...chatHistory, { role: "user" as const, content: userInput }, abortMessage],
+      operationAborted: true
+    };
+  }
+
+  const operations: OperationPlan[] = [];
+  let pausedOperation: OperationPlan | null = null;
+  // A paused operation the user hasn't continued yet, kept as it is
+  let heldOperation: OperationPlan | null = null;
 
-    // Call the Responses API with web search enabled via tools
-    const response = await openai.responses.create({
-      model: OPENAI_RESPONSES_MODEL,
-      input: input,
-      text: { format: { type: "text" } },
-      tools: responsesTools,
-      stream: false
+  // Continue a paused operation before asking the model; its earlier effects were returned with the message that started it.
+  // Its mutation steps go through approval, since the user may not remember what they were.
+  if (activeOperation && isPaused && CONTINUE_OPERATION.test(userInput)) {
+    activeOperation.pendingMutations = [];
+    activeOperation.changeRecords = [];
+    activeOperation.bulkOperations = [];
+    await executeOperationPlan(activeOperation, permissions, { requireApproval: true });
+    operations.push(activeOperation);
+    pausedOperation = activeOperation.status === 'executing' ? activeOperation : null;
+  } else if (activeOperation && isPaused) {
+    heldOperation = activeOperation;
+  }
+
+  // The system prompt describes the active operation, so the model knows what it did
+  const system = prepareSystemMessage(activeOperation, permissions, userInput);
+  const tools = getShopifyTools(permissions);
+  const items: AgentItem[] = [
+    ...getRecentMessages(chatHistory).map((msg): AgentItem => ({
+      type: "message",
+      role: msg.role,
+      content: stripDebugInfo(msg.content)
+    })),
+    { type: "message", role: "user", content: userInput }
+  ];
+
+  const rounds: AgentRound[] = [];
+  let totalTokens = 0;
+  let stopReason: AgentDebugInfo["stop_reason"] = 'completed';
+  let assistantResponse = "";
+
+  for (let step = 1; ; step++) {
+    // Once the budget is spent, or an operation is waiting for Shopify, ask for a final answer without more tool calls
+    if (pausedOperation) {
+      stopReason = 'operation_paused';
+    } else if (step > AGENT_MAX_STEPS) {
+      stopReason = 'max_steps';
+    } else if (totalTokens >= AGENT_MAX_TOKENS) {
+      stopReason = 'max_tokens';
+    }
+    const budgetExhausted = stopReason !== 'completed';
+
+    const turn = await adapter.createTurn({
+      system,
+      items,
+      tools,
+      toolChoice: budgetExhausted ? "none" : "auto",
+      onTextDelta: onEvent ? (delta) => onEvent({ type: 'text_delta', delta }) : undefined
     });
 
-    // Check if there are any function calls
-    let debugInfo = {
-      response_id: response.id
+    totalTokens += turn.totalTokens;
+
+    const round: AgentRound = {
+      step,
+      response_id: turn.id,
+      total_tokens: turn.totalTokens,
+      tool_calls: []
     };
-    
-    // Log the full response for debugging
-    console.log("Full Response object from OpenAI Responses API:", JSON.stringify(response, null, 2));
-    
-    // Extract the text response from the correct property
-    let assistantResponse = "";
-    
-    // Check all possible locations where the text might be based on API documentation and the actual response
-    if (response.output_text) {
-      // Direct output_text property (seen in actual response)
-      assistantResponse = response.output_text;
-    } else if (response.output && response.output[0] && 
-               response.output[0].content && response.output[0].content[0] &&
-               response.output[0].content[0].text) {
-      // Nested output structure (seen in actual response)
-      assistantResponse = response.output[0].content[0].text;
-    } else if (typeof response.text === 'string') {
-      // Direct text property
-      assistantResponse = response.text;
-    } else if (response.choices && response.choices[0] && response.choices[0].message) {
-      // Chat completions format
-      assistantResponse = response.choices[0].message.content || "";
-    } else {
-      console.error("Could not extract text response from OpenAI API response");
-      assistantResponse = "I'm sorry, I couldn't generate a proper response.";
-    }
-    
-    // Check for function calls in the response - check both context.tool_calls and output for function calls
-    let hasFunctionCalls = false;
-    const functionCallsFromOutput = [];
-    
-    // Check for function calls in the output
-    if (response.output && Array.isArray(response.output)) {
-      for (const item of response.output) {
-        if (item.type === 'function_call') {
-          console.log("Found function call in output:", item);
-          hasFunctionCalls = true;
-          functionCallsFromOutput.push({
-            id: item.call_id || item.id,
-            type: 'function',
-            function: {
-              name: item.name,
-              arguments: item.arguments
-            }
-          });
-        }
-      }
+    rounds.push(round);
+
+    // No more tool calls - the model has its final answer
+    if (turn.toolCalls.length === 0 || budgetExhausted) {
+      assistantResponse = turn.text;
+      break;
     }
-    
-    // Original check for context.tool_calls
-    if (response.context?.tool_calls?.length > 0) {
-      hasFunctionCalls = true;
+
+    items.push({ type: "tool_calls", content: turn.text, calls: turn.toolCalls, native: turn.native });
+
+    for (const call of turn.toolCalls) {
+      console.log(`Processing function call (step ${step}): ${call.name}`);
+      onEvent?.({
+        type: 'tool_call',
+        id: call.id,
+        name: call.name,
+        label: describeToolCall(call.name, call.arguments)
+      });
     }
-    
-    // Combine tool calls from both sources
-    const allToolCalls = [
-      ...(response.context?.tool_calls || []),
-      ...functionCallsFromOutput
-    ];
-    
-    debugInfo = {
-      ...debugInfo,
-      tool_calls: allToolCalls
-    };
-    
-    // Process function calls
-    const functionResults = [];
-    
-    // Process all collected tool calls
-    for (const toolCall of allToolCalls) {
-      // Skip web search calls (they're handled internally by OpenAI)
-      if (toolCall.type === 'web_search') {
-        console.log("Web search call detected - handled by OpenAI");
-        continue;
-      }
-      
-      // For function calls
-      if (toolCall.type === 'function') {
-        const functionName = toolCall.function.name;
-        console.log(`Processing function call: ${functionName}`);
-        
-        // Parse arguments and execute the function - use our safe parser
-        let functionArgs = {};
-        if (toolCall.function.arguments) {
-          functionArgs = safeParseJSON(toolCall.function.arguments);
-          console.log(`Parsed arguments for ${functionName}:`, functionArgs);
-        }
-        
-        // Execute the appropriate function
-        let result;
-        try {
-          if (functionName === 'execute_query') {
-            result = await executeShopifyQuery(functionArgs);
-          } else if (functionName === 'execute_mutation') {
-            result = await executeShopifyMutation(functionArgs);
-          } else if (functionName === 'introspect_schema') {
-            result = await introspectShopifySchema(functionArgs);
-          } else {
-            result = { error: `Unknown function: ${functionName}` };
-          }
-          
-          // Ensure result has a valid format even if functions return unexpected values
-          if (!result) {
-            result = { error: "Function returned no result" };
-          }
-          
-          // Handle errors that might not have the expected structure
-          if (result.error) {
-            // Make sure error is a proper string
-            result.error = typeof result.error === 'string' ? 
-              result.error : 
-              (result.error?.message ? result.error.message : "Unknown error");
-          }
-        } catch (err: any) {
-          // Create a proper error object with a message that's definitely a string
-          const errorMessage = err ? 
-            (typeof err.message === 'string' ? err.message : String(err)) : 
-            "Unknown error occurred";
-          
-          result = { error: errorMessage };
-          console.error(`Error executing ${functionName}:`, errorMessage);
-        }
-        
-        // Final safety check
-        if (!result) result = { error: "Unknown error in function execution" };
-        
-        console.log(`Function result:`, result);
-        
-        // Make sure result is properly formatted as a string, with size limits
-        let resultStr;
-        try {
-          // Special handling for very large results, especially schema introspection
-          if (functionName === 'introspect_schema' && result && typeof result === 'object') {
-            // Create a much more limited version of the schema result
-            const limitedResult = {
-              message: "Schema information (truncated for size limits)",
-              data: {}
-            };
-            
-            // If there's type info, just include essential fields
-            if (result.data?.type) {
-              limitedResult.data.type = {
-                name: result.data.type.name,
-                kind: result.data.type.kind,
-                description: result.data.type.description?.substring(0, 500) // Limit description length
-              };
-              
-              // For fields, just include names and brief info
-              if (result.data.type.fields) {
-                limitedResult.data.type.fields = result.data.type.fields
-                  .slice(0, 20) // Limit to 20 fields
-                  .map((field: any) => ({
-                    name: field.name,
-                    description: field.description?.substring(0, 100) || '',
-                    type: field.type?.name || 'unknown'
-                  }));
-                
-                if (result.data.type.fields.length > 20) {
-                  limitedResult.data.type.note = `Showing 20 of ${result.data.type.fields.length} fields`;
-                }
-              }
-            } else if (result.data?.field) {
-              // For a single field, include essential info only
-              limitedResult.data.field = {
-                name: result.data.field.name,
-                description: result.data.field.description?.substring(0, 300) || '',
-                type: result.data.field.type?.name || 'unknown'
-              };
-            } else if (result.data?.commonTypes) {
-              // For common types list, include as is (already small)
-              limitedResult.data.commonTypes = result.data.commonTypes;
-              limitedResult.data.queryExample = result.data.queryExample;
-              limitedResult.data.mutationExample = result.data.mutationExample;
-            }
-            
-            resultStr = JSON.stringify(limitedResult);
-          } else if (typeof result === 'string') {
-            // If result is already a string, don't stringify it again
-            resultStr = result;
-          } else if (result === undefined || result === null) {
-            resultStr = JSON.stringify({ message: "No result returned" });
-          } else if (result.error) {
-            // Always ensure error is a clean string
-            const errorMsg = typeof result.error === 'string' ? 
-              result.error : 
-              "Unknown error occurred";
-            resultStr = JSON.stringify({ error: errorMsg });
-          } else {
-            // Normal result - stringify it
-            resultStr = JSON.stringify(result);
-          }
-          
-          // Final size check - if still too large, truncate drastically
-          if (resultStr.length > 50000) { // Well below the 256000 limit
-            console.warn(`Result for ${functionName} is too large (${resultStr.length} chars), truncating`);
-            const truncated = {
-              warning: "Result was too large and has been truncated",
-              original_size: resultStr.length,
-              summary: "Please request more specific information to avoid size limits"
-            };
-            
-            // Add a small sample of the original data
-            if (result.data) {
-              truncated.sample = "Data sample (truncated): " + JSON.stringify(result.data).substring(0, 1000);
-            }
-            
-            resultStr = JSON.stringify(truncated);
-          }
-        } catch (e) {
-          console.error("Error stringifying result:", e);
-          resultStr = JSON.stringify({ error: "Could not format result" });
-        }
-        
-        functionResults.push({
-          tool_call_id: toolCall.id,
-          function: {
-            name: functionName,
-            arguments: toolCall.function.arguments
-          },
-          result: resultStr
-        });
-        
-        // Add debug info to tool call
-        toolCall.result = result;
-      }
+
+    // Arguments that don't parse or don't match the tool's parameters become failed steps the model can fix
+    const plan = createOperationPlan(
+      turn.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      })),
+      userInput,
+      tools
+    );
+    await executeOperationPlan(plan, permissions);
+    operations.push(plan);
+    round.operation_id = plan.id;
+    if (plan.status === 'executing') {
+      pausedOperation = plan;
     }
-    
-    // If we have function results, call OpenAI again with the results
-    if (hasFunctionCalls && functionResults.length > 0) {
-        // Construct a new input with function results
-        const updatedInput = [...input];
-        
-        // Add the AI's original response if there's text
-        if (assistantResponse && assistantResponse.trim() !== '') {
-          updatedInput.push({
-            role: "assistant",
-            content: [
-              {
-                type: "output_text",
-                text: assistantResponse
-              }
-            ]
-          });
-        }
-        
-        // Add assistant message with function calls - using proper Responses API format
-        updatedInput.push({
-          role: "assistant",
-          content: [{ type: "output_text", text: "" }]
-          // Remove the tool_calls parameter since it's not supported in this format
-        });
-        
-        // Format all results into a single message, since 'tool' role isn't supported
-        let allResultsText = "Function call results:\n\n";
-        const MAX_RESULT_TEXT_LENGTH = 100000; // Ensure we stay well under OpenAI's limits
-        
-        for (const fr of functionResults) {
-          // Format the result as a clean, readable string
-          let resultText;
-          try {
-            if (typeof fr.result === 'string') {
-              // Try to parse and re-stringify for better formatting
-              const parsed = JSON.parse(fr.result);
-              resultText = JSON.stringify(parsed, null, 2);
-            } else {
-              // Clean up the result for better display
-              const cleanedResult = {};
-              // Extract only the useful parts of the result
-              if (fr.result && fr.result.data) {
-                cleanedResult.data = fr.result.data;
-                // Include errors if present
-                if (fr.result.error) {
-                  cleanedResult.error = fr.result.error;
-                }
-              } else {
-                // Use the whole result if no data field
-                Object.assign(cleanedResult, fr.result || {});
-              }
-              resultText = JSON.stringify(cleanedResult, null, 2);
-            }
-          } catch (e) {
-            console.error("Error formatting result:", e);
-            resultText = `Error formatting result: ${e.message}`;
-          }
-          
-          // Add to the combined results text, with special handling for introspect_schema
-          allResultsText += `Function: ${fr.function.name}\n`;
-          allResultsText += `Arguments: ${fr.function.arguments}\n`;
-          
-          // For introspect_schema, we need to drastically limit the size to avoid context limits
-          if (fr.function.name === 'introspect_schema') {
-            // Extract just what we need from the schema in a very limited form
-            let truncatedResult;
-            try {
-              const parsed = typeof fr.result === 'string' ? JSON.parse(fr.result) : fr.result;
-              
-              if (parsed && parsed.data) {
-                const limitedResult = { message: "Schema information (abbreviated)" };
-                
-                // Check if there's a specific type being queried
-                const args = JSON.parse(fr.function.arguments || '{}');
-                
-                if (args.type) {
-                  // If querying a specific type, include minimal info
-                  limitedResult.type = args.type;
-                  
-                  // Include just a few fields with minimal info
-                  if (parsed.data.type && parsed.data.type.fields) {
-                    // Only include field names, no descriptions or types
-                    limitedResult.fields = parsed.data.type.fields
-                      .slice(0, 10) // Severely limit the number of fields
-                      .map((f: any) => f.name);
-                    
-                    if (parsed.data.type.fields.length > 10) {
-                      limitedResult.note = `+${parsed.data.type.fields.length - 10} more fields`;
-                    }
-                  }
-                  
-                  // For a specific field, just include its name
-                  if (args.field && parsed.data.field) {
-                    limitedResult.field = args.field;
-                  }
-                } else {
-                  // For general schema info, just list available common types
-                  if (parsed.data.commonTypes) {
-                    limitedResult.commonTypes = parsed.data.commonTypes.map((t: any) => t.name);
-                  } else {
-                    limitedResult.hint = "Try querying a specific type for details";
-                    limitedResult.example = "introspect_schema({ type: 'Product' })";
-                  }
-                }
-                
-                truncatedResult = JSON.stringify(limitedResult);
-              } else {
-                truncatedResult = "Error: Could not parse schema result";
-              }
-            } catch (e) {
-              console.error("Error processing schema result:", e);
-              truncatedResult = "Error truncating schema result: " + e.message;
-            }
-            
-            // Check if we would exceed max size
-            const newContent = `Result (abbreviated):\n${truncatedResult}\n\n`;
-            if (allResultsText.length + newContent.length > MAX_RESULT_TEXT_LENGTH) {
-              allResultsText += "\n[Schema result omitted due to size constraints]";
-            } else {
-              allResultsText += newContent;
-            }
-          } else {
-            // For regular function calls, check size before adding
-            const newContent = `Result:\n${resultText}\n\n`;
-            if (allResultsText.length + newContent.length > MAX_RESULT_TEXT_LENGTH) {
-              allResultsText += "\n[Additional results truncated due to size limits]";
-              break; // Stop processing more results
-            } else {
-              allResultsText += newContent;
-            }
-          }
-        }
-        
-        // Add the combined results as a user message
-        updatedInput.push({
-          role: "user",
-          content: [{ 
-            type: "input_text", 
-            text: allResultsText
-          }]
-        });
-        
-        // Add system message to the updated input
-        updatedInput.unshift({
-          role: "system",
-          content: [
-            {
-              type: "input_text",
-              text: systemMessage
-            }
-          ]
-        });
-
-        // Get the final response
-        const finalResponse = await openai.responses.create({
-          model: OPENAI_RESPONSES_MODEL,
-          input: updatedInput,
-          text: { format: { type: "text" } },
-          tools: responsesTools,
-          stream: false
-        });
-        
-        // Log the full final response for debugging
-        console.log("Full Final Response object from OpenAI Responses API:", JSON.stringify(finalResponse, null, 2));
-        
-        // Extract the text response from the correct property
-        try {
-          console.log("Trying to extract response text from final response...");
-          
-          if (finalResponse.output_text && typeof finalResponse.output_text === 'string') {
-            // Direct output_text property
-            assistantResponse = finalResponse.output_text;
-            console.log("Found response in output_text property");
-          } else if (finalResponse.output && Array.isArray(finalResponse.output)) {
-            // Try to find a message in the output array
-            for (const item of finalResponse.output) {
-              if (item.type === 'message' && item.content && Array.isArray(item.content)) {
-                for (const content of item.content) {
-                  if (content.type === 'output_text' && typeof content.text === 'string') {
-                    assistantResponse = content.text;
-                    console.log("Found response in output[].content[].text");
-                    break;
-                  }
-                }
-              }
-            }
-          } else if (typeof finalResponse.text === 'string') {
-            // Direct text property
-            assistantResponse = finalResponse.text;
-            console.log("Found response in text property");
-          } else if (finalResponse.choices && finalResponse.choices[0]) {
-            // Chat completions format
-            const message = finalResponse.choices[0].message;
-            if (message && typeof message.content === 'string') {
-              assistantResponse = message.content;
-              console.log("Found response in choices[0].message.content");
-            }
-          }
-          
-          // If we didn't find anything, construct a response based on the function results
-          if (!assistantResponse || assistantResponse.trim() === '') {
-            // Check if all function calls are completed or in progress
-            const completedCalls = finalResponse.output?.filter(item => 
-              item.type === 'function_call' && item.status === 'completed'
-            ) || [];
-            
-            const inProgressCalls = finalResponse.output?.filter(item => 
-              item.type === 'function_call' && item.status === 'in_progress'
-            ) || [];
-            
-            // If there are completed calls but no response, create one
-            if (completedCalls.length > 0 && inProgressCalls.length === 0) {
-              // All calls are completed but no response was generated
-              assistantResponse = "I've completed your request. ";
-              
-              // Mention what was looked up
-              const queries = completedCalls
-                .filter(call => call.name === 'execute_query')
-                .map(call => getFriendlyQueryDescription(call.arguments));
-              
-              const mutations = completedCalls
-                .filter(call => call.name === 'execute_mutation')
-                .map(call => getFriendlyMutationDescription(call.arguments));
-              
-              if (queries.length > 0) {
-                assistantResponse += `I looked up ${queries.join(", ")}. `;
-              }
-              
-              if (mutations.length > 0) {
-                assistantResponse += `I updated ${mutations.join(", ")}. `;
-              }
-              
-              assistantResponse += "The operation was successful.";
-            } else if (inProgressCalls.length > 0) {
-              // There are in-progress calls - let's mention what we're working on
-              assistantResponse = "I'm currently working on your request. ";
-              
-              // Mention what we're looking up
-              const queries = inProgressCalls
-                .filter(call => call.name === 'execute_query')
-                .map(call => getFriendlyQueryDescription(call.arguments));
-              
-              const mutations = inProgressCalls
-                .filter(call => call.name === 'execute_mutation')
-                .map(call => getFriendlyMutationDescription(call.arguments));
-              
-              if (queries.length > 0) {
-                assistantResponse += `I'm looking up ${queries.join(", ")}. `;
-              }
-              
-              if (mutations.length > 0) {
-                assistantResponse += `I'm updating ${mutations.join(", ")}. `;
-              }
-              
-              assistantResponse += "Please wait a moment while I work on this.";
-            } else if (functionResults.length > 0) {
-              // Generate a simple response that summarizes what was done
-              assistantResponse = "I found the following information from the Shopify API:\n\n";
-              
-              for (const fr of functionResults) {
-                try {
-                  const resultObj = JSON.parse(fr.result);
-                  
-                  if (fr.function.name === 'execute_query' && resultObj.data) {
-                    // For queries, mention what was queried and the result
-                    assistantResponse += `I ran a query to find ${getFriendlyQueryDescription(fr.function.arguments)}.\n`;
-                    
-                    // Add details from the data if available
-                    if (resultObj.data.productVariants) {
-                      if (resultObj.data.productVariants.edges && resultObj.data.productVariants.edges.length > 0) {
-                        const variant = resultObj.data.productVariants.edges[0].node;
-                        assistantResponse += `Found variant: ${variant.sku || 'Unknown SKU'}, Price: ${variant.price || 'Unknown'}\n`;
-                        if (variant.product) {
-                          assistantResponse += `Product: ${variant.product.title || 'Unknown title'}\n`;
-                        }
-                      } else {
-                        assistantResponse += "No variants found matching your criteria.\n";
-                      }
-                    } else if (resultObj.data.shop) {
-                      const shop = resultObj.data.shop;
-                      assistantResponse += `Shop Name: ${shop.name || 'Unknown'}\n`;
-                      if (shop.email) assistantResponse += `Email: ${shop.email}\n`;
-                      if (shop.myshopifyDomain) assistantResponse += `Domain: ${shop.myshopifyDomain}\n`;
-                    }
-                  } else if (fr.function.name === 'execute_mutation' && resultObj.data) {
-                    // For mutations, mention what was updated
-                    assistantResponse += `I made changes to ${getFriendlyMutationDescription(fr.function.arguments)}.\n`;
-                    assistantResponse += "The update was successful.\n";
-                  } else if (resultObj.error) {
-                    // Handle errors - provide a user-friendly message
-                    assistantResponse += `I encountered an issue with the Shopify API: ${resultObj.error}\n`;
-                    
-                    // Suggest what to do next
-                    if (resultObj.error.includes("not found")) {
-                      assistantResponse += "This item might not exist in your Shopify store.\n";
-                    } else if (resultObj.error.includes("access") || resultObj.error.includes("permission")) {
-                      assistantResponse += "I don't have permission to access this information.\n";
-                    } else {
-                      assistantResponse += "You might want to try a more specific request or check the data you provided.\n";
-                    }
-                  }
-                } catch (e) {
-                  console.error("Error parsing function result for response:", e);
-                }
-              }
-            } else {
-              // No function results and no response
-              assistantResponse = "I processed your request, but couldn't find any relevant information.";
-            }
-            
-            console.log("Generated response from function results:", assistantResponse);
-          }
-        } catch (e) {
-          console.error("Error extracting response text:", e);
-          assistantResponse = "I'm sorry, I couldn't generate a proper response due to a technical issue.";
-        }
-        
-        // Make sure we have a response
-        if (!assistantResponse || assistantResponse.trim() === '') {
-          assistantResponse = "I'm sorry, I couldn't generate a proper response.";
-        }
-        debugInfo = {
-          ...debugInfo,
-          final_response_id: finalResponse.id,
-          function_results: functionResults
-        };
-      }
-    
-    // Make sure we actually have a response to show
-    if (!assistantResponse || assistantResponse.trim() === '') {
-      assistantResponse = "I apologize, but I couldn't generate a proper response. Please try again.";
+
+    for (const call of turn.toolCalls) {
+      const result = getStepOutcome(plan.steps.find((candidate) => candidate.id === call.id));
+      onEvent?.(describeToolResult(call, result));
+
+      items.push({ type: "tool_result", callId: call.id, output: formatToolResult(call.name, result) });
+
+      round.tool_calls.push({
+        id: call.id,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: call.arguments
+        },
+        result
+      });
     }
-    
-    // Add a debug note for development
-    console.log("FINAL RESPONSE TO USER:", assistantResponse);
-    
-    // Store the response in chat history
-    const assistantMessage = {
-      role: "assistant",
-      content: assistantResponse + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>"
-    };
-    
-    const updatedMessages = [
-      ...chatHistory,
-      { role: "user", content: userInput },
-      assistantMessage
-    ];
+  }
 
-    return {
-      reply: assistantResponse,
-      messages: updatedMessages,
-      debug: debugInfo
-    };
-  } catch (error: any) {
-    console.error("Error processing message with Responses API:", error);
-    return {
-      reply: `Error processing your request: ${error.message}`,
-      messages: [...chatHistory, { role: "user", content: userInput }]
-    };
+  const allToolCalls = rounds.flatMap(round => round.tool_calls);
+
+  // If the model didn't produce any text, summarize what the tools returned
+  if (!assistantResponse || assistantResponse.trim() === '') {
+    assistantResponse = summarizeToolCalls(allToolCalls);
+  }
+
+  if (stopReason === 'operation_paused') {
+    assistantResponse += pausedOperation?.steps.some((step) => step.rateLimited)
+      ? "\n\n(Shopify is rate limiting requests, so I paused the operation. Say continue to run the remaining steps, or cancel to stop it.)"
+      : "\n\n(A step failed, so I paused the operation. Say continue to try it again, or cancel to stop it.)";
+  } else if (heldOperation) {
+    assistantResponse += "\n\n(An earlier operation is still paused. Say continue to run its remaining steps, or cancel to stop it.)";
+  } else if (stopReason !== 'completed') {
+    assistantResponse += stopReason === 'max_steps'
+      ? `\n\n(I stopped after ${AGENT_MAX_STEPS} rounds of tool calls. Ask me to continue if there is more to do.)`
+      : `\n\n(I stopped after using ${totalTokens} tokens. Ask me to continue if there is more to do.)`;
   }
+
+  const debugInfo: AgentDebugInfo = {
+    provider: adapter.provider,
+    api: adapter.api,
+    model: adapter.model,
+    response_id: rounds[rounds.length - 1]?.response_id,
+    stop_reason: stopReason,
+    total_tokens: totalTokens,
+    rounds,
+    tool_calls: allToolCalls,
+    operations: operations.map(getOperationDebugInfo)
+  };
+
+  // Deprecation warnings from every tool call, shown under the reply
+  const deprecations = Array.from(new Set(allToolCalls.flatMap(call => call.result?.deprecations || [])));
+
+  // Refused mutations from the resumed operation and from this message's tool calls
+  const mutationErrors = [
+    ...(operations[0] === activeOperation && activeOperation ? getPlanMutationFailures(activeOperation) || [] : []),
+    ...(getMutationFailures(allToolCalls.map(call => ({ tool: call.function.name, result: call.result }))) || [])
+  ];
+
+  // Store the response in chat history
+  const assistantMessage: ChatMessage = {
+    role: "assistant",
+    content: assistantResponse + "\n\n<debug-info hidden>" + JSON.stringify(debugInfo) + "</debug-info>",
+    deprecations: deprecations.length > 0 ? deprecations : undefined,
+    mutationErrors: mutationErrors.length > 0 ? mutationErrors : undefined
+  };
+
+  const updatedMessages: ChatMessage[] = [
+    ...chatHistory,
+    { role: "user", content: userInput },
+    assistantMessage
+  ];
+
+  return {
+    reply: assistantResponse,
+    messages: updatedMessages,
+    operation: pausedOperation || heldOperation,
+    pendingMutations: operations.flatMap(plan => plan.pendingMutations || []),
+    changeRecords: operations.flatMap(plan => plan.changeRecords || []),
+    bulkOperations: operations.flatMap(plan => plan.bulkOperations || []),
+    debug: debugInfo
+  };
+}
+
+// Options for processing a message
+export interface ProcessMessageOptions {
+  // What the user may do; defaults to the permissions of the default role
+  permissions?: Permissions;
+  // Receives streamed text and tool progress
+  onEvent?: AgentEventHandler;
+  // The store every tool call goes to; defaults to the first configured store
+  store?: ShopifyStore | null;
 }
 
 /**
- * Main message processing function - chooses between Responses API and Chat Completions API
+ * Main message processing function - runs the agent loop on the configured model provider
  */
 export async function processUserMessage(
   userInput: string, 
-  chatHistory: any[] = [], 
-  activeOperation: OperationPlan | null = null
-) {
-  try {
-    // If using Responses API, bypass the operation system
-    if (USE_RESPONSES_API) {
-      return await processUserMessageWithResponses(userInput, chatHistory);
-    }
-    
-    // Otherwise use Chat Completions API with operation system
-    // Handle continuation of active operation
-    if (activeOperation) {
-      return await continueOperation(activeOperation, userInput, chatHistory);
+  chatHistory: ChatMessage[] = [], 
+  activeOperation: OperationPlan | null = null,
+  { onEvent, permissions = getPermissions(getDefaultRole()), store = null }: ProcessMessageOptions = {}
+): Promise<AgentReply> {
+  return runWithStore(store, async () => {
+    try {
+      return await runAgent(createProviderAdapter(), userInput, chatHistory, activeOperation, { onEvent, permissions });
+    } catch (error: unknown) {
+      console.error("Error processing message:", error);
+      return { 
+        reply: `Error processing your request: ${error instanceof Error ? error.message : String(error)}`,
+        messages: [...chatHistory, { role: "user", content: userInput }],
+        operation: null
+      };
     }
-    
-    // Otherwise start a new operation
-    return await startNewOperation(userInput, chatHistory);
-  } catch (error: any) {
-    console.error("Error processing message:", error);
-    return { 
-      reply: `Error processing your request: ${error.message}`,
-      messages: [...chatHistory, { role: "user", content: userInput }],
-      operation: null
-    };
-  }
-}
\ No newline at end of file
+  });
+}
@@ -1,5 +1,42 @@
 import { v4 as uuidv4 } from 'uuid';
-import { executeShopifyQuery, executeShopifyMutation, introspectShopifySchema } from './shopify.server';
+import { executeShopifyQuery, type ShopifyGraphQLResponse } from './shopify.server';
+import { introspectShopifySchema } from './shopify-schema.server';
+import { getDeprecationWarnings, validateToolCall } from './graphql-validation.server';
+import { checkToolPermission, type Permissions } from './permissions.server';
+import { executeTrackedMutation, type ChangeRecord } from './change-history.server';
+import {
+  checkBulkOperation,
+  startBulkMutation,
+  startBulkQuery,
+  type BulkOperationRecord
+} from './bulk-operations.server';
+import {
+  createPendingBulkMutation,
+  createPendingMutation,
+  getPendingMutationToolResult,
+  isMutationApprovalRequired,
+  type PendingMutation
+} from './mutation-approval.server';
+import { getTypedTool, isTypedMutationTool, runTypedTool } from './tool-registry.server';
+import type { ShopifyUserError } from './user-errors.server';
+import { readToolCallArguments } from './tool-arguments.server';
+import type { PaginationInfo } from './pagination.server';
+
+// What a tool returned for a step; an error, with what kind of failure it is, or its output
+export interface StepResult {
+  error?: string;
+  invalid?: boolean; // The arguments are wrong and would fail the same way again
+  forbidden?: boolean; // The user's role doesn't allow it
+  retryable?: boolean; // Shopify is rate limiting
+  notSent?: boolean; // Failed before a mutation was sent, so it can run again
+  userErrors?: ShopifyUserError[];
+  data?: unknown;
+  pagination?: PaginationInfo;
+  bulkOperation?: BulkOperationRecord;
+  deprecations?: string[];
+  _graphql?: ShopifyGraphQLResponse['_graphql'];
+  [key: string]: unknown;
+}
 
 // Types for multi-step operations
 export interface OperationStep {
@@ -8,8 +45,11 @@ export interface OperationStep {
   params: any;
   dependsOn?: string[];
   status: 'pending' | 'running' | 'completed' | 'failed';
-  result?: any;
+  result?: StepResult;
   error?: string;
+  userErrors?: ShopifyUserError[]; // Why Shopify refused a mutation step
+  argumentError?: string; // Why the call's arguments couldn't be used
+  rateLimited?: boolean; // Waiting for Shopify's rate limit, to run again with the next message
   retryCount: number;
   maxRetries: number;
 }
@@ -22,19 +62,40 @@ export interface OperationPlan {
   context: Record<string, any>;
   userMessage: string;
   response?: string;
+  pendingMutations?: PendingMutation[];
+  changeRecords?: ChangeRecord[];
+  bulkOperations?: BulkOperationRecord[];
+}
+
+// A tool call the model made, in the Chat Completions shape
+export interface PlanToolCall {
+  id: string;
+  type: string;
+  function: { name: string; arguments?: string | null };
 }
 
 /**
  * Creates a new operation plan from the AI's tool calls
+ * Arguments are checked against the parameters of the offered tools; a call
+ * with unreadable or mismatched arguments becomes a step that fails with the reason.
  */
-export function createOperationPlan(toolCalls: any[], userMessage: string): OperationPlan {
+export function createOperationPlan(
+  toolCalls: PlanToolCall[],
+  userMessage: string,
+  tools: { function: { name: string; parameters?: unknown } }[] = []
+): OperationPlan {
   const steps = toolCalls.map((toolCall) => {
     if (toolCall.type !== 'function') return null;
     
+    // Arguments using {{placeholders}} can only be checked against the parameters once they are filled
+    // in; typed tools check theirs when they run
+    const usesContext = /{{[^}]+}}/.test(toolCall.function.arguments || '');
+    const { args, error } = readToolCallArguments(toolCall.function.name, toolCall.function.arguments, usesContext ? [] : tools);
     return {
       id: toolCall.id,
       toolName: toolCall.function.name,
-      params: JSON.parse(toolCall.function.arguments),
+      params: args,
+      argumentError: error,
       status: 'pending',
       retryCount: 0,
       maxRetries: 3
@@ -54,22 +115,74 @@ export function createOperationPlan(toolCalls: any[], userMessage: string): Oper
 /**
  * Execute an operation step
  */
-async function executeStep(step: OperationStep, context: Record<string, any>): Promise<any> {
+async function executeStep(
+  step: OperationStep,
+  plan: OperationPlan,
+  permissions: Permissions,
+  requireApproval: boolean
+): Promise<StepResult> {
   // Mark step as running
   step.status = 'running';
+  step.rateLimited = undefined;
+  let result: StepResult | undefined;
   
   try {
     // Process context variables in parameters
-    const processedParams = processStepParameters(step.params, context);
+    const processedParams = processStepParameters(step.params, plan.context);
+    
+    // Refuse steps with unusable arguments or that the user's role doesn't allow, then check
+    // GraphQL documents against the schema before anything is sent to Shopify
+    const refused = (step.argumentError ? { error: step.argumentError, invalid: true } : null) ||
+      checkToolPermission(permissions, step.toolName, processedParams) ||
+      await validateToolCall(step.toolName, processedParams);
     
     // Execute the appropriate tool
-    let result;
-    if (step.toolName === 'execute_query') {
+    if (refused) {
+      result = refused;
+    } else if (step.toolName === 'execute_query') {
       result = await executeShopifyQuery(processedParams);
     } else if (step.toolName === 'execute_mutation') {
-      result = await executeShopifyMutation(processedParams);
+      if (requireApproval) {
+        // Park the mutation until the user approves it
+        const pending = createPendingMutation(processedParams, step.id);
+        plan.pendingMutations = [...(plan.pendingMutations || []), pending];
+        result = getPendingMutationToolResult(pending);
+      } else {
+        const tracked = await executeTrackedMutation(processedParams);
+        result = tracked.result;
+        if (tracked.changeRecord) {
+          plan.changeRecords = [...(plan.changeRecords || []), tracked.changeRecord];
+        }
+      }
     } else if (step.toolName === 'introspect_schema') {
       result = await introspectShopifySchema(processedParams);
+    } else if (step.toolName === 'start_bulk_query') {
+      result = await startBulkQuery(processedParams);
+      if (result.bulkOperation) {
+        plan.bulkOperations = [...(plan.bulkOperations || []), result.bulkOperation];
+      }
+    } else if (step.toolName === 'start_bulk_mutation') {
+      if (requireApproval) {
+        const pending = createPendingBulkMutation(processedParams, step.id);
+        plan.pendingMutations = [...(plan.pendingMutations || []), pending];
+        result = getPendingMutationToolResult(pending);
+      } else {
+        result = await startBulkMutation(processedParams);
+        if (result.bulkOperation) {
+          plan.bulkOperations = [...(plan.bulkOperations || []), result.bulkOperation];
+        }
+      }
+    } else if (step.toolName === 'check_bulk_operation') {
+      result = await checkBulkOperation(processedParams);
+    } else if (getTypedTool(step.toolName)) {
+      const outcome = await runTypedTool(step.toolName, processedParams, { callId: step.id, permissions, requireApproval });
+      result = outcome.result;
+      if (outcome.pendingMutation) {
+        plan.pendingMutations = [...(plan.pendingMutations || []), outcome.pendingMutation];
+      }
+      if (outcome.changeRecord) {
+        plan.changeRecords = [...(plan.changeRecords || []), outcome.changeRecord];
+      }
     } else if (step.toolName === 'web_search') {
       // Web search is not available in Chat Completions API
       // But we'll handle it gracefully just in case
@@ -77,7 +190,18 @@ async function executeStep(step: OperationStep, context: Record<string, any>): P
         error: "Web search is not available in the current implementation. Please use introspect_schema instead."
       };
     } else {
-      throw new Error(`Unknown tool: ${step.toolName}`);
+      result = { error: `Unknown tool: ${step.toolName}`, invalid: true };
+    }
+    
+    if (!result) {
+      result = { error: "Tool returned no result" };
+    }
+    
+    // Warn about deprecated fields, and requests Shopify flagged as deprecated,
+    // so the model can move to the replacements and the user sees what will break
+    if (!refused) {
+      const deprecations = [...await getDeprecationWarnings(step.toolName, processedParams), ...(result.deprecations || [])];
+      result.deprecations = deprecations.length > 0 ? Array.from(new Set(deprecations)) : undefined;
     }
     
     // Check for errors in the Shopify response
@@ -90,24 +214,61 @@ async function executeStep(step: OperationStep, context: Record<string, any>): P
     step.result = result;
     
     return result;
-  } catch (error: any) {
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Keep what the tool returned, so the model sees the whole error
+    step.result = result;
+    
+    // An invalid or forbidden step fails the same way every time, so retrying it is pointless,
+    // and so does a mutation Shopify refused: the model has to correct the input
+    if (result?.invalid || result?.forbidden || result?.userErrors?.length) {
+      step.status = 'failed';
+      step.error = message;
+      step.userErrors = result.userErrors;
+      throw error;
+    }
+    
+    // Rate limiting isn't a real failure, so it doesn't use up the step's retries
+    if (result?.retryable) {
+      step.status = 'pending';
+      step.rateLimited = true;
+      step.error = `Shopify is rate limiting requests, will retry: ${message}`;
+      throw error;
+    }
+    
+    // Any other failure of a mutation may have left it applied (a network error or 5xx after
+    // Shopify got it), so it never runs again on its own: the model or the user decides.
+    // A lookup that failed before the mutation was sent is retried like a query.
+    if (isMutationStep(step) && !result?.notSent) {
+      step.status = 'failed';
+      step.error = message;
+      throw error;
+    }
+    
     // Increment retry count
     step.retryCount++;
     
     // If we've exceeded max retries, mark as failed
     if (step.retryCount > step.maxRetries) {
       step.status = 'failed';
-      step.error = error.message;
+      step.error = message;
       throw error;
     }
     
     // Otherwise, mark as pending for retry
     step.status = 'pending';
-    step.error = `Error (retry ${step.retryCount}/${step.maxRetries}): ${error.message}`;
+    step.error = `Error (retry ${step.retryCount}/${step.maxRetries}): ${message}`;
     throw error;
   }
 }
 
+/**
+ * Whether a step changes store data
+ */
+function isMutationStep(step: OperationStep): boolean {
+  return step.toolName === 'execute_mutation' || step.toolName === 'start_bulk_mutation' || isTypedMutationTool(step.toolName);
+}
+
 /**
  * Process step parameters, replacing any context variables
  */
@@ -134,8 +295,8 @@ function getNextExecutableStep(plan: OperationPlan): OperationStep | null {
   for (let i = 0; i < plan.steps.length; i++) {
     const step = plan.steps[i];
     
-    // Skip completed or running steps
-    if (step.status === 'completed' || step.status === 'running') {
+    // Skip finished or running steps
+    if (step.status === 'completed' || step.status === 'failed' || step.status === 'running') {
       continue;
     }
     
@@ -168,8 +329,8 @@ function updateOperationContext(plan: OperationPlan, step: OperationStep): void
   plan.context[step.id] = result;
   
   // If this is a query, store the data directly
-  if (step.toolName === 'execute_query' && result.data) {
-    const data = result.data;
+  if (step.toolName === 'execute_query' && result?.data) {
+    const data = result.data as Record<string, unknown>;
     
     // Iterate through top-level keys in the data
     Object.keys(data).forEach(key => {
@@ -178,8 +339,8 @@ function updateOperationContext(plan: OperationPlan, step: OperationStep): void
   }
   
   // If this is a mutation, store the data directly
-  if (step.toolName === 'execute_mutation' && result.data) {
-    const data = result.data;
+  if (step.toolName === 'execute_mutation' && result?.data) {
+    const data = result.data as Record<string, unknown>;
     
     // Iterate through top-level keys in the data
     Object.keys(data).forEach(key => {
@@ -204,8 +365,18 @@ function hasFailedSteps(plan: OperationPlan): boolean {
 
 /**
  * Execute an operation plan
+ * A step that fails for good doesn't stop the steps that don't depend on it.
+ * A rate limited step, or a query step that failed with retries left, pauses
+ * the plan: it is returned as it is and continues with the next message, so
+ * nothing is re-run before the model and the user have seen the error.
+ * requireApproval parks mutation steps for approval even when the setting
+ * doesn't ask for it, e.g. for steps of a plan the user continues later.
  */
-export async function executeOperationPlan(plan: OperationPlan): Promise<OperationPlan> {
+export async function executeOperationPlan(
+  plan: OperationPlan,
+  permissions: Permissions,
+  { requireApproval = isMutationApprovalRequired() }: { requireApproval?: boolean } = {}
+): Promise<OperationPlan> {
   // Set status to executing
   plan.status = 'executing';
   
@@ -223,19 +394,15 @@ export async function executeOperationPlan(plan: OperationPlan): Promise<Operati
     
     try {
       // Execute the step
-      await executeStep(nextStep, plan.context);
+      await executeStep(nextStep, plan, permissions, requireApproval);
       
       // Update context with step results
       updateOperationContext(plan, nextStep);
-    } catch (error) {
-      // If we've exceeded max retries, mark the plan as failed
-      if (nextStep.status === 'failed') {
-        plan.status = 'failed';
+    } catch {
+      // Give Shopify time before running more steps; a failed step waiting for a retry runs with the next message
+      if (nextStep.status === 'pending') {
         return plan;
       }
-      
-      // Otherwise, we'll retry on the next execution
-      return plan;
     }
   }
   
@@ -0,0 +1,198 @@
+/**
+ * Cursor pagination for execute_query
+ * Follows pageInfo.hasNextPage/endCursor on one connection of a query, merges
+ * the pages into a single result, and summarizes large merged results.
+ */
+import type { ShopifyGraphQLResponse } from "./shopify.server";
+
+// The paginate argument of execute_query
+export interface PaginateOptions {
+  path: string; // Dot-separated path from data to the connection, e.g. "product.variants"
+  maxRecords?: number;
+}
+
+// How a paginated result was put together
+export interface PaginationInfo {
+  path: string;
+  pages: number;
+  records: number;
+  hasNextPage: boolean; // Shopify has more records than were fetched
+  capped: boolean; // Stopped early because of the record or page cap
+  error?: string; // A later page failed; the records before it are kept
+}
+
+// Upper bound on merged records, whatever the model asks for
+export const MAX_PAGINATED_RECORDS = Number(process.env.SHOPIFY_MAX_PAGINATED_RECORDS) || 2500;
+
+// Safety net for connections that keep reporting another page
+const MAX_PAGES = 100;
+
+// A page of a query, or the pages merged
+type GraphQLResult = ShopifyGraphQLResponse & { pagination?: PaginationInfo };
+
+// A connection as the query selected it, through edges or nodes
+interface SelectedConnection {
+  edges?: { node: unknown }[];
+  nodes?: unknown[];
+  pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+}
+
+function getConnection(data: unknown, path: string): SelectedConnection | undefined {
+  const connection = path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+  return connection && typeof connection === "object" ? connection as SelectedConnection : undefined;
+}
+
+function getConnectionRecords(connection: SelectedConnection): unknown[] {
+  if (Array.isArray(connection.edges)) {
+    return connection.edges.map((edge) => edge.node);
+  }
+  return Array.isArray(connection.nodes) ? connection.nodes : [];
+}
+
+function paginationError(message: string, result?: GraphQLResult): GraphQLResult {
+  return { errors: [{ message }], _graphql: result?._graphql };
+}
+
+/**
+ * Run a query once per page and merge the pages of the connection at options.path
+ * The query must declare a $cursor variable, pass it as the connection's `after`
+ * argument and select pageInfo { hasNextPage endCursor } on the connection.
+ */
+export async function paginateQuery(
+  query: string,
+  variables: Record<string, unknown>,
+  options: PaginateOptions,
+  fetchPage: (variables: Record<string, unknown>) => Promise<ShopifyGraphQLResponse>
+): Promise<GraphQLResult> {
+  const { path } = options;
+  const limit = Math.min(options.maxRecords || MAX_PAGINATED_RECORDS, MAX_PAGINATED_RECORDS);
+
+  if (!/\$cursor\b/.test(query)) {
+    return paginationError(
+      "To paginate, the query must declare `$cursor: String` and pass `after: $cursor` to the connection being paginated"
+    );
+  }
+
+  let first: GraphQLResult | null = null;
+  let records: unknown[] = [];
+  let cursor = variables.cursor ?? null;
+  let pageInfo: SelectedConnection["pageInfo"];
+  const pagination: PaginationInfo = { path, pages: 0, records: 0, hasNextPage: false, capped: false };
+
+  for (;;) {
+    const result = await fetchPage({ ...variables, cursor });
+
+    if (result.errors?.length) {
+      // Without a first page there is nothing to merge into
+      if (!first) return result;
+      pagination.error = result.errors[0]?.message || "Error fetching the next page";
+      pagination.hasNextPage = true;
+      break;
+    }
+
+    const connection = getConnection(result.data, path);
+    if (!connection) {
+      return paginationError(`No connection found at "${path}" in the query result`, result);
+    }
+    if (!connection.pageInfo) {
+      return paginationError(
+        `The connection at "${path}" must select pageInfo { hasNextPage endCursor } to paginate`,
+        result
+      );
+    }
+
+    first = first || result;
+    pageInfo = connection.pageInfo;
+    records = records.concat(getConnectionRecords(connection));
+    pagination.pages++;
+    pagination.hasNextPage = Boolean(pageInfo.hasNextPage);
+
+    if (!pageInfo.hasNextPage || !pageInfo.endCursor) break;
+
+    if (records.length >= limit || pagination.pages >= MAX_PAGES) {
+      pagination.capped = true;
+      break;
+    }
+
+    cursor = pageInfo.endCursor;
+  }
+
+  if (records.length > limit) {
+    records = records.slice(0, limit);
+    pagination.capped = true;
+  }
+  pagination.records = records.length;
+
+  // Put the merged records back where the query selected them, in the shape it asked for
+  const data = structuredClone(first!.data);
+  // The first page had the connection, so its copy does too
+  const connection = getConnection(data, path) as SelectedConnection;
+  if (Array.isArray(connection.edges)) {
+    connection.edges = records.map((node) => ({ node }));
+  } else {
+    connection.nodes = records;
+  }
+  connection.pageInfo = pageInfo;
+
+  return {
+    data,
+    pagination,
+    // Every page is the same document, so the first page's deprecation warnings cover them all
+    deprecations: first!.deprecations,
+    _graphql: {
+      query,
+      variables,
+      pages: pagination.pages
+    }
+  };
+}
+
+/**
+ * Shrink a paginated result to fit in maxLength characters for the model
+ * Cursors are dropped and, if needed, only the leading records are kept with
+ * a note saying how many were left out.
+ */
+export function summarizePaginatedResult(
+  result: { data: Record<string, unknown>; pagination: PaginationInfo },
+  maxLength: number
+): string {
+  const { pagination } = result;
+  const data = structuredClone(result.data);
+  const connection = getConnection(data, pagination.path);
+  const records = connection ? getConnectionRecords(connection) : [];
+
+  if (connection) {
+    delete connection.edges;
+    connection.nodes = records;
+  }
+
+  const full = JSON.stringify({ data, pagination });
+  if (full.length <= maxLength || !connection) {
+    return full;
+  }
+
+  // Keep as many whole records as fit, leaving room for the rest of the result
+  const budget = maxLength - (full.length - JSON.stringify(records).length) - 500;
+  const kept: unknown[] = [];
+  let used = 2;
+  for (const record of records) {
+    const size = JSON.stringify(record).length + 1;
+    if (used + size > budget) break;
+    kept.push(record);
+    used += size;
+  }
+
+  connection.nodes = kept;
+  return JSON.stringify({
+    data,
+    pagination: {
+      ...pagination,
+      shown: kept.length,
+      omitted: records.length - kept.length,
+      note: `Only the first ${kept.length} of ${records.length} records fit in this response. Select fewer fields or narrow the query filter to see the rest.`
+    }
+  });
+}
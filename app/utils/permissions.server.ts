@@ -0,0 +1,129 @@
+/**
+ * Roles and what each one may do through the assistant
+ * - viewer: read-only, no mutation tools at all
+ * - editor: mutations limited to an allowlist of mutation root fields
+ * - admin: any mutation
+ */
+import { previewMutation } from "./mutation-preview.server";
+
+export type Role = "viewer" | "editor" | "admin";
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+export interface Permissions {
+  role: Role;
+  // Mutation root fields the role may run; null means any
+  allowedMutations: string[] | null;
+}
+
+// Tools that change data in the store
+const MUTATION_TOOLS = ["execute_mutation", "start_bulk_mutation"];
+
+// Mutations editors may run unless EDITOR_MUTATION_ALLOWLIST says otherwise
+const DEFAULT_EDITOR_MUTATIONS = [
+  "productVariantsBulkUpdate",
+  "productUpdate",
+  "inventoryItemUpdate",
+  "inventoryAdjustQuantities",
+  "inventorySetQuantities",
+  "tagsAdd",
+  "tagsRemove",
+  "metafieldsSet"
+];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Role given to users that have not been assigned one (ASSISTANT_DEFAULT_ROLE, "editor" by default)
+ */
+export function getDefaultRole(): Role {
+  const role = process.env.ASSISTANT_DEFAULT_ROLE;
+  return isRole(role) ? role : "editor";
+}
+
+/**
+ * Mutation root fields editors may run, from the comma-separated EDITOR_MUTATION_ALLOWLIST
+ */
+export function getEditorMutationAllowlist(): string[] {
+  const configured = process.env.EDITOR_MUTATION_ALLOWLIST;
+  if (!configured) return DEFAULT_EDITOR_MUTATIONS;
+  return configured.split(",").map((field) => field.trim()).filter(Boolean);
+}
+
+export function getPermissions(role: Role): Permissions {
+  return {
+    role,
+    allowedMutations: role === "admin" ? null : role === "editor" ? getEditorMutationAllowlist() : []
+  };
+}
+
+/**
+ * Whether a role can change anything at all
+ */
+export function canMutate(permissions: Permissions): boolean {
+  return permissions.allowedMutations === null || permissions.allowedMutations.length > 0;
+}
+
+/**
+ * Whether a tool is offered to the model at all
+ */
+export function isToolAllowed(permissions: Permissions, toolName: string): boolean {
+  return !MUTATION_TOOLS.includes(toolName) || canMutate(permissions);
+}
+
+/**
+ * Check a mutation document against the role's allowlist
+ * Returns why it is refused, or null if it may run.
+ */
+export function checkMutationPermission(permissions: Permissions, mutation: string): string | null {
+  if (permissions.allowedMutations === null) {
+    return null;
+  }
+  if (permissions.allowedMutations.length === 0) {
+    return `The ${permissions.role} role can't change store data.`;
+  }
+
+  const { rootFields } = previewMutation(mutation);
+  const refused = rootFields.filter((field) => !permissions.allowedMutations!.includes(field));
+  if (rootFields.length === 0 || refused.length > 0) {
+    return `The ${permissions.role} role may only run these mutations: ${permissions.allowedMutations.join(", ")}. ` +
+      `Not allowed: ${refused.join(", ") || "(no mutation found)"}.`;
+  }
+
+  return null;
+}
+
+/**
+ * Refuse a tool call the role isn't allowed to make
+ * Returns an error result for the model, or null if the call can go ahead.
+ */
+export function checkToolPermission(permissions: Permissions, toolName: string, args: { mutation?: unknown } | null) {
+  if (!MUTATION_TOOLS.includes(toolName)) {
+    return null;
+  }
+
+  const reason = isToolAllowed(permissions, toolName)
+    ? checkMutationPermission(permissions, String(args?.mutation || ""))
+    : `The ${permissions.role} role can't change store data.`;
+
+  return reason ? { error: `Permission denied: ${reason}`, forbidden: true } : null;
+}
+
+/**
+ * Instructions for the model about what the current user may do
+ */
+export function describePermissions(permissions: Permissions): string {
+  if (permissions.allowedMutations === null) {
+    return "";
+  }
+  if (!canMutate(permissions)) {
+    return `\n\n# PERMISSIONS
+    The current user has the ${permissions.role} role and can only read data. You have no tools that change the store.
+    If they ask for a change, tell them they need an editor or admin to make it.`;
+  }
+  return `\n\n# PERMISSIONS
+    The current user has the ${permissions.role} role. The only mutations you may run are: ${permissions.allowedMutations.join(", ")}.
+    Any other mutation will be refused. If a request needs a different mutation, tell the user it needs an admin.`;
+}
@@ -0,0 +1,307 @@
+/**
+ * Store playbooks: the business rules and procedures of each shop
+ * (price lists, metafields, tag conventions, units) kept as editable documents
+ * instead of being hardcoded in the system prompt. Every edit adds a version,
+ * so earlier procedures can be looked at and restored.
+ *
+ * Only the playbooks relevant to a request are added to the prompt: a playbook
+ * is relevant when the request mentions one of its keywords.
+ */
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase } from "./db.server";
+import { getDefaultStore } from "./stores.server";
+
+export interface Playbook {
+  id: string;
+  // Domain of the shop the playbook belongs to
+  shop: string;
+  title: string;
+  // Words and phrases that make the playbook relevant to a request
+  keywords: string[];
+  content: string;
+  version: number;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+export type PlaybookVersion = Omit<Playbook, "shop">;
+
+export interface PlaybookInput {
+  title: string;
+  keywords: string[] | string;
+  content: string;
+}
+
+// Most playbooks added to one prompt, most relevant first
+const MAX_RELEVANT_PLAYBOOKS = 3;
+
+// The rules that used to be hardcoded in the system prompt, given to the default store the first time playbooks are used
+const SEED_PLAYBOOKS: PlaybookInput[] = [
+  {
+    title: "Price and cost updates",
+    keywords: ["price", "cost", "pricelist", "price list", "US price"],
+    content: `- For updating inventory item costs, use inventoryItemUpdate:
+  mutation {
+    inventoryItemUpdate(id: "gid://shopify/InventoryItem/12345", input: { cost: "50.00" }) {
+      inventoryItem { id unitCost { amount currencyCode } }
+      userErrors { field message }
+    }
+  }
+- For updating variant prices, use productVariantsBulkUpdate (NOT the deprecated productVariantUpdate).
+- For US price updates, use the pricelist ID: "gid://shopify/PriceList/18798805026"`
+  },
+  {
+    title: "Tags and sale end dates",
+    keywords: ["tag", "metafield", "sale", "end date"],
+    content: `- When adding new tags, ALWAYS retrieve existing tags first, combine with new tags, then update
+- For sale end dates, use the metafield: inventory.ShappifySaleEndDate with format: 2023-08-04T03:00:00Z`
+  },
+  {
+    title: "Pre-orders",
+    keywords: ["preorder", "pre-order", "pre order", "shipping date", "ships"],
+    content: `- Set inventory policy to "continue"
+- Add tag "preorder-2-weeks"
+- For specific shipping dates, add tag "shipping-nis-{DATE}" (e.g., "shipping-nis-February-2025")`
+  },
+  {
+    title: "Shipping weight",
+    keywords: ["weight", "shipping weight", "kg", "kilogram", "pound", "lb"],
+    content: `- Update with inventoryItemUpdate using the measurement field, in KILOGRAMS:
+  mutation {
+    inventoryItemUpdate(
+      id: "gid://shopify/InventoryItem/12345",
+      input: { measurement: { weight: { unit: KILOGRAMS, value: 15.0 } } }
+    ) {
+      inventoryItem { id measurement { weight { unit value } } }
+      userErrors { field message }
+    }
+  }`
+  }
+];
+
+interface PlaybookRow {
+  id: string;
+  shop: string;
+  title: string;
+  keywords: string;
+  content: string;
+  version: number;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+// Prepared statements, created with the tables on first use
+let statements: ReturnType<typeof prepareStatements> | null = null;
+
+function prepareStatements() {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS playbooks (
+      id TEXT PRIMARY KEY,
+      shop TEXT NOT NULL,
+      current_version INTEGER NOT NULL,
+      deleted_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS playbooks_shop ON playbooks (shop);
+    CREATE TABLE IF NOT EXISTS playbook_versions (
+      playbook_id TEXT NOT NULL REFERENCES playbooks (id),
+      version INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      keywords TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      created_by TEXT,
+      PRIMARY KEY (playbook_id, version)
+    );
+    CREATE TABLE IF NOT EXISTS playbook_seeds (
+      shop TEXT PRIMARY KEY
+    );
+  `);
+
+  const columns = `p.id, p.shop, v.title, v.keywords, v.content, v.version,
+    v.created_at AS updatedAt, v.created_by AS updatedBy`;
+  return {
+    selectForShop: db.prepare(`
+      SELECT ${columns} FROM playbooks p
+      JOIN playbook_versions v ON v.playbook_id = p.id AND v.version = p.current_version
+      WHERE p.shop = ? AND p.deleted_at IS NULL ORDER BY v.title
+    `),
+    select: db.prepare(`
+      SELECT ${columns} FROM playbooks p
+      JOIN playbook_versions v ON v.playbook_id = p.id AND v.version = p.current_version
+      WHERE p.id = ? AND p.deleted_at IS NULL
+    `),
+    selectVersions: db.prepare(`
+      SELECT p.id, v.title, v.keywords, v.content, v.version, v.created_at AS updatedAt, v.created_by AS updatedBy
+      FROM playbook_versions v JOIN playbooks p ON p.id = v.playbook_id
+      WHERE v.playbook_id = ? ORDER BY v.version DESC
+    `),
+    insertPlaybook: db.prepare("INSERT INTO playbooks (id, shop, current_version) VALUES (?, ?, 1)"),
+    insertVersion: db.prepare(`
+      INSERT INTO playbook_versions (playbook_id, version, title, keywords, content, created_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `),
+    setVersion: db.prepare("UPDATE playbooks SET current_version = ? WHERE id = ?"),
+    delete: db.prepare("UPDATE playbooks SET deleted_at = ? WHERE id = ?"),
+    selectSeed: db.prepare("SELECT shop FROM playbook_seeds WHERE shop = ?"),
+    insertSeed: db.prepare("INSERT INTO playbook_seeds (shop) VALUES (?)")
+  };
+}
+
+function getStatements() {
+  if (!statements) {
+    statements = prepareStatements();
+  }
+  return statements;
+}
+
+function toPlaybook(row: PlaybookRow): Playbook {
+  return { ...row, keywords: row.keywords.split(",").filter(Boolean) };
+}
+
+// Keywords are stored lower-cased and comma-separated
+function normalizeKeywords(keywords: string[] | string): string[] {
+  const list = Array.isArray(keywords) ? keywords : keywords.split(",");
+  return Array.from(new Set(list.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean)));
+}
+
+function validateInput(input: PlaybookInput): string | null {
+  if (!input.title.trim()) return "A playbook needs a title";
+  if (!input.content.trim()) return "A playbook needs some content";
+  if (normalizeKeywords(input.keywords).length === 0) {
+    return "Add at least one keyword, so the playbook can be matched to requests";
+  }
+  return null;
+}
+
+// The default store starts with the rules that used to be in the system prompt
+function seedPlaybooks(shop: string) {
+  const { selectSeed, insertSeed } = getStatements();
+  if (shop !== getDefaultStore()?.domain || selectSeed.get(shop)) {
+    return;
+  }
+
+  getDatabase().transaction(() => {
+    insertSeed.run(shop);
+    for (const playbook of SEED_PLAYBOOKS) {
+      createPlaybook(shop, playbook, null);
+    }
+  })();
+}
+
+/**
+ * The current version of every playbook of a shop
+ */
+export function listPlaybooks(shop: string): Playbook[] {
+  seedPlaybooks(shop);
+  return (getStatements().selectForShop.all(shop) as PlaybookRow[]).map(toPlaybook);
+}
+
+export function getPlaybook(id: string): Playbook | null {
+  const row = getStatements().select.get(id) as PlaybookRow | undefined;
+  return row ? toPlaybook(row) : null;
+}
+
+/**
+ * Every version of a playbook, newest first
+ */
+export function listPlaybookVersions(id: string): PlaybookVersion[] {
+  return (getStatements().selectVersions.all(id) as Omit<PlaybookRow, "shop">[]).map(
+    (row) => ({ ...row, keywords: row.keywords.split(",").filter(Boolean) })
+  );
+}
+
+export function createPlaybook(shop: string, input: PlaybookInput, author: string | null) {
+  const error = validateInput(input);
+  if (error) {
+    return { error };
+  }
+
+  const id = uuidv4();
+  const { insertPlaybook, insertVersion } = getStatements();
+  getDatabase().transaction(() => {
+    insertPlaybook.run(id, shop);
+    insertVersion.run(id, 1, input.title.trim(), normalizeKeywords(input.keywords).join(","),
+      input.content.trim(), new Date().toISOString(), author);
+  })();
+
+  return { playbook: getPlaybook(id)! };
+}
+
+/**
+ * Save a new version of a playbook; earlier versions are kept
+ */
+export function updatePlaybook(id: string, input: PlaybookInput, author: string | null) {
+  const current = getPlaybook(id);
+  if (!current) {
+    return { error: "That playbook no longer exists" };
+  }
+  const error = validateInput(input);
+  if (error) {
+    return { error };
+  }
+
+  const version = current.version + 1;
+  const { insertVersion, setVersion } = getStatements();
+  getDatabase().transaction(() => {
+    insertVersion.run(id, version, input.title.trim(), normalizeKeywords(input.keywords).join(","),
+      input.content.trim(), new Date().toISOString(), author);
+    setVersion.run(version, id);
+  })();
+
+  return { playbook: getPlaybook(id)! };
+}
+
+/**
+ * Bring back an earlier version, saved as a new version so the history stays linear
+ */
+export function restorePlaybookVersion(id: string, version: number, author: string | null) {
+  const previous = listPlaybookVersions(id).find((entry) => entry.version === version);
+  if (!previous) {
+    return { error: `Version ${version} of that playbook doesn't exist` };
+  }
+  return updatePlaybook(id, previous, author);
+}
+
+// Deleted playbooks keep their versions, but are no longer listed or used
+export function deletePlaybook(id: string) {
+  getStatements().delete.run(new Date().toISOString(), id);
+}
+
+// Whether a keyword appears in the text as a word or phrase, so "tag" matches "tags" but not "vintage"
+function mentions(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}`, "i").test(text);
+}
+
+/**
+ * The playbooks of a shop that a request is about, most keyword matches first
+ */
+export function findRelevantPlaybooks(shop: string, request: string): Playbook[] {
+  if (!request.trim()) {
+    return [];
+  }
+
+  return listPlaybooks(shop)
+    .map((playbook) => ({ playbook, score: playbook.keywords.filter((keyword) => mentions(request, keyword)).length }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RELEVANT_PLAYBOOKS)
+    .map(({ playbook }) => playbook);
+}
+
+/**
+ * Playbooks written as a system prompt section
+ */
+export function formatPlaybooks(playbooks: Playbook[]): string {
+  if (playbooks.length === 0) {
+    return "";
+  }
+
+  const sections = playbooks.map((playbook) => `## ${playbook.title}\n${playbook.content}`);
+  return `\n\n# STORE PLAYBOOKS
+    This store's procedures for this request. Follow them over the general examples above.
+
+${sections.join("\n\n")}`;
+}
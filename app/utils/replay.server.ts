@@ -0,0 +1,246 @@
+/**
+ * Recording and replaying the assistant's traffic with the model and Shopify
+ * In a record session, every model API response, Shopify GraphQL exchange and
+ * file transfer (bulk operation uploads and result files) is kept; in a replay
+ * session they are served from the recording instead of the live services, so
+ * a conversation runs the same way offline (see scenarios.server). The model
+ * is recorded at the HTTP level, so a replay goes through the same provider
+ * client and adapters, including prompted tool calls and the fallback to them.
+ * Model responses are served in order; Shopify exchanges are matched by
+ * document and variables, files by method and URL.
+ *
+ * The schema is not part of a recording: in record and replay sessions
+ * pre-flight validation and deprecation checks are off and introspect_schema
+ * reports the schema as unavailable, so a scenario runs the same whatever
+ * schema cache the machine has.
+ *
+ * The session is carried in an AsyncLocalStorage context, like the store and
+ * the audit context, so nothing outside the recorded or replayed work is affected.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LlmProvider } from "./llm-providers.server";
+
+// A response from the model provider's API, in the order they were received
+export interface ModelExchange {
+  status: number;
+  contentType?: string;
+  // The JSON body, or the raw text of anything else (e.g. a stream)
+  body: unknown;
+}
+
+export interface ShopifyExchange {
+  query: string;
+  variables: unknown;
+  status: number;
+  // The X-Shopify-API-Deprecated-Reason header, if Shopify sent one
+  deprecatedReason?: string;
+  body: unknown;
+}
+
+// A file uploaded to or downloaded from outside the GraphQL API
+export interface FileExchange {
+  method: string;
+  url: string;
+  status: number;
+  body: string;
+}
+
+export interface Recording {
+  model: ModelExchange[];
+  shopify: ShopifyExchange[];
+  files?: FileExchange[];
+}
+
+export interface ReplaySession {
+  mode: "record" | "replay";
+  recording: Recording;
+  // The model provider a replay runs on, in place of the configured one
+  provider?: LlmProvider;
+  // Model responses served so far, and the Shopify exchanges and files already used
+  modelResponses: number;
+  usedExchanges: Set<number>;
+  usedFiles: Set<number>;
+  // Every GraphQL document sent during the session, recorded or replayed
+  requests: { query: string; variables: unknown }[];
+  // Requests the recording had no answer for
+  problems: string[];
+}
+
+const replayContext = new AsyncLocalStorage<ReplaySession>();
+
+const INTROSPECTION = /\b__schema\b/;
+
+export function createReplaySession(
+  mode: "record" | "replay",
+  recording: Recording = { model: [], shopify: [], files: [] },
+  provider?: LlmProvider
+): ReplaySession {
+  return {
+    mode,
+    recording,
+    provider,
+    modelResponses: 0,
+    usedExchanges: new Set(),
+    usedFiles: new Set(),
+    requests: [],
+    problems: []
+  };
+}
+
+/**
+ * Run a piece of work with its model, Shopify and file traffic recorded or replayed
+ */
+export function runWithReplay<T>(session: ReplaySession, work: () => Promise<T>): Promise<T> {
+  return replayContext.run(session, work);
+}
+
+export function getReplaySession(): ReplaySession | undefined {
+  return replayContext.getStore();
+}
+
+// Variables compared by value, whatever order their keys were written in
+function sameVariables(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.keys(value).sort().map((key) => [key, normalize((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a ?? {})) === JSON.stringify(normalize(b ?? {}));
+}
+
+const normalizeQuery = (query: string) => query.replace(/\s+/g, " ").trim();
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+// A JSON body as its value, anything else as its text
+function readBody(text: string, contentType: string | null): unknown {
+  if (contentType?.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Kept as text below
+    }
+  }
+  return text;
+}
+
+/**
+ * Send a Shopify GraphQL request, recording or replaying it in a replay session
+ */
+export async function fetchShopifyGraphQL(url: string, init: RequestInit): Promise<Response> {
+  const session = getReplaySession();
+  if (!session) {
+    return fetch(url, init);
+  }
+
+  const { query, variables } = JSON.parse(String(init.body)) as { query: string; variables: unknown };
+  if (INTROSPECTION.test(query)) {
+    return jsonResponse({ errors: [{ message: "Schema introspection isn't recorded or replayed" }] });
+  }
+  session.requests.push({ query, variables });
+
+  if (session.mode === "record") {
+    const response = await fetch(url, init);
+    session.recording.shopify.push({
+      query,
+      variables,
+      status: response.status,
+      deprecatedReason: response.headers.get("X-Shopify-API-Deprecated-Reason") || undefined,
+      body: await response.clone().json().catch(() => null)
+    });
+    return response;
+  }
+
+  const index = session.recording.shopify.findIndex((exchange, candidate) =>
+    !session.usedExchanges.has(candidate) &&
+    normalizeQuery(exchange.query) === normalizeQuery(query) &&
+    sameVariables(exchange.variables, variables)
+  );
+  if (index === -1) {
+    const problem = `No recorded Shopify response for ${normalizeQuery(query).slice(0, 120)} with variables ${JSON.stringify(variables)}`;
+    session.problems.push(problem);
+    return jsonResponse({ errors: [{ message: problem }] });
+  }
+
+  session.usedExchanges.add(index);
+  const exchange = session.recording.shopify[index];
+  return jsonResponse(
+    exchange.body,
+    exchange.status,
+    exchange.deprecatedReason ? { "X-Shopify-API-Deprecated-Reason": exchange.deprecatedReason } : {}
+  );
+}
+
+/**
+ * Upload or download a file, such as a bulk operation's result, recording or replaying it in a replay session
+ */
+export async function fetchFile(url: string, init: RequestInit = {}): Promise<Response> {
+  const session = getReplaySession();
+  if (!session) {
+    return fetch(url, init);
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  if (session.mode === "record") {
+    const response = await fetch(url, init);
+    const files = session.recording.files || (session.recording.files = []);
+    files.push({ method, url, status: response.status, body: await response.clone().text() });
+    return response;
+  }
+
+  const files = session.recording.files || [];
+  const index = files.findIndex((file, candidate) =>
+    !session.usedFiles.has(candidate) && file.method === method && file.url === url
+  );
+  if (index === -1) {
+    const problem = `No recorded file for ${method} ${url}`;
+    session.problems.push(problem);
+    return new Response(problem, { status: 404 });
+  }
+
+  session.usedFiles.add(index);
+  return new Response(files[index].body, { status: files[index].status });
+}
+
+/**
+ * Send a request to the model provider's API, recording or replaying it in a replay session
+ * Used as the fetch of every provider client. Replayed responses are served in
+ * order, whatever was asked, since requests carry IDs generated for each run.
+ */
+export async function fetchModelApi(url: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const session = getReplaySession();
+  if (!session) {
+    return fetch(url, init);
+  }
+
+  if (session.mode === "record") {
+    const response = await fetch(url, init);
+    const contentType = response.headers.get("Content-Type");
+    session.recording.model.push({
+      status: response.status,
+      contentType: contentType || undefined,
+      body: readBody(await response.clone().text(), contentType)
+    });
+    session.modelResponses++;
+    return response;
+  }
+
+  const exchange = session.recording.model[session.modelResponses];
+  if (!exchange) {
+    const problem = `The recording has no model response ${session.modelResponses + 1}`;
+    session.problems.push(problem);
+    // A client error, so the client doesn't retry it
+    return jsonResponse({ error: { message: problem } }, 400);
+  }
+
+  session.modelResponses++;
+  const text = typeof exchange.body === "string" ? exchange.body : JSON.stringify(exchange.body);
+  return new Response(text, {
+    status: exchange.status,
+    headers: { "Content-Type": exchange.contentType || "application/json" }
+  });
+}
@@ -0,0 +1,292 @@
+/**
+ * Scenarios: recorded conversations replayed offline to check the assistant
+ * A scenario is a prompt (with optional earlier messages), the recording of
+ * the model responses, Shopify responses and files it led to, and what is
+ * expected of it: the reply, the operation steps that ran (optionally with
+ * parts of their results) and the mutations that were sent, parked for
+ * approval or approved. Replaying runs the real provider client, agent loop,
+ * executor and tools against the recording, so a change to the prompt, the
+ * tools, the adapters or the executor shows up as an unmet expectation or a
+ * request the recording can't answer.
+ *
+ * Scenarios are JSON files, by default in /scenarios; `npm run scenarios`
+ * replays them and `npm run scenarios -- --record` records a new one live.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { processUserMessage } from "./openai.server";
+import { checkMutationPermission, getPermissions, type Role } from "./permissions.server";
+import { getDefaultStore, runWithStore, type ShopifyStore } from "./stores.server";
+import { isMutationDocument } from "./shopify.server";
+import { previewMutation } from "./mutation-preview.server";
+import { getLlmProvider, type LlmProvider } from "./llm-providers.server";
+import type { OperationStep } from "./operation-executor.server";
+import { approvePendingMutation, type PendingMutation } from "./mutation-approval.server";
+import {
+  createReplaySession,
+  runWithReplay,
+  type Recording,
+  type ReplaySession
+} from "./replay.server";
+
+export const SCENARIOS_DIR = "scenarios";
+
+// A mutation root field the assistant sent to Shopify, or parked for approval
+// and, if the scenario approves it, what became of it
+export interface ScenarioMutation {
+  mutation: string;
+  status: "sent" | "pending_approval" | "executed" | "failed";
+}
+
+export interface ScenarioStep {
+  tool: string;
+  status: OperationStep["status"];
+  // Expected: the parts of the step's result to check; in an outcome: the whole result
+  result?: unknown;
+}
+
+export interface ScenarioExpectations {
+  reply?: string;
+  // Parts the reply must contain, for scenarios whose exact wording doesn't matter
+  replyIncludes?: string[];
+  // Every operation step, in the order they ran
+  operations?: ScenarioStep[];
+  mutations?: ScenarioMutation[];
+}
+
+// The model provider a scenario was recorded with, without its address and key
+export type ScenarioProvider = Pick<LlmProvider, "type" | "model" | "api" | "apiVersion" | "capabilities">;
+
+export interface Scenario {
+  name: string;
+  prompt: string;
+  history?: { role: "user" | "assistant"; content: string }[];
+  role?: Role;
+  // Whether mutations wait for approval, like REQUIRE_MUTATION_APPROVAL (on by default)
+  requireApproval?: boolean;
+  // Approve the mutations left for approval after the reply, as the user would
+  approve?: boolean;
+  // Domain of the store the scenario was recorded on
+  store?: string;
+  provider: ScenarioProvider;
+  recording: Recording;
+  expect: ScenarioExpectations;
+}
+
+// What happened when a scenario ran
+export interface ScenarioOutcome {
+  reply: string;
+  operations: ScenarioStep[];
+  mutations: ScenarioMutation[];
+  // Requests the recording had no answer for
+  problems: string[];
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  outcome: ScenarioOutcome;
+}
+
+type ScenarioInput = Omit<Scenario, "recording" | "expect" | "store" | "provider">;
+
+/**
+ * Send the scenario's prompt through the assistant inside a replay session
+ */
+async function playScenario(scenario: ScenarioInput, session: ReplaySession, store: ShopifyStore): Promise<ScenarioOutcome> {
+  const permissions = getPermissions(scenario.role || "admin");
+  // The approval setting is read on every mutation, so it only applies while the scenario runs
+  const approvalSetting = process.env.REQUIRE_MUTATION_APPROVAL;
+  process.env.REQUIRE_MUTATION_APPROVAL = scenario.requireApproval === false ? "false" : "true";
+
+  let result;
+  let sentRequests = 0;
+  let pendingMutations: PendingMutation[] = [];
+  try {
+    result = await runWithReplay(session, async () => {
+      const reply = await processUserMessage(scenario.prompt, scenario.history || [], null, { permissions, store });
+      sentRequests = session.requests.length;
+      pendingMutations = reply.pendingMutations || [];
+
+      // Approved the way the assistant page does it: checked against the role again, on the same store
+      if (scenario.approve) {
+        for (const pending of pendingMutations) {
+          if (!checkMutationPermission(permissions, pending.mutation)) {
+            await runWithStore(store, () => approvePendingMutation(pending));
+          }
+        }
+      }
+      return reply;
+    });
+  } finally {
+    if (approvalSetting === undefined) {
+      delete process.env.REQUIRE_MUTATION_APPROVAL;
+    } else {
+      process.env.REQUIRE_MUTATION_APPROVAL = approvalSetting;
+    }
+  }
+
+  const operations: ScenarioStep[] = (result.debug?.operations || []).flatMap(
+    (operation: { steps: { toolName: string; status: OperationStep["status"]; result?: unknown }[] }) =>
+      operation.steps.map((step) => ({ tool: step.toolName, status: step.status, result: step.result }))
+  );
+  const sent = session.requests
+    .slice(0, sentRequests)
+    .filter((request) => isMutationDocument(request.query))
+    .flatMap((request) => previewMutation(request.query).rootFields)
+    .map((mutation): ScenarioMutation => ({ mutation, status: "sent" }));
+  const parked = pendingMutations.flatMap((pending) => pending.preview.rootFields.map((mutation): ScenarioMutation => ({
+    mutation,
+    status: pending.status === "executed" || pending.status === "failed" ? pending.status : "pending_approval"
+  })));
+
+  return { reply: result.reply, operations, mutations: [...sent, ...parked], problems: session.problems };
+}
+
+/**
+ * Run a prompt against the live model and the default store, and keep it as a scenario
+ * What happened becomes the expectations; edit them to check less (e.g. replyIncludes
+ * instead of reply) or more (parts of a step's result).
+ */
+export async function recordScenario(scenario: ScenarioInput): Promise<Scenario> {
+  const store = getDefaultStore();
+  if (!store) {
+    throw new Error("No store to record on. Check your .env file.");
+  }
+
+  const { type, model, api, apiVersion, capabilities } = getLlmProvider();
+  const session = createReplaySession("record");
+  const outcome = await playScenario(scenario, session, store);
+  return {
+    ...scenario,
+    store: store.domain,
+    provider: { type, model, api, apiVersion, capabilities },
+    recording: session.recording,
+    expect: {
+      reply: outcome.reply,
+      operations: outcome.operations.map(({ tool, status }) => ({ tool, status })),
+      mutations: outcome.mutations
+    }
+  };
+}
+
+function compare(label: string, expected: unknown, actual: unknown): string[] {
+  const wanted = JSON.stringify(expected);
+  const got = JSON.stringify(actual);
+  return wanted === got ? [] : [`${label}: expected ${wanted}, got ${got}`];
+}
+
+// Whether a value has everything the expected one has; arrays must match item for item
+function containsExpected(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((item, index) => containsExpected(actual[index], item));
+  }
+  if (expected && typeof expected === "object") {
+    return !!actual && typeof actual === "object" &&
+      Object.entries(expected).every(([key, value]) => containsExpected((actual as Record<string, unknown>)[key], value));
+  }
+  return actual === expected;
+}
+
+function compareSteps(expected: ScenarioStep[], actual: ScenarioStep[]): string[] {
+  const names = (steps: ScenarioStep[]) => JSON.stringify(steps.map(({ tool, status }) => ({ tool, status })));
+  if (names(expected) !== names(actual)) {
+    return [`operations: expected ${names(expected)}, got ${names(actual)}`];
+  }
+  return expected.flatMap((step, index) =>
+    step.result === undefined || containsExpected(actual[index].result, step.result)
+      ? []
+      : [`operations: step ${index + 1} (${step.tool}) expected a result with ${JSON.stringify(step.result)}, got ${JSON.stringify(actual[index].result)}`]
+  );
+}
+
+/**
+ * Replay a scenario offline and check its expectations
+ */
+export async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
+  // Stand-ins for the store and the provider it was recorded on; neither is contacted
+  const store: ShopifyStore = {
+    id: "replay",
+    name: "Replay store",
+    domain: scenario.store || "replay-store.myshopify.com",
+    accessToken: "replay"
+  };
+  // A provider of its own, so a switch to prompted tools in one scenario doesn't carry over to the next
+  const provider: LlmProvider = {
+    ...scenario.provider,
+    id: `replay-${uuidv4()}`,
+    baseUrl: "https://replay.invalid/v1",
+    apiKey: "replay"
+  };
+
+  const session = createReplaySession("replay", scenario.recording, provider);
+  const outcome = await playScenario(scenario, session, store);
+  const { expect } = scenario;
+
+  // A request can be retried, so the same missing response can be reported more than once
+  const failures = [...new Set(outcome.problems)];
+  if (expect.reply !== undefined) {
+    failures.push(...compare("reply", expect.reply, outcome.reply));
+  }
+  for (const part of expect.replyIncludes || []) {
+    if (!outcome.reply.includes(part)) {
+      failures.push(`reply: expected it to include ${JSON.stringify(part)}, got ${JSON.stringify(outcome.reply)}`);
+    }
+  }
+  if (expect.operations) {
+    failures.push(...compareSteps(expect.operations, outcome.operations));
+  }
+  if (expect.mutations) {
+    failures.push(...compare("mutations", expect.mutations, outcome.mutations));
+  }
+
+  // Recorded traffic that was never asked for means the assistant now does less than it did
+  const unusedResponses = scenario.recording.model.length - session.modelResponses;
+  if (unusedResponses > 0) {
+    failures.push(`${unusedResponses} recorded model response(s) were not used`);
+  }
+  const unusedExchanges = scenario.recording.shopify.length - session.usedExchanges.size;
+  if (unusedExchanges > 0) {
+    failures.push(`${unusedExchanges} recorded Shopify response(s) were not requested`);
+  }
+  const unusedFiles = (scenario.recording.files || []).length - session.usedFiles.size;
+  if (unusedFiles > 0) {
+    failures.push(`${unusedFiles} recorded file(s) were not requested`);
+  }
+
+  return { name: scenario.name, passed: failures.length === 0, failures, outcome };
+}
+
+/**
+ * The scenario files in a directory, by name
+ */
+export function listScenarioFiles(dir = SCENARIOS_DIR): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+export function loadScenario(file: string): Scenario {
+  const scenario = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!scenario?.prompt || !scenario.provider || !scenario.recording || !scenario.expect) {
+    throw new Error(`${file} is not a scenario: it needs a prompt, a provider, a recording and expectations`);
+  }
+  return { ...scenario, name: scenario.name || path.basename(file, ".json") };
+}
+
+/**
+ * Write a scenario to <dir>/<name>.json and return the path
+ */
+export function saveScenario(scenario: Scenario, dir = SCENARIOS_DIR): string {
+  const file = path.join(dir, `${scenario.name.replace(/[^\w-]+/g, "-")}.json`);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(scenario, null, 2) + "\n");
+  return file;
+}
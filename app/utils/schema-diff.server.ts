@@ -0,0 +1,310 @@
+/**
+ * Admin API version upgrade check
+ * Compares the schemas of two API versions and flags the fields, arguments and
+ * enum values that GraphQL documents we rely on (the examples and playbooks in
+ * the system prompt) use and that are removed, changed or deprecated in the new version.
+ */
+import {
+  buildClientSchema,
+  getNamedType,
+  NoDeprecatedCustomRule,
+  parse,
+  TypeInfo,
+  validate,
+  visit,
+  visitWithTypeInfo,
+  type GraphQLSchema,
+  type IntrospectionQuery
+} from "graphql";
+import {
+  formatTypeRef,
+  getShopifySchema,
+  type IntrospectionInputValue,
+  type IntrospectionSchema,
+  type IntrospectionType
+} from "./shopify-schema.server";
+
+export type SchemaChangeKind =
+  | "type_removed"
+  | "field_removed"
+  | "field_type_changed"
+  | "field_deprecated"
+  | "argument_removed"
+  | "argument_type_changed"
+  | "required_argument_added"
+  | "input_field_removed"
+  | "required_input_field_added"
+  | "enum_value_removed"
+  | "enum_value_deprecated";
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  // Schema coordinate, e.g. Product, Product.title, Query.products(sortKey:) or ProductStatus.ACTIVE
+  coordinate: string;
+  detail: string;
+  // Whether documents using it stop working, rather than just being deprecated
+  breaking: boolean;
+}
+
+// A GraphQL document we depend on, and where it comes from
+export interface ReliedOnDocument {
+  source: string;
+  document: string;
+}
+
+export interface AffectedDocument extends ReliedOnDocument {
+  changes: SchemaChange[];
+  // Problems graphql-js finds validating the document against the new version
+  validationErrors: string[];
+}
+
+function byName<T extends { name: string }>(items: T[] | null | undefined): Map<string, T> {
+  return new Map((items || []).map((item) => [item.name, item]));
+}
+
+// Arguments and input fields change the same way
+function diffInputValues(
+  changes: SchemaChange[],
+  owner: string,
+  from: IntrospectionInputValue[],
+  to: IntrospectionInputValue[],
+  kinds: { removed: SchemaChangeKind; typeChanged: SchemaChangeKind; requiredAdded: SchemaChangeKind },
+  formatCoordinate: (name: string) => string
+) {
+  const toValues = byName(to);
+  const fromValues = byName(from);
+
+  for (const value of from) {
+    const next = toValues.get(value.name);
+    const coordinate = formatCoordinate(value.name);
+    if (!next) {
+      changes.push({ kind: kinds.removed, coordinate, detail: `${coordinate} was removed`, breaking: true });
+    } else if (formatTypeRef(value.type) !== formatTypeRef(next.type)) {
+      changes.push({
+        kind: kinds.typeChanged,
+        coordinate,
+        detail: `${coordinate} changed from ${formatTypeRef(value.type)} to ${formatTypeRef(next.type)}`,
+        breaking: true
+      });
+    }
+  }
+
+  for (const value of to) {
+    if (!fromValues.has(value.name) && value.type.kind === "NON_NULL" && value.defaultValue === null) {
+      const coordinate = formatCoordinate(value.name);
+      changes.push({
+        kind: kinds.requiredAdded,
+        coordinate,
+        detail: `${owner} now requires ${value.name}: ${formatTypeRef(value.type)}`,
+        breaking: true
+      });
+    }
+  }
+}
+
+function diffType(changes: SchemaChange[], from: IntrospectionType, to: IntrospectionType) {
+  const toFields = byName(to.fields);
+  for (const field of from.fields || []) {
+    const coordinate = `${from.name}.${field.name}`;
+    const next = toFields.get(field.name);
+    if (!next) {
+      changes.push({ kind: "field_removed", coordinate, detail: `${coordinate} was removed`, breaking: true });
+      continue;
+    }
+    if (formatTypeRef(field.type) !== formatTypeRef(next.type)) {
+      changes.push({
+        kind: "field_type_changed",
+        coordinate,
+        detail: `${coordinate} changed from ${formatTypeRef(field.type)} to ${formatTypeRef(next.type)}`,
+        breaking: true
+      });
+    }
+    if (!field.isDeprecated && next.isDeprecated) {
+      changes.push({
+        kind: "field_deprecated",
+        coordinate,
+        detail: `${coordinate} is deprecated${next.deprecationReason ? `: ${next.deprecationReason}` : ""}`,
+        breaking: false
+      });
+    }
+    diffInputValues(changes, coordinate, field.args, next.args, {
+      removed: "argument_removed",
+      typeChanged: "argument_type_changed",
+      requiredAdded: "required_argument_added"
+    }, (name) => `${coordinate}(${name}:)`);
+  }
+
+  if (from.inputFields && to.inputFields) {
+    diffInputValues(changes, from.name, from.inputFields, to.inputFields, {
+      removed: "input_field_removed",
+      typeChanged: "field_type_changed",
+      requiredAdded: "required_input_field_added"
+    }, (name) => `${from.name}.${name}`);
+  }
+
+  const toValues = byName(to.enumValues);
+  for (const value of from.enumValues || []) {
+    const coordinate = `${from.name}.${value.name}`;
+    const next = toValues.get(value.name);
+    if (!next) {
+      changes.push({ kind: "enum_value_removed", coordinate, detail: `${coordinate} was removed`, breaking: true });
+    } else if (!value.isDeprecated && next.isDeprecated) {
+      changes.push({
+        kind: "enum_value_deprecated",
+        coordinate,
+        detail: `${coordinate} is deprecated${next.deprecationReason ? `: ${next.deprecationReason}` : ""}`,
+        breaking: false
+      });
+    }
+  }
+}
+
+/**
+ * List what changed between two schemas that can affect existing documents
+ * Additions are left out, except new required arguments and input fields.
+ */
+export function diffSchemas(from: IntrospectionSchema, to: IntrospectionSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const toTypes = byName(to.types);
+
+  for (const type of from.types) {
+    if (type.name.startsWith("__")) continue;
+    const next = toTypes.get(type.name);
+    if (!next) {
+      changes.push({ kind: "type_removed", coordinate: type.name, detail: `${type.name} was removed`, breaking: true });
+    } else {
+      diffType(changes, type, next);
+    }
+  }
+
+  // Breaking changes first
+  return changes.sort((a, b) => Number(b.breaking) - Number(a.breaking));
+}
+
+/**
+ * The schema coordinates a document uses: types, fields, arguments, input fields and enum values
+ */
+export function collectSchemaCoordinates(schema: GraphQLSchema, document: string): Set<string> {
+  const coordinates = new Set<string>();
+  const typeInfo = new TypeInfo(schema);
+
+  visit(parse(document), visitWithTypeInfo(typeInfo, {
+    Field(node) {
+      const parent = typeInfo.getParentType();
+      if (parent) {
+        coordinates.add(parent.name);
+        coordinates.add(`${parent.name}.${node.name.value}`);
+      }
+    },
+    Argument(node) {
+      const parent = typeInfo.getParentType();
+      const field = typeInfo.getFieldDef();
+      if (parent && field) {
+        coordinates.add(`${parent.name}.${field.name}(${node.name.value}:)`);
+      }
+    },
+    ObjectField(node) {
+      const inputType = typeInfo.getParentInputType();
+      if (inputType) {
+        const named = getNamedType(inputType);
+        coordinates.add(named.name);
+        coordinates.add(`${named.name}.${node.name.value}`);
+      }
+    },
+    EnumValue(node) {
+      const inputType = typeInfo.getInputType();
+      if (inputType) {
+        coordinates.add(`${getNamedType(inputType).name}.${node.value}`);
+      }
+    },
+    NamedType(node) {
+      coordinates.add(node.name.value);
+    }
+  }));
+
+  return coordinates;
+}
+
+// The heading a document sits under in a prompt, e.g. "# Products" or "1. PRICE AND COST UPDATES:"
+function findHeading(text: string, index: number): string | null {
+  const lines = text.slice(0, index).split("\n").reverse();
+  const heading = lines.find((line) => /^\s*(#+\s+\S|\d+\.\s+\S)/.test(line));
+  return heading ? heading.trim().replace(/:$/, "") : null;
+}
+
+/**
+ * Pull the GraphQL documents out of prompt text
+ * Each query or mutation runs to its matching closing brace; anything that doesn't parse is skipped.
+ */
+export function extractGraphQLDocuments(text: string, source: string): ReliedOnDocument[] {
+  const documents: ReliedOnDocument[] = [];
+  const start = /(^|\n)[ \t]*(query|mutation)\b[^{\n]*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = start.exec(text))) {
+    const begin = match.index + match[1].length;
+    let depth = 0;
+    let end = -1;
+    for (let i = text.indexOf("{", begin); i < text.length; i++) {
+      if (text[i] === "{") depth++;
+      if (text[i] === "}" && --depth === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+    if (end === -1) break;
+
+    const document = text.slice(begin, end).trim();
+    try {
+      parse(document);
+    } catch {
+      continue;
+    }
+
+    const heading = findHeading(text, begin);
+    documents.push({ source: heading ? `${source}: ${heading}` : source, document });
+    start.lastIndex = end;
+  }
+
+  return documents;
+}
+
+function toGraphQLSchema(introspection: IntrospectionSchema): GraphQLSchema {
+  return buildClientSchema({ __schema: introspection } as unknown as IntrospectionQuery);
+}
+
+/**
+ * Compare two API versions and find the relied-on documents the upgrade affects
+ */
+export async function checkApiVersionUpgrade(fromVersion: string, toVersion: string, documents: ReliedOnDocument[]) {
+  const [fromIntrospection, toIntrospection] = await Promise.all([
+    getShopifySchema(fromVersion),
+    getShopifySchema(toVersion)
+  ]);
+  const changes = diffSchemas(fromIntrospection, toIntrospection);
+  const fromSchema = toGraphQLSchema(fromIntrospection);
+  const toSchema = toGraphQLSchema(toIntrospection);
+
+  const affected: AffectedDocument[] = [];
+  for (const reliedOn of documents) {
+    let coordinates: Set<string>;
+    try {
+      coordinates = collectSchemaCoordinates(fromSchema, reliedOn.document);
+    } catch {
+      continue;
+    }
+
+    const ast = parse(reliedOn.document);
+    const validationErrors = [
+      ...validate(toSchema, ast),
+      ...validate(toSchema, ast, [NoDeprecatedCustomRule])
+    ].map((error) => error.message);
+    const documentChanges = changes.filter((change) => coordinates.has(change.coordinate));
+
+    if (documentChanges.length > 0 || validationErrors.length > 0) {
+      affected.push({ ...reliedOn, changes: documentChanges, validationErrors: Array.from(new Set(validationErrors)) });
+    }
+  }
+
+  return { fromVersion, toVersion, changes, affected, checkedDocuments: documents.length };
+}
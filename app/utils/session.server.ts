@@ -1,9 +1,30 @@
 import { createCookieSessionStorage } from "@remix-run/node";
 import type { OperationPlan } from "./operation-executor.server";
+import type { PendingMutation } from "./mutation-approval.server";
+import type { ChangeRecord } from "./change-history.server";
+import type { BulkOperationRecord } from "./bulk-operations.server";
+import { getChatStorage, type ChatMessage, type Conversation } from "./chat-storage.server";
+import { getDefaultRole, type Role } from "./permissions.server";
+import { getUserById, type User } from "./users.server";
+import { getDefaultStore, getStore, type ShopifyStore } from "./stores.server";
 
-// In-memory store for chat histories and operations (in production, use Redis, DB, etc.)
-const chatHistories = new Map<string, any[]>();
-const activeOperations = new Map<string, OperationPlan>();
+// How long a chat lives: the cookie expires and stored chat state is cleaned up after this
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 1 week, in seconds
+
+// Expired chats are cleaned up at most this often
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+let lastCleanup = 0;
+
+// Number of recent changes kept per chat for undo
+const MAX_CHANGE_RECORDS = 50;
+
+// Title used until the first message names the conversation
+const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+// Sign-in and roles rest on the signed cookie, and the development fallback is public
+if (process.env.NODE_ENV === "production" && !process.env.SESSION_SECRET) {
+  throw new Error("SESSION_SECRET must be set in production");
+}
 
 // Create session storage to maintain conversation IDs only
 const sessionStorage = createCookieSessionStorage({
@@ -12,21 +33,225 @@ const sessionStorage = createCookieSessionStorage({
     secrets: [process.env.SESSION_SECRET || "default-secret-for-development"],
     sameSite: "lax",
     path: "/",
-    maxAge: 60 * 60 * 24 * 7, // 1 week
+    maxAge: SESSION_MAX_AGE,
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
   },
 });
 
+// Get the chat storage, removing chats whose cookie would have expired
+async function getStorage() {
+  const storage = getChatStorage();
+  const now = Date.now();
+
+  if (now - lastCleanup > CLEANUP_INTERVAL_MS) {
+    lastCleanup = now;
+    await storage.deleteExpired(now - SESSION_MAX_AGE * 1000);
+  }
+
+  return storage;
+}
+
 // Generate a unique ID for a new session
 function generateSessionId() {
   return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+// Generate a unique ID for the browser that owns a set of conversations
+function generateOwnerId() {
+  return `owner_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Sessions already read for a request, so a chat ID created while handling
+// one request is shared by every store call made for it
+const requestSessions = new WeakMap<Request, ReturnType<typeof sessionStorage.getSession>>();
+
 // Get session from request
 export async function getSession(request: Request) {
-  const cookie = request.headers.get("Cookie");
-  return sessionStorage.getSession(cookie);
+  let session = requestSessions.get(request);
+  if (!session) {
+    const cookie = request.headers.get("Cookie");
+    session = sessionStorage.getSession(cookie);
+    requestSessions.set(request, session);
+  }
+  return session;
+}
+
+// Commit any changes made to the session while handling a request
+export async function commitSession(request: Request) {
+  return sessionStorage.commitSession(await getSession(request));
+}
+
+// Get the ID of whoever owns the conversations in this session: the signed-in
+// user, or an anonymous ID for the browser
+async function getOwnerId(request: Request): Promise<string> {
+  const session = await getSession(request);
+  const userId = session.get("userId");
+  if (userId) {
+    return userId;
+  }
+
+  let ownerId = session.get("ownerId");
+  
+  if (!ownerId) {
+    ownerId = generateOwnerId();
+    session.set("ownerId", ownerId);
+  }
+  
+  return ownerId;
+}
+
+// Get the user signed in to this session
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const session = await getSession(request);
+  const userId = session.get("userId");
+  return userId ? getUserById(userId) : null;
+}
+
+// Sign a user in to this session, leaving behind any conversation selected before
+export async function setSessionUser(request: Request, userId: string) {
+  const session = await getSession(request);
+  if (session.get("userId") !== userId) {
+    session.set("userId", userId);
+    session.unset("chatId");
+  }
+  return commitSession(request);
+}
+
+// Sign out, forgetting the user and their selected conversation
+export async function destroySession(request: Request) {
+  return sessionStorage.destroySession(await getSession(request));
+}
+
+// Remember the state nonce of an app install started in this session
+export async function setOAuthState(request: Request, state: string) {
+  const session = await getSession(request);
+  session.set("oauthState", state);
+  return commitSession(request);
+}
+
+// Take the state nonce of the install in progress; it can only be used once
+export async function takeOAuthState(request: Request): Promise<string | null> {
+  const session = await getSession(request);
+  const state = session.get("oauthState") || null;
+  session.unset("oauthState");
+  return state;
+}
+
+// Get the role of the user in this session, falling back to the default role
+export async function getUserRole(request: Request): Promise<Role> {
+  const user = await getSessionUser(request);
+  return user ? user.role : getDefaultRole();
+}
+
+// Get the current chat ID, starting a new conversation if there isn't one
+export async function ensureChatId(request: Request): Promise<string> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  if (chatId) {
+    return chatId;
+  }
+  
+  const conversation = await createConversation(request);
+  return conversation.id;
+}
+
+// Make sure the session has a current conversation, e.g. before streaming a
+// response whose cookie has to be sent ahead of the body
+export async function ensureConversation(request: Request) {
+  await ensureChatId(request);
+  return commitSession(request);
+}
+
+// List the conversations owned by this session, most recent first
+export async function listConversations(request: Request): Promise<Conversation[]> {
+  const storage = await getStorage();
+  return storage.listConversations(await getOwnerId(request));
+}
+
+// Get the conversation currently selected in this session
+export async function getCurrentConversation(request: Request): Promise<Conversation | null> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  if (!chatId) {
+    return null;
+  }
+  
+  const storage = await getStorage();
+  return storage.getConversation(chatId);
+}
+
+// Start a new conversation and make it the current one
+export async function createConversation(request: Request, title = DEFAULT_CONVERSATION_TITLE): Promise<Conversation> {
+  const session = await getSession(request);
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: generateSessionId(),
+    ownerId: await getOwnerId(request),
+    title,
+    createdAt: now,
+    updatedAt: now
+  };
+  
+  const storage = await getStorage();
+  await storage.saveConversation(conversation);
+  session.set("chatId", conversation.id);
+  
+  return conversation;
+}
+
+// Get a conversation only if it belongs to this session
+async function getOwnedConversation(request: Request, chatId: string): Promise<Conversation | null> {
+  const storage = await getStorage();
+  const conversation = await storage.getConversation(chatId);
+  
+  if (!conversation || conversation.ownerId !== await getOwnerId(request)) {
+    return null;
+  }
+  
+  return conversation;
+}
+
+// Switch the session to another of its conversations
+export async function switchConversation(request: Request, chatId: string) {
+  const session = await getSession(request);
+  
+  if (await getOwnedConversation(request, chatId)) {
+    session.set("chatId", chatId);
+  }
+  
+  return sessionStorage.commitSession(session);
+}
+
+// Rename one of the session's conversations
+export async function renameConversation(request: Request, chatId: string, title: string) {
+  const session = await getSession(request);
+  const conversation = await getOwnedConversation(request, chatId);
+  
+  if (conversation && title.trim()) {
+    const storage = await getStorage();
+    await storage.saveConversation({ ...conversation, title: title.trim() });
+  }
+  
+  return sessionStorage.commitSession(session);
+}
+
+// Delete one of the session's conversations and everything stored with it
+export async function deleteConversation(request: Request, chatId: string) {
+  const session = await getSession(request);
+  
+  if (await getOwnedConversation(request, chatId)) {
+    const storage = await getStorage();
+    await storage.delete(chatId);
+    
+    if (session.get("chatId") === chatId) {
+      session.unset("chatId");
+    }
+  }
+  
+  return sessionStorage.commitSession(session);
 }
 
 // Get chat history from session
@@ -34,38 +259,48 @@ export async function getChatHistory(request: Request) {
   const session = await getSession(request);
   const chatId = session.get("chatId");
   
-  if (!chatId || !chatHistories.has(chatId)) {
+  if (!chatId) {
     return [];
   }
   
-  return chatHistories.get(chatId) || [];
+  const storage = await getStorage();
+  return (await storage.get(chatId, "history")) || [];
 }
 
 // Store chat history in session
-export async function storeChatHistory(request: Request, messages: any[]) {
+export async function storeChatHistory(request: Request, messages: ChatMessage[]) {
   const session = await getSession(request);
-  let chatId = session.get("chatId");
+  const chatId = await ensureChatId(request);
   
-  // Create new chat ID if it doesn't exist
-  if (!chatId) {
-    chatId = generateSessionId();
-    session.set("chatId", chatId);
-  }
+  // Store messages
+  const storage = await getStorage();
+  await storage.set(chatId, "history", messages);
   
-  // Store messages in memory
-  chatHistories.set(chatId, messages);
+  // Bump the conversation, naming it after its first message if it has no name yet
+  const conversation = await storage.getConversation(chatId);
+  if (conversation) {
+    const firstUserMessage = messages.find((msg) => msg.role === "user");
+    const title = conversation.title === DEFAULT_CONVERSATION_TITLE && firstUserMessage?.content
+      ? String(firstUserMessage.content).slice(0, 60)
+      : conversation.title;
+    await storage.saveConversation({ ...conversation, title, updatedAt: new Date().toISOString() });
+  }
   
   return sessionStorage.commitSession(session);
 }
 
-// Clear chat history from session
+// Clear chat history from session, keeping the conversation itself
 export async function clearChatHistory(request: Request) {
   const session = await getSession(request);
   const chatId = session.get("chatId");
   
   if (chatId) {
-    chatHistories.delete(chatId);
-    activeOperations.delete(chatId);
+    const storage = await getStorage();
+    await storage.delete(chatId, "history");
+    await storage.delete(chatId, "operation");
+    await storage.delete(chatId, "pendingMutations");
+    await storage.delete(chatId, "changeRecords");
+    await storage.delete(chatId, "bulkOperations");
   }
   
   return sessionStorage.commitSession(session);
@@ -76,26 +311,22 @@ export async function getActiveOperation(request: Request): Promise<OperationPla
   const session = await getSession(request);
   const chatId = session.get("chatId");
   
-  if (!chatId || !activeOperations.has(chatId)) {
+  if (!chatId) {
     return null;
   }
   
-  return activeOperations.get(chatId) || null;
+  const storage = await getStorage();
+  return storage.get(chatId, "operation");
 }
 
 // Store active operation in session
 export async function storeActiveOperation(request: Request, operation: OperationPlan) {
   const session = await getSession(request);
-  let chatId = session.get("chatId");
-  
-  // Create new chat ID if it doesn't exist
-  if (!chatId) {
-    chatId = generateSessionId();
-    session.set("chatId", chatId);
-  }
+  const chatId = await ensureChatId(request);
   
-  // Store operation in memory
-  activeOperations.set(chatId, operation);
+  // Store operation
+  const storage = await getStorage();
+  await storage.set(chatId, "operation", operation);
   
   return sessionStorage.commitSession(session);
 }
@@ -106,8 +337,194 @@ export async function clearActiveOperation(request: Request) {
   const chatId = session.get("chatId");
   
   if (chatId) {
-    activeOperations.delete(chatId);
+    const storage = await getStorage();
+    await storage.delete(chatId, "operation");
   }
   
   return sessionStorage.commitSession(session);
-}
\ No newline at end of file
+}
+
+// Get mutations awaiting approval from session
+export async function getPendingMutations(request: Request): Promise<PendingMutation[]> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  if (!chatId) {
+    return [];
+  }
+  
+  const storage = await getStorage();
+  return (await storage.get(chatId, "pendingMutations")) || [];
+}
+
+/**
+ * Queue mutations for approval
+ * Added with one conditional update, so mutations other requests are deciding
+ * in the meantime are never put back to "pending".
+ */
+export async function addPendingMutations(request: Request, mutations: PendingMutation[]) {
+  const session = await getSession(request);
+  const chatId = await ensureChatId(request);
+
+  const storage = await getStorage();
+  await storage.update(chatId, "pendingMutations", (current) => [...(current || []), ...mutations]);
+
+  return sessionStorage.commitSession(session);
+}
+
+/**
+ * Move a mutation out of "pending" before acting on it
+ * The check and the change are one conditional update, so a double-click or a
+ * resubmitted form can't run the same mutation twice. Returns false if the
+ * mutation is no longer pending.
+ */
+export async function claimPendingMutation(request: Request, mutationId: string, status: "executing" | "rejected"): Promise<boolean> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+
+  if (!chatId) {
+    return false;
+  }
+
+  let claimed = false;
+  const storage = await getStorage();
+  await storage.update(chatId, "pendingMutations", (mutations) => (mutations || []).map((mutation) => {
+    if (mutation.id !== mutationId || mutation.status !== "pending") {
+      return mutation;
+    }
+    claimed = true;
+    return { ...mutation, status };
+  }));
+  return claimed;
+}
+
+/**
+ * Take a decided mutation off the approval list and return what is left
+ * Done as one conditional update, so mutations that other requests claimed or
+ * added in the meantime are kept as they are now, not as this request read them.
+ */
+export async function removePendingMutation(request: Request, mutationId: string): Promise<PendingMutation[]> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+
+  if (!chatId) {
+    return [];
+  }
+
+  let remaining: PendingMutation[] = [];
+  const storage = await getStorage();
+  await storage.update(chatId, "pendingMutations", (mutations) => {
+    remaining = (mutations || []).filter((mutation) => mutation.id !== mutationId);
+    return remaining;
+  });
+  return remaining;
+}
+
+// Get recorded changes (with their undo snapshots) from session
+export async function getChangeRecords(request: Request): Promise<ChangeRecord[]> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  if (!chatId) {
+    return [];
+  }
+  
+  const storage = await getStorage();
+  return (await storage.get(chatId, "changeRecords")) || [];
+}
+
+/**
+ * Mark a change as being undone before undoing it
+ * Like claimPendingMutation, the check and the change are one conditional
+ * update, so a double-click can't undo the same change twice. Returns false if
+ * the change is no longer applied.
+ */
+export async function claimChangeRecord(request: Request, changeId: string): Promise<boolean> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+
+  if (!chatId) {
+    return false;
+  }
+
+  let claimed = false;
+  const storage = await getStorage();
+  await storage.update(chatId, "changeRecords", (records) => (records || []).map((record) => {
+    if (record.id !== changeId || record.status !== "applied") {
+      return record;
+    }
+    claimed = true;
+    return { ...record, status: "undoing" as const };
+  }));
+  return claimed;
+}
+
+/**
+ * Save one change record, replacing the stored copy or adding it, and return them all
+ * The other records are kept as they are now, so concurrent requests don't undo each other's writes.
+ */
+export async function saveChangeRecord(request: Request, changeRecord: ChangeRecord): Promise<ChangeRecord[]> {
+  const chatId = await ensureChatId(request);
+
+  let saved: ChangeRecord[] = [];
+  const storage = await getStorage();
+  await storage.update(chatId, "changeRecords", (records) => {
+    const current = records || [];
+    saved = current.some((record) => record.id === changeRecord.id)
+      ? current.map((record) => (record.id === changeRecord.id ? changeRecord : record))
+      : [...current, changeRecord].slice(-MAX_CHANGE_RECORDS);
+    return saved;
+  });
+  return saved;
+}
+
+// Get the bulk operations started from this conversation
+export async function getBulkOperations(request: Request): Promise<BulkOperationRecord[]> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  if (!chatId) {
+    return [];
+  }
+  
+  const storage = await getStorage();
+  return (await storage.get(chatId, "bulkOperations")) || [];
+}
+
+// Store the bulk operations started from this conversation
+export async function storeBulkOperations(request: Request, operations: BulkOperationRecord[]) {
+  const session = await getSession(request);
+  const chatId = await ensureChatId(request);
+  
+  // Store bulk operations
+  const storage = await getStorage();
+  await storage.set(chatId, "bulkOperations", operations);
+  
+  return sessionStorage.commitSession(session);
+}
+
+// Get the store this conversation works on: the one picked for it, else the
+// last one picked in this session, else the default store
+export async function getChatStore(request: Request): Promise<ShopifyStore | null> {
+  const session = await getSession(request);
+  const chatId = session.get("chatId");
+  
+  const storage = await getStorage();
+  const storeId = chatId ? await storage.get(chatId, "storeId") : null;
+  
+  return getStore(storeId) || getStore(session.get("storeId")) || getDefaultStore();
+}
+
+// Pick the store this conversation works on
+export async function selectChatStore(request: Request, storeId: string) {
+  const session = await getSession(request);
+  
+  if (getStore(storeId)) {
+    const chatId = await ensureChatId(request);
+    const storage = await getStorage();
+    await storage.set(chatId, "storeId", storeId);
+    session.set("storeId", storeId);
+  }
+  
+  return sessionStorage.commitSession(session);
+}
@@ -0,0 +1,148 @@
+/**
+ * Offline access tokens for shops that installed the app through OAuth
+ * Tokens are encrypted with AES-256-GCM before they are written to SQLite, using
+ * a key derived from TOKEN_ENCRYPTION_KEY, so a copy of the database alone
+ * doesn't give access to the shops.
+ */
+import crypto from "node:crypto";
+import { getDatabase } from "./db.server";
+
+export interface InstalledShop {
+  domain: string;
+  name: string;
+  scopes: string[];
+  installedAt: string;
+  // Admin API version chosen for the shop, or null for the default
+  apiVersion: string | null;
+}
+
+interface ShopTokenRow {
+  domain: string;
+  name: string;
+  scopes: string;
+  installedAt: string;
+  apiVersion: string | null;
+  encryptedToken: string;
+}
+
+// Version prefix of the encrypted format, so the scheme can change later
+const TOKEN_FORMAT = "v1";
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("TOKEN_ENCRYPTION_KEY must be set to store shop access tokens");
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+function encryptToken(token: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return [TOKEN_FORMAT, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+function decryptToken(value: string): string {
+  const [format, iv, tag, encrypted] = value.split(":");
+  if (format !== TOKEN_FORMAT || !iv || !tag || !encrypted) {
+    throw new Error("Unrecognized encrypted token format");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]).toString("utf8");
+}
+
+// Prepared statements, created with the table on first use
+let statements: ReturnType<typeof prepareStatements> | null = null;
+
+function prepareStatements() {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS shop_tokens (
+      domain TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      encrypted_token TEXT NOT NULL,
+      installed_at TEXT NOT NULL
+    );
+  `);
+
+  // The API version column was added once versions became configurable per store
+  const tableColumns = db.prepare("PRAGMA table_info(shop_tokens)").all() as { name: string }[];
+  if (!tableColumns.some((column) => column.name === "api_version")) {
+    db.exec("ALTER TABLE shop_tokens ADD COLUMN api_version TEXT");
+  }
+
+  const columns = "domain, name, scopes, encrypted_token AS encryptedToken, installed_at AS installedAt, api_version AS apiVersion";
+  return {
+    select: db.prepare(`SELECT ${columns} FROM shop_tokens WHERE domain = ?`),
+    selectAll: db.prepare(`SELECT ${columns} FROM shop_tokens ORDER BY name`),
+    upsert: db.prepare(`
+      INSERT INTO shop_tokens (domain, name, scopes, encrypted_token, installed_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (domain) DO UPDATE SET
+        name = excluded.name, scopes = excluded.scopes,
+        encrypted_token = excluded.encrypted_token, installed_at = excluded.installed_at
+    `),
+    setApiVersion: db.prepare("UPDATE shop_tokens SET api_version = ? WHERE domain = ?"),
+    delete: db.prepare("DELETE FROM shop_tokens WHERE domain = ?")
+  };
+}
+
+function getStatements() {
+  if (!statements) {
+    statements = prepareStatements();
+  }
+  return statements;
+}
+
+function toInstalledShop(row: ShopTokenRow): InstalledShop {
+  return {
+    domain: row.domain,
+    name: row.name,
+    scopes: row.scopes.split(",").filter(Boolean),
+    installedAt: row.installedAt,
+    apiVersion: row.apiVersion
+  };
+}
+
+/**
+ * Save (or replace) a shop's offline access token after it installs the app
+ */
+export function saveShopToken({
+  domain,
+  name,
+  accessToken,
+  scopes
+}: {
+  domain: string;
+  name?: string;
+  accessToken: string;
+  scopes: string[];
+}) {
+  getStatements().upsert.run(domain, name || domain, scopes.join(","), encryptToken(accessToken), new Date().toISOString());
+}
+
+/**
+ * Get a shop's decrypted access token, or null if the app isn't installed on it
+ */
+export function getShopToken(domain: string): string | null {
+  const row = getStatements().select.get(domain) as ShopTokenRow | undefined;
+  return row ? decryptToken(row.encryptedToken) : null;
+}
+
+export function listInstalledShops(): InstalledShop[] {
+  return (getStatements().selectAll.all() as ShopTokenRow[]).map(toInstalledShop);
+}
+
+// Pin an installed shop to an Admin API version, or pass null to use the default
+export function setShopApiVersion(domain: string, apiVersion: string | null) {
+  getStatements().setApiVersion.run(apiVersion, domain);
+}
+
+export function removeShopToken(domain: string) {
+  getStatements().delete.run(domain);
+}
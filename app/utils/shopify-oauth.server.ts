@@ -0,0 +1,125 @@
+/**
+ * Shopify OAuth app install flow
+ * /auth/install sends the merchant to Shopify to approve the app's scopes, and
+ * /auth/callback verifies Shopify's HMAC and the state nonce, then exchanges
+ * the code for an offline access token.
+ */
+import crypto from "node:crypto";
+
+// Access scopes the assistant's tools need: products, variants, inventory and
+// metafields are read and changed, locations are read, and orders, customers,
+// draft orders and articles are read and tagged (add_tags, remove_tags)
+export const DEFAULT_SCOPES = [
+  "read_products",
+  "write_products",
+  "read_inventory",
+  "write_inventory",
+  "read_locations",
+  "read_orders",
+  "write_orders",
+  "read_customers",
+  "write_customers",
+  "read_draft_orders",
+  "write_draft_orders",
+  "read_content",
+  "write_content"
+];
+
+/**
+ * Whether the app's credentials and the token encryption key are set, so shops can install the app
+ */
+export function isOAuthConfigured(): boolean {
+  return Boolean(process.env.SHOPIFY_API_KEY && process.env.SHOPIFY_API_SECRET && process.env.TOKEN_ENCRYPTION_KEY);
+}
+
+export function getAppCredentials() {
+  const apiKey = process.env.SHOPIFY_API_KEY;
+  const apiSecret = process.env.SHOPIFY_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    throw new Error("SHOPIFY_API_KEY and SHOPIFY_API_SECRET must be set to install the app on a shop");
+  }
+  return { apiKey, apiSecret };
+}
+
+/**
+ * Scopes requested on install (SHOPIFY_SCOPES, comma-separated, or DEFAULT_SCOPES)
+ */
+export function getRequestedScopes(): string[] {
+  const configured = process.env.SHOPIFY_SCOPES;
+  return configured ? configured.split(",").map((scope) => scope.trim()).filter(Boolean) : DEFAULT_SCOPES;
+}
+
+/**
+ * Whether a shop parameter is a real *.myshopify.com domain, so we never redirect or send codes anywhere else
+ */
+export function isValidShopDomain(shop: string | null): shop is string {
+  return Boolean(shop && /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/.test(shop));
+}
+
+/**
+ * Verify the hmac Shopify adds to the query string of OAuth redirects
+ * The message is every other parameter, sorted and joined as key=value&...
+ */
+export function verifyShopifyHmac(params: URLSearchParams): boolean {
+  const hmac = params.get("hmac");
+  if (!hmac) {
+    return false;
+  }
+
+  const message = Array.from(params.entries())
+    .filter(([key]) => key !== "hmac" && key !== "signature")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const expected = crypto.createHmac("sha256", getAppCredentials().apiSecret).update(message).digest("hex");
+
+  return hmac.length === expected.length && crypto.timingSafeEqual(Buffer.from(hmac), Buffer.from(expected));
+}
+
+/**
+ * A random nonce tying the callback to the browser that started the install
+ */
+export function createOAuthState(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+/**
+ * The Shopify URL where the merchant approves the app
+ * No per-user grant option is sent, so Shopify issues an offline token that doesn't expire with a session.
+ */
+export function buildAuthorizeUrl(shop: string, state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: getAppCredentials().apiKey,
+    scope: getRequestedScopes().join(","),
+    redirect_uri: redirectUri,
+    state
+  });
+  return `https://${shop}/admin/oauth/authorize?${params}`;
+}
+
+/**
+ * Exchange the authorization code from the callback for an offline access token
+ */
+export async function exchangeCodeForToken(shop: string, code: string) {
+  const { apiKey, apiSecret } = getAppCredentials();
+  const response = await fetch(`https://${shop}/admin/oauth/access_token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ client_id: apiKey, client_secret: apiSecret, code })
+  });
+
+  if (!response.ok) {
+    return { error: `Shopify refused the authorization code (HTTP ${response.status})` };
+  }
+
+  const { access_token: accessToken, scope } = await response.json();
+  const grantedScopes: string[] = String(scope || "").split(",").filter(Boolean);
+
+  // Write scopes imply the matching read scope, so a granted write_x covers read_x
+  const missingScopes = getRequestedScopes().filter(
+    (requested) => !grantedScopes.includes(requested) &&
+      !(requested.startsWith("read_") && grantedScopes.includes(requested.replace(/^read_/, "write_")))
+  );
+
+  return { accessToken: accessToken as string, scopes: grantedScopes, missingScopes };
+}
@@ -0,0 +1,394 @@
+/**
+ * Shopify Admin GraphQL schema introspection
+ * The full schema is fetched once per API version and cached in memory and on
+ * disk, then looked up and searched locally by the introspect_schema tool.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { callShopifyGraphQL } from "./shopify.server";
+import { getApiVersion } from "./stores.server";
+import { getReplaySession } from "./replay.server";
+
+// Types from the standard introspection query
+export interface IntrospectionTypeRef {
+  kind: string;
+  name: string | null;
+  ofType: IntrospectionTypeRef | null;
+}
+
+export interface IntrospectionInputValue {
+  name: string;
+  description: string | null;
+  type: IntrospectionTypeRef;
+  defaultValue: string | null;
+}
+
+export interface IntrospectionField {
+  name: string;
+  description: string | null;
+  args: IntrospectionInputValue[];
+  type: IntrospectionTypeRef;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface IntrospectionType {
+  kind: string;
+  name: string;
+  description: string | null;
+  fields: IntrospectionField[] | null;
+  inputFields: IntrospectionInputValue[] | null;
+  interfaces: IntrospectionTypeRef[] | null;
+  enumValues: { name: string; description: string | null; isDeprecated: boolean; deprecationReason: string | null }[] | null;
+  possibleTypes: IntrospectionTypeRef[] | null;
+}
+
+export interface IntrospectionSchema {
+  queryType: { name: string };
+  mutationType: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types: IntrospectionType[];
+  directives?: { name: string; description: string | null; locations: string[]; args: IntrospectionInputValue[] }[];
+}
+
+// What a search looks through
+export type SchemaSearchScope = "all" | "types" | "fields" | "queries" | "mutations";
+
+// Most matches returned by a search
+const MAX_SEARCH_RESULTS = 50;
+
+// Where fetched schemas are kept between restarts
+const SCHEMA_CACHE_DIR = process.env.SCHEMA_CACHE_DIR || path.join("data", "schema-cache");
+
+// ofType is nested deep enough for wrappers like [[Type!]!]!
+const TYPE_REF_FRAGMENT = `
+  fragment TypeRef on __Type {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+        ofType {
+          kind
+          name
+          ofType {
+            kind
+            name
+            ofType {
+              kind
+              name
+              ofType {
+                kind
+                name
+                ofType {
+                  kind
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const INTROSPECTION_QUERY = `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      mutationType { name }
+      subscriptionType { name }
+      types { ...FullType }
+      directives {
+        name
+        description
+        locations
+        args { ...InputValue }
+      }
+    }
+  }
+
+  fragment FullType on __Type {
+    kind
+    name
+    description
+    fields(includeDeprecated: true) {
+      name
+      description
+      args { ...InputValue }
+      type { ...TypeRef }
+      isDeprecated
+      deprecationReason
+    }
+    inputFields { ...InputValue }
+    interfaces { ...TypeRef }
+    enumValues(includeDeprecated: true) {
+      name
+      description
+      isDeprecated
+      deprecationReason
+    }
+    possibleTypes { ...TypeRef }
+  }
+
+  fragment InputValue on __InputValue {
+    name
+    description
+    type { ...TypeRef }
+    defaultValue
+  }
+
+  ${TYPE_REF_FRAGMENT}
+`;
+
+// Schemas already loaded, and fetches in flight, by API version
+const schemaCache = new Map<string, Promise<IntrospectionSchema>>();
+
+function getCachePath(version: string) {
+  return path.join(SCHEMA_CACHE_DIR, `shopify-admin-${version}.json`);
+}
+
+async function loadSchema(version: string): Promise<IntrospectionSchema> {
+  const cachePath = getCachePath(version);
+
+  try {
+    const cached: IntrospectionSchema = JSON.parse(await fs.promises.readFile(cachePath, "utf8"));
+    // Validation needs the directives too, so older caches without them are refetched
+    if (cached.directives) return cached;
+  } catch {
+    // Not cached yet (or unreadable) - fetch it below
+  }
+
+  const result = await callShopifyGraphQL<{ __schema: IntrospectionSchema }>(INTROSPECTION_QUERY, {}, { apiVersion: version });
+  if (result.errors?.length || !result.data?.__schema) {
+    throw new Error(result.errors?.[0]?.message || "Schema introspection returned no schema");
+  }
+
+  // Write to a temporary file first so a crash can't leave a truncated cache behind
+  const schema: IntrospectionSchema = result.data.__schema;
+  await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+  await fs.promises.writeFile(`${cachePath}.tmp`, JSON.stringify(schema));
+  await fs.promises.rename(`${cachePath}.tmp`, cachePath);
+
+  return schema;
+}
+
+/**
+ * Get the full Admin API schema for an API version (by default the current store's), fetching it only if it isn't cached
+ */
+export function getShopifySchema(version = getApiVersion()): Promise<IntrospectionSchema> {
+  // Scenarios must run the same on every machine, whatever schema it has cached
+  if (getReplaySession()) {
+    return Promise.reject(new Error("The Shopify schema isn't available while a scenario is recorded or replayed"));
+  }
+
+  let schema = schemaCache.get(version);
+  if (!schema) {
+    schema = loadSchema(version);
+    // Don't keep a failed fetch around, so the next call tries again
+    schema.catch(() => schemaCache.delete(version));
+    schemaCache.set(version, schema);
+  }
+  return schema;
+}
+
+/**
+ * Write a type reference the way it appears in GraphQL, e.g. [ProductVariant!]!
+ */
+export function formatTypeRef(ref: IntrospectionTypeRef | null): string {
+  if (!ref) return "unknown";
+  if (ref.kind === "NON_NULL") return `${formatTypeRef(ref.ofType)}!`;
+  if (ref.kind === "LIST") return `[${formatTypeRef(ref.ofType)}]`;
+  return ref.name || "unknown";
+}
+
+// The named type at the bottom of a type reference's wrappers
+function getNamedType(ref: IntrospectionTypeRef | null): string | null {
+  while (ref && !ref.name) ref = ref.ofType;
+  return ref?.name || null;
+}
+
+function describeInputValue(value: IntrospectionInputValue) {
+  return {
+    name: value.name,
+    type: formatTypeRef(value.type),
+    defaultValue: value.defaultValue ?? undefined,
+    description: value.description || undefined
+  };
+}
+
+function describeField(field: IntrospectionField) {
+  return {
+    name: field.name,
+    type: formatTypeRef(field.type),
+    args: field.args.length > 0 ? field.args.map(describeInputValue) : undefined,
+    description: field.description || undefined,
+    deprecated: field.isDeprecated ? field.deprecationReason || true : undefined
+  };
+}
+
+// A field written as a signature, e.g. productVariantsBulkUpdate(productId: ID!, ...): Payload
+function formatFieldSignature(field: IntrospectionField) {
+  const args = field.args.map((arg) => `${arg.name}: ${formatTypeRef(arg.type)}`).join(", ");
+  return `${field.name}${args ? `(${args})` : ""}: ${formatTypeRef(field.type)}`;
+}
+
+/**
+ * Describe one type with full field, argument and input field signatures
+ */
+export function describeType(schema: IntrospectionSchema, typeName: string) {
+  const type = schema.types.find((t) => t.name === typeName);
+  if (!type) return null;
+
+  return {
+    name: type.name,
+    kind: type.kind,
+    description: type.description || undefined,
+    fields: type.fields?.map(describeField),
+    inputFields: type.inputFields?.map(describeInputValue),
+    enumValues: type.enumValues?.map((value) => value.name),
+    interfaces: type.interfaces?.length ? type.interfaces.map(formatTypeRef) : undefined,
+    possibleTypes: type.possibleTypes?.length ? type.possibleTypes.map(formatTypeRef) : undefined
+  };
+}
+
+// A type as introspect_schema returns it
+export type TypeDescription = NonNullable<ReturnType<typeof describeType>>;
+
+/**
+ * Search the schema for types, fields, arguments and input fields matching a term
+ * A field also matches when one of its arguments or its return type is a matching
+ * type, so "ProductVariantsBulkInput" with the mutations scope finds the mutations that take it.
+ */
+export function searchSchema(schema: IntrospectionSchema, term: string, scope: SchemaSearchScope = "all") {
+  const needle = term.toLowerCase();
+  const matchesText = (text: string | null | undefined) => Boolean(text && text.toLowerCase().includes(needle));
+  const matches: { score: number; match: Record<string, unknown> }[] = [];
+
+  const rootTypes: Record<string, string | undefined> = {
+    queries: schema.queryType.name,
+    mutations: schema.mutationType?.name
+  };
+
+  for (const type of schema.types) {
+    if (type.name.startsWith("__")) continue;
+    if ((scope === "queries" || scope === "mutations") && type.name !== rootTypes[scope]) continue;
+
+    if ((scope === "all" || scope === "types") && (matchesText(type.name) || matchesText(type.description))) {
+      matches.push({
+        score: type.name.toLowerCase() === needle ? 0 : matchesText(type.name) ? 1 : 3,
+        match: { kind: "type", name: type.name, typeKind: type.kind, description: type.description || undefined }
+      });
+    }
+    if (scope === "types") continue;
+
+    for (const field of type.fields || []) {
+      const argMatch = field.args.some((arg) => matchesText(arg.name) || matchesText(getNamedType(arg.type)));
+      const typeMatch = matchesText(getNamedType(field.type));
+      if (matchesText(field.name) || argMatch || typeMatch || matchesText(field.description)) {
+        matches.push({
+          score: matchesText(field.name) ? 1 : argMatch || typeMatch ? 2 : 3,
+          match: {
+            kind: "field",
+            type: type.name,
+            signature: formatFieldSignature(field),
+            description: field.description || undefined,
+            deprecated: field.isDeprecated ? field.deprecationReason || true : undefined
+          }
+        });
+      }
+    }
+
+    for (const inputField of type.inputFields || []) {
+      if (matchesText(inputField.name) || matchesText(getNamedType(inputField.type)) || matchesText(inputField.description)) {
+        matches.push({
+          score: matchesText(inputField.name) ? 1 : 2,
+          match: {
+            kind: "inputField",
+            type: type.name,
+            signature: `${inputField.name}: ${formatTypeRef(inputField.type)}`,
+            description: inputField.description || undefined
+          }
+        });
+      }
+    }
+
+    for (const value of type.enumValues || []) {
+      if (matchesText(value.name)) {
+        matches.push({ score: 1, match: { kind: "enumValue", type: type.name, name: value.name } });
+      }
+    }
+  }
+
+  matches.sort((a, b) => a.score - b.score);
+
+  return {
+    search: term,
+    scope,
+    total: matches.length,
+    matches: matches.slice(0, MAX_SEARCH_RESULTS).map(({ match }) => match),
+    note: matches.length > MAX_SEARCH_RESULTS
+      ? `Showing ${MAX_SEARCH_RESULTS} of ${matches.length} matches. Use a more specific term or scope.`
+      : undefined
+  };
+}
+
+/**
+ * Introspect the Shopify GraphQL schema
+ * This allows the assistant to query for type information, look up a single
+ * field, or search the whole schema.
+ */
+export async function introspectShopifySchema(
+  options: { type?: string; field?: string; search?: string; scope?: SchemaSearchScope } = {}
+) {
+  try {
+    const schema = await getShopifySchema();
+
+    if (options.search) {
+      return { data: searchSchema(schema, options.search, options.scope) };
+    }
+
+    if (options.type) {
+      const type = schema.types.find((t) => t.name === options.type);
+      if (!type) {
+        const suggestions = searchSchema(schema, options.type, "types").matches.slice(0, 5);
+        return {
+          error: `Type "${options.type}" not found in schema`,
+          suggestions: suggestions.map((match) => match.name)
+        };
+      }
+
+      // If a field name is provided, extract just that field
+      if (options.field) {
+        const field = type.fields?.find((f) => f.name === options.field);
+        const inputField = type.inputFields?.find((f) => f.name === options.field);
+        if (!field && !inputField) {
+          return { error: `Field "${options.field}" not found on type "${options.type}"` };
+        }
+        return { data: { field: field ? describeField(field) : describeInputValue(inputField!) } };
+      }
+
+      return { data: { type: describeType(schema, options.type) } };
+    }
+
+    // Without a type or search, list the entry points
+    const queryRoot = schema.types.find((t) => t.name === schema.queryType.name);
+    const mutationRoot = schema.types.find((t) => t.name === schema.mutationType?.name);
+    return {
+      data: {
+        apiVersion: getApiVersion(),
+        typeCount: schema.types.length,
+        queries: queryRoot?.fields?.map((f) => f.name) || [],
+        mutations: mutationRoot?.fields?.map((f) => f.name) || [],
+        usage: "Look up a type with introspect_schema({ type: \"Product\" }) or search with introspect_schema({ search: \"inventoryPolicy\" })"
+      }
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { error: errorMessage };
+  }
+}
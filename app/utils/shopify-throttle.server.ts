@@ -0,0 +1,126 @@
+/**
+ * Query-cost rate limiting for the Shopify Admin GraphQL API
+ * Shopify meters GraphQL calls with a leaky bucket of query cost points and
+ * reports its state in extensions.cost.throttleStatus on every response.
+ */
+import type { ShopifyGraphQLResponse } from "./shopify.server";
+
+// The cost extension of a GraphQL response
+export interface QueryCost {
+  requestedQueryCost?: number;
+  throttleStatus?: { maximumAvailable: number; currentlyAvailable: number; restoreRate: number };
+}
+
+// The parts of a response the rate limiting reads
+type MeteredResponse = Pick<ShopifyGraphQLResponse<unknown>, "errors" | "extensions">;
+
+// State of a shop's cost bucket, as last reported by Shopify
+interface CostBucket {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number; // points per second
+  updatedAt: number;
+}
+
+// Until Shopify reports the real bucket, assume the standard plan limits
+const DEFAULT_MAXIMUM_AVAILABLE = 2000;
+const DEFAULT_RESTORE_RATE = 100;
+
+// Points set aside for a request before its real cost is known
+const ESTIMATED_QUERY_COST = 100;
+
+// Attempts per request, including the first, for throttled and transient failures
+export const SHOPIFY_MAX_ATTEMPTS = Number(process.env.SHOPIFY_MAX_ATTEMPTS) || 5;
+
+// Backoff between attempts when Shopify doesn't say how long to wait
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Buckets are shared by every request made to the same shop
+const buckets = new Map<string, CostBucket>();
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Get a shop's bucket, topped up with what has restored since it was last updated
+function getBucket(shop: string): CostBucket {
+  const now = Date.now();
+  let bucket = buckets.get(shop);
+
+  if (!bucket) {
+    bucket = {
+      maximumAvailable: DEFAULT_MAXIMUM_AVAILABLE,
+      currentlyAvailable: DEFAULT_MAXIMUM_AVAILABLE,
+      restoreRate: DEFAULT_RESTORE_RATE,
+      updatedAt: now
+    };
+    buckets.set(shop, bucket);
+  }
+
+  const restored = ((now - bucket.updatedAt) / 1000) * bucket.restoreRate;
+  bucket.currentlyAvailable = Math.min(bucket.maximumAvailable, bucket.currentlyAvailable + restored);
+  bucket.updatedAt = now;
+
+  return bucket;
+}
+
+/**
+ * Wait until the shop's bucket can cover a request of the given cost, then reserve it
+ */
+export async function waitForQueryCost(shop: string, cost = ESTIMATED_QUERY_COST) {
+  let bucket = getBucket(shop);
+  const needed = Math.min(cost, bucket.maximumAvailable);
+
+  if (bucket.currentlyAvailable < needed) {
+    const waitMs = Math.ceil(((needed - bucket.currentlyAvailable) / bucket.restoreRate) * 1000);
+    console.warn(`Shopify query cost bucket for ${shop} is low, waiting ${waitMs}ms`);
+    await sleep(waitMs);
+    bucket = getBucket(shop);
+  }
+
+  bucket.currentlyAvailable -= needed;
+}
+
+/**
+ * Update the shop's bucket from the cost extension of a GraphQL response
+ */
+export function updateThrottleStatus(shop: string, result: MeteredResponse) {
+  const throttleStatus = result?.extensions?.cost?.throttleStatus;
+  if (!throttleStatus) return;
+
+  buckets.set(shop, {
+    maximumAvailable: throttleStatus.maximumAvailable,
+    currentlyAvailable: throttleStatus.currentlyAvailable,
+    restoreRate: throttleStatus.restoreRate,
+    updatedAt: Date.now()
+  });
+}
+
+/**
+ * Whether a GraphQL response was rejected because the cost bucket was empty
+ */
+export function isThrottled(result: MeteredResponse | null | undefined): boolean {
+  return Array.isArray(result?.errors) &&
+    result.errors.some((error) => error?.extensions?.code === "THROTTLED");
+}
+
+/**
+ * Cost Shopify asked for on a response, used to size the wait before a retry
+ */
+export function getRequestedQueryCost(result: MeteredResponse): number | undefined {
+  return result?.extensions?.cost?.requestedQueryCost;
+}
+
+/**
+ * Exponential backoff with jitter, or the server's Retry-After (in seconds) when given
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string | null): number {
+  const retryAfterSeconds = Number(retryAfter);
+  if (retryAfter && retryAfterSeconds > 0) {
+    return retryAfterSeconds * 1000;
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
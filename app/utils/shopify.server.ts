@@ -4,31 +4,164 @@
  * products, orders, customers, and more.
  */
 
-// Cache for the GraphQL schema
-let schemaCache: any = null;
+import { Kind, parse } from "graphql";
+import {
+  SHOPIFY_MAX_ATTEMPTS,
+  getRequestedQueryCost,
+  getRetryDelay,
+  isThrottled,
+  sleep,
+  updateThrottleStatus,
+  waitForQueryCost,
+  type QueryCost
+} from "./shopify-throttle.server";
+import { recordMutation } from "./audit-log.server";
+import { findUserErrors, formatUserErrors, type ShopifyUserError } from "./user-errors.server";
+import { getApiVersion, getCurrentStore } from "./stores.server";
+import { getShopToken } from "./shop-tokens.server";
+import { fetchShopifyGraphQL } from "./replay.server";
+import {
+  paginateQuery,
+  type PaginateOptions,
+  type PaginationInfo
+} from "./pagination.server";
+
+// An error in a GraphQL response; extensions.code is e.g. "THROTTLED"
+export interface ShopifyGraphQLError {
+  message: string;
+  extensions?: { code?: string } & Record<string, unknown>;
+}
+
+// The nodes of a connection, selected through edges
+export interface Connection<T> {
+  edges: { node: T }[];
+}
+
+// A response from the Admin GraphQL API, with what callShopifyGraphQL adds to it
+export interface ShopifyGraphQLResponse<TData = Record<string, unknown>> {
+  data?: TData;
+  errors?: ShopifyGraphQLError[];
+  extensions?: { cost?: QueryCost };
+  // Set when Shopify flagged the request as using deprecated API features
+  deprecations?: string[];
+  // The query, variables and raw response, for debugging
+  _graphql?: {
+    query: string;
+    variables: Record<string, unknown>;
+    response?: Pick<ShopifyGraphQLResponse<TData>, "data" | "errors" | "extensions">;
+    pages?: number;
+  };
+}
+
+// Whether a GraphQL document contains a mutation, which is only retried when Shopify
+// certainly didn't run it (throttling), never after a failure with an unknown outcome.
+// Any operation counts, wherever it is in the document (e.g. after a fragment).
+export function isMutationDocument(query: string): boolean {
+  try {
+    return parse(query).definitions.some(
+      (definition) => definition.kind === Kind.OPERATION_DEFINITION && definition.operation === "mutation"
+    );
+  } catch {
+    // Shopify will refuse it too, but err on the side of treating it as a mutation
+    return /\bmutation\b/.test(query);
+  }
+}
 
 /**
- * Calls Shopify's Admin GraphQL API
+ * Calls Shopify's Admin GraphQL API for the current store (see runWithStore)
+ * Uses the store's API version unless another is given. Waits for the shop's
+ * query cost bucket before sending, and retries throttled requests, HTTP 429
+ * and (for queries) 5xx and network failures with backoff.
  */
-export async function callShopifyGraphQL(query: string, variables = {}) {
-  const shopDomain = process.env.SHOPIFY_STORE_DOMAIN;
-  const shopToken = process.env.SHOPIFY_ADMIN_TOKEN;
+export async function callShopifyGraphQL<TData = Record<string, unknown>>(
+  query: string,
+  variables: Record<string, unknown> = {},
+  { apiVersion }: { apiVersion?: string } = {}
+): Promise<ShopifyGraphQLResponse<TData>> {
+  const store = getCurrentStore();
   
-  if (!shopDomain || !shopToken) {
+  if (!store) {
     throw new Error("Missing Shopify API credentials. Check your .env file.");
   }
+  const version = apiVersion || getApiVersion(store);
 
-  const url = `https://${shopDomain}/admin/api/2025-01/graphql.json`;
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Shopify-Access-Token": shopToken
-    },
-    body: JSON.stringify({ query, variables })
-  });
+  const shopDomain = store.domain;
+  // Shops installed through OAuth keep their token encrypted in the database,
+  // so it's looked up per call and a reinstall takes effect immediately
+  const shopToken = store.accessToken || getShopToken(shopDomain);
+  if (!shopToken) {
+    throw new Error(`No access token for ${shopDomain}. Install the app on the shop from the Stores page.`);
+  }
 
-  const result = await response.json();
+  const url = `https://${shopDomain}/admin/api/${version}/graphql.json`;
+  const isMutation = isMutationDocument(query);
+  let cost: number | undefined;
+  let result: ShopifyGraphQLResponse<TData>;
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForQueryCost(shopDomain, cost);
+    const canRetry = attempt < SHOPIFY_MAX_ATTEMPTS;
+
+    let response: Response;
+    try {
+      response = await fetchShopifyGraphQL(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Access-Token": shopToken
+        },
+        body: JSON.stringify({ query, variables })
+      });
+    } catch (error) {
+      // Network failure - the request may or may not have reached Shopify
+      if (isMutation) {
+        recordMutation(query, variables, { errors: [{ message: `Request failed, outcome unknown: ${error}` }] });
+      }
+      if (isMutation || !canRetry) throw error;
+      console.warn(`Shopify request failed (attempt ${attempt}), retrying:`, error);
+      await sleep(getRetryDelay(attempt));
+      continue;
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      if (canRetry && (response.status === 429 || !isMutation)) {
+        console.warn(`Shopify returned HTTP ${response.status} (attempt ${attempt}), retrying`);
+        await sleep(getRetryDelay(attempt, response.headers.get("Retry-After")));
+        continue;
+      }
+
+      result = {
+        errors: [{
+          message: `Shopify API request failed with HTTP ${response.status} after ${attempt} attempt(s)`,
+          extensions: { code: response.status === 429 ? "THROTTLED" : "INTERNAL_SERVER_ERROR" }
+        }]
+      };
+      break;
+    }
+
+    result = await response.json();
+    updateThrottleStatus(shopDomain, result);
+
+    // Shopify flags requests that use deprecated fields or an unsupported API version
+    const deprecatedReason = response.headers.get("X-Shopify-API-Deprecated-Reason");
+    if (deprecatedReason) {
+      console.warn(`Shopify flagged a request to ${shopDomain} (${version}) as deprecated: ${deprecatedReason}`);
+      result.deprecations = [`Shopify reports this request uses deprecated API features (API version ${version}): ${deprecatedReason}`];
+    }
+
+    // Throttled requests are never executed, so mutations can be retried too
+    if (isThrottled(result) && canRetry) {
+      cost = getRequestedQueryCost(result);
+      console.warn(`Shopify throttled the request (attempt ${attempt}), waiting for the cost bucket to restore`);
+      continue;
+    }
+
+    break;
+  }
+
+  if (isMutation) {
+    recordMutation(query, variables, result);
+  }
   
   // Add the GraphQL query, variables, and raw response to the result for debugging
   result._graphql = {
@@ -36,31 +169,49 @@ export async function callShopifyGraphQL(query: string, variables = {}) {
     variables,
     response: {
       data: result.data,
-      errors: result.errors
+      errors: result.errors,
+      extensions: result.extensions
     }
   };
   
   return result;
 }
 
+// An amount in the shop's currency
+interface MoneyBag {
+  shopMoney: { amount: string; currencyCode: string };
+}
+
+interface OrderSummary {
+  id: string;
+  name: string;
+  displayFinancialStatus: string | null;
+  displayFulfillmentStatus: string;
+  createdAt: string;
+  totalPriceSet: MoneyBag;
+  customer: { firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
 /**
- * Fetches orders from Shopify with optional filters
+ * Fetches orders from Shopify with optional filters, newest first
  */
-export async function fetchOrdersFromShopify({ status, since }: { status?: string; since?: string }) {
+export async function fetchOrdersFromShopify(
+  { status, since, first = 5 }: { status?: string; since?: string; first?: number }
+) {
   // Build a GraphQL query with filters if provided
   let queryFilter = "";
   if (status) queryFilter += `fulfillment_status:${status}`;
   if (since) queryFilter += (queryFilter ? " AND " : "") + `updated_at:>=${since}`;
   
   const gql = `#graphql
-    query ($query: String) {
-      orders(first: 5, query: $query) {
+    query ($query: String, $first: Int!) {
+      orders(first: $first, query: $query, sortKey: CREATED_AT, reverse: true) {
         edges {
           node {
             id
             name
-            financialStatus
-            fulfillmentStatus
+            displayFinancialStatus
+            displayFulfillmentStatus
             createdAt
             totalPriceSet {
               shopMoney {
@@ -79,72 +230,32 @@ export async function fetchOrdersFromShopify({ status, since }: { status?: strin
     }
   `;
   
-  const variables = { query: queryFilter || undefined };
-  const result = await callShopifyGraphQL(gql, variables);
+  const variables = { query: queryFilter || undefined, first };
+  const result = await callShopifyGraphQL<{ orders: Connection<OrderSummary> }>(gql, variables);
   
   if (result.errors) {
     return { error: result.errors[0].message || "Error fetching orders" };
   }
   
   // Extract order info
-  const orders = result.data.orders.edges.map((edge: any) => edge.node);
+  const orders = (result.data?.orders.edges || []).map((edge) => edge.node);
   return { 
     orders,
     _graphql: result._graphql 
   };
 }
 
-/**
- * Updates inventory for a product variant
- */
-export async function updateInventoryInShopify({ 
-  variant_id, 
-  new_quantity, 
-  location_id 
-}: { 
-  variant_id: string; 
-  new_quantity: number; 
-  location_id: string;
-}) {
-  const gql = `#graphql
-    mutation adjustInventory($inventoryItemId: ID!, $locationId: ID!, $adjustment: Int!) {
-      inventoryAdjustQuantity(input: {
-        inventoryItemId: $inventoryItemId,
-        availableDelta: $adjustment,
-        locationId: $locationId
-      }) {
-        inventoryLevel {
-          available
-        }
-        userErrors {
-          message
-        }
-      }
-    }
-  `;
-  
-  const variables = {
-    inventoryItemId: variant_id,
-    locationId: location_id,
-    adjustment: new_quantity
-  };
-  
-  const result = await callShopifyGraphQL(gql, variables);
-  const data = result.data?.inventoryAdjustQuantity;
-  
-  if (!data || data.userErrors.length) {
-    return { error: data?.userErrors[0]?.message || "Inventory update failed" };
-  }
-  
-  return { 
-    success: true, 
-    newAvailable: data.inventoryLevel.available,
-    _graphql: result._graphql 
-  };
+interface CustomerSummary {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  orders: Connection<{ id: string; name: string; totalPriceSet: MoneyBag; createdAt: string }>;
 }
 
 /**
  * Finds a customer by email
+ * Returns customer: null when nobody has that email.
  */
 export async function fetchCustomerByEmail({ email }: { email: string }) {
   const gql = `#graphql
@@ -178,23 +289,28 @@ export async function fetchCustomerByEmail({ email }: { email: string }) {
   `;
   
   const variables = { query: `email:${email}` };
-  const result = await callShopifyGraphQL(gql, variables);
+  const result = await callShopifyGraphQL<{ customers: Connection<CustomerSummary> }>(gql, variables);
   
   if (result.errors) {
     return { error: result.errors[0].message || "Error finding customer" };
   }
   
-  if (result.data.customers.edges.length === 0) {
-    return { error: "No customer found with that email." };
-  }
-  
-  const customer = result.data.customers.edges[0].node;
+  const customer = result.data?.customers.edges[0]?.node || null;
   return { 
     customer,
     _graphql: result._graphql 
   };
 }
 
+interface ShopInformation {
+  name: string;
+  email: string;
+  myshopifyDomain: string;
+  plan: { displayName: string };
+  primaryDomain: { url: string };
+  billingAddress: { formatted: string[] };
+}
+
 /**
  * Fetches basic store information from Shopify
  */
@@ -218,25 +334,37 @@ export async function fetchStoreInformation() {
     }
   `;
   
-  const result = await callShopifyGraphQL(gql);
+  const result = await callShopifyGraphQL<{ shop: ShopInformation }>(gql);
   
   if (result.errors) {
     return { error: result.errors[0].message || "Error fetching store information" };
   }
   
   return { 
-    shop: result.data.shop,
+    shop: result.data?.shop,
     _graphql: result._graphql 
   };
 }
 
+interface ProductSummary {
+  id: string;
+  title: string;
+  handle: string;
+  productType: string;
+  vendor: string;
+  status: string;
+  tags: string[];
+  variants: Connection<{ id: string; title: string; sku: string | null; price: string; inventoryQuantity: number | null }>;
+}
+
 /**
  * Searches for products by title, SKU, or product type
+ * Uses Shopify's product search syntax, e.g. "title:*coffee*" or "tag:sale".
  */
-export async function searchProducts({ query }: { query: string }) {
+export async function searchProducts({ query, first = 5 }: { query: string; first?: number }) {
   const gql = `#graphql
-    query ($query: String!) {
-      products(first: 5, query: $query) {
+    query ($query: String!, $first: Int!) {
+      products(first: $first, query: $query) {
         edges {
           node {
             id
@@ -244,6 +372,8 @@ export async function searchProducts({ query }: { query: string }) {
             handle
             productType
             vendor
+            status
+            tags
             variants(first: 5) {
               edges {
                 node {
@@ -261,18 +391,14 @@ export async function searchProducts({ query }: { query: string }) {
     }
   `;
   
-  const variables = { query };
-  const result = await callShopifyGraphQL(gql, variables);
+  const variables = { query, first };
+  const result = await callShopifyGraphQL<{ products: Connection<ProductSummary> }>(gql, variables);
   
   if (result.errors) {
     return { error: result.errors[0].message || "Error searching products" };
   }
   
-  if (result.data.products.edges.length === 0) {
-    return { error: "No products found matching the search criteria." };
-  }
-  
-  const products = result.data.products.edges.map((edge: any) => {
+  const products = (result.data?.products.edges || []).map((edge) => {
     const product = edge.node;
     return {
       id: product.id,
@@ -280,7 +406,9 @@ export async function searchProducts({ query }: { query: string }) {
       handle: product.handle,
       productType: product.productType,
       vendor: product.vendor,
-      variants: product.variants.edges.map((variantEdge: any) => {
+      status: product.status,
+      tags: product.tags,
+      variants: product.variants.edges.map((variantEdge) => {
         const variant = variantEdge.node;
         return {
           id: variant.id,
@@ -299,14 +427,101 @@ export async function searchProducts({ query }: { query: string }) {
   };
 }
 
+interface VariantSummary {
+  id: string;
+  title: string;
+  sku: string | null;
+  price: string;
+  compareAtPrice: string | null;
+  inventoryQuantity: number | null;
+  inventoryItem: { id: string } | null;
+  product: { id: string; title: string };
+}
+
+/**
+ * Finds the variants with exactly this SKU, with their product and inventory item
+ */
+export async function fetchVariantsBySku({ sku }: { sku: string }) {
+  const gql = `#graphql
+    query ($query: String!) {
+      productVariants(first: 10, query: $query) {
+        edges {
+          node {
+            id
+            title
+            sku
+            price
+            compareAtPrice
+            inventoryQuantity
+            inventoryItem { id }
+            product { id title }
+          }
+        }
+      }
+    }
+  `;
+
+  // Quoted so SKUs with spaces or dashes aren't split into search terms
+  const variables = { query: `sku:${JSON.stringify(sku)}` };
+  const result = await callShopifyGraphQL<{ productVariants: Connection<VariantSummary> }>(gql, variables);
+
+  if (result.errors) {
+    return { error: result.errors[0].message || "Error finding variants" };
+  }
+
+  // Shopify's search also matches SKUs that only start with the term
+  const variants = (result.data?.productVariants.edges || [])
+    .map((edge) => edge.node)
+    .filter((variant) => variant.sku === sku)
+    .map((variant) => ({
+      id: variant.id,
+      title: variant.title,
+      sku: variant.sku,
+      price: variant.price,
+      compareAtPrice: variant.compareAtPrice,
+      inventoryQuantity: variant.inventoryQuantity,
+      inventoryItemId: variant.inventoryItem?.id || null,
+      product: variant.product
+    }));
+
+  return {
+    variants,
+    _graphql: result._graphql
+  };
+}
+
+// A lookup that found nothing. An unknown ID fails the same way every time (invalid);
+// a Shopify error may not, and a throttled one is worth trying again later (retryable).
+export interface LookupError {
+  error: string;
+  invalid?: boolean;
+  retryable?: boolean;
+}
+
+/**
+ * The error of a lookup that found nothing, from its GraphQL response
+ */
+export function getLookupError(result: ShopifyGraphQLResponse<unknown>, notFound: string): LookupError {
+  if (result.errors?.length) {
+    return {
+      error: result.errors[0]?.message || "Error fetching from Shopify",
+      retryable: isThrottled(result) || undefined
+    };
+  }
+  return { error: notFound, invalid: true };
+}
+
 /**
  * Execute arbitrary GraphQL query against Shopify Admin API
  */
 export async function executeShopifyQuery(
-  { query, variables = {} }: { query: string; variables?: any }
+  { query, variables = {}, paginate }: { query: string; variables?: Record<string, unknown>; paginate?: PaginateOptions }
 ) {
   try {
-    const result = await callShopifyGraphQL(query, variables);
+    // With paginate, every page of the chosen connection is fetched and merged
+    const result: ShopifyGraphQLResponse & { pagination?: PaginationInfo } = paginate?.path
+      ? await paginateQuery(query, variables, paginate, (pageVariables) => callShopifyGraphQL(query, pageVariables))
+      : await callShopifyGraphQL(query, variables);
     
     if (result.errors && Array.isArray(result.errors) && result.errors.length > 0) {
       // Safely extract error message
@@ -315,27 +530,41 @@ export async function executeShopifyQuery(
       
       return { 
         error: errorMessage,
+        // Still throttled after the client's own retries - worth trying again later
+        retryable: isThrottled(result) || undefined,
         _graphql: result._graphql
       };
     }
     
     return { 
       data: result.data,
+      pagination: result.pagination,
+      deprecations: result.deprecations,
       _graphql: result._graphql
     };
-  } catch (error: any) {
+  } catch (error: unknown) {
     return { 
-      error: error.message || "Error executing GraphQL query"
+      error: (error instanceof Error && error.message) || "Error executing GraphQL query"
     };
   }
 }
 
+// What a mutation returned, or why it failed
+export type MutationResult = {
+  data?: Record<string, unknown>;
+  error?: string;
+  retryable?: boolean;
+  userErrors?: ShopifyUserError[];
+  deprecations?: string[];
+  _graphql?: ShopifyGraphQLResponse["_graphql"];
+};
+
 /**
  * Execute arbitrary GraphQL mutation against Shopify Admin API
  */
 export async function executeShopifyMutation(
-  { mutation, variables = {} }: { mutation: string; variables?: any }
-) {
+  { mutation, variables = {} }: { mutation: string; variables?: Record<string, unknown> }
+): Promise<MutationResult> {
   try {
     const result = await callShopifyGraphQL(mutation, variables);
     
@@ -346,102 +575,31 @@ export async function executeShopifyMutation(
       
       return { 
         error: errorMessage,
+        // Still throttled after the client's own retries - worth trying again later
+        retryable: isThrottled(result) || undefined,
+        _graphql: result._graphql
+      };
+    }
+    
+    // Shopify refused the input; the mutation made no change, or only part of it
+    const userErrors = findUserErrors(result.data);
+    if (userErrors.length > 0) {
+      return {
+        error: `Shopify rejected the mutation: ${formatUserErrors(userErrors)}`,
+        userErrors,
+        deprecations: result.deprecations,
         _graphql: result._graphql
       };
     }
     
     return { 
       data: result.data,
+      deprecations: result.deprecations,
       _graphql: result._graphql
     };
-  } catch (error: any) {
+  } catch (error: unknown) {
     return { 
-      error: error.message || "Error executing GraphQL mutation"
+      error: (error instanceof Error && error.message) || "Error executing GraphQL mutation"
     };
   }
 }
-
-/**
- * Introspect the Shopify GraphQL schema
- * This allows the assistant to query for type information
- */
-export async function introspectShopifySchema(options: { type?: string, field?: string } = {}) {
-  try {
-    // For specific type requests, use a focused query just for that type
-    if (options.type) {
-      // Query just for the specific type
-      const typeQuery = `
-        query {
-          __type(name: "${options.type}") {
-            name
-            kind
-            description
-            fields {
-              name
-              description
-              type {
-                name
-                kind
-                ofType {
-                  name
-                  kind
-                }
-              }
-              args {
-                name
-                description
-              }
-            }
-            inputFields {
-              name
-              description
-            }
-          }
-        }
-      `;
-      
-      const result = await callShopifyGraphQL(typeQuery);
-      if (result.errors && Array.isArray(result.errors) && result.errors.length > 0) {
-        const errorMessage = result.errors[0]?.message || "Error fetching type";
-        return { error: errorMessage };
-      }
-      
-      const typeInfo = result.data?.__type;
-      if (!typeInfo) {
-        return { error: `Type "${options.type}" not found in schema` };
-      }
-      
-      // If a field name is provided, extract just that field
-      if (options.field && typeInfo.fields) {
-        const field = typeInfo.fields.find((f: any) => f.name === options.field);
-        if (!field) {
-          return { error: `Field "${options.field}" not found on type "${options.type}"` };
-        }
-        return { data: { field } };
-      }
-      
-      return { data: { type: typeInfo } };
-    }
-    
-    // For general schema requests, return a limited set of common types
-    return {
-      data: {
-        commonTypes: [
-          "Product", "ProductVariant", "Order", "Customer", 
-          "Shop", "Collection", "Metafield", "Money"
-        ].map(typeName => ({
-          name: typeName,
-          usage: `Query this type directly with introspect_schema({ type: "${typeName}" })`
-        })),
-        queryExample: "To see available query fields, use introspect_schema({ type: 'QueryRoot' })",
-        mutationExample: "To see available mutation fields, use introspect_schema({ type: 'MutationRoot' })"
-      }
-    };
-  } catch (error: any) {
-    const errorMessage = error ? 
-      (typeof error.message === 'string' ? error.message : String(error)) : 
-      "Unknown error occurred";
-    
-    return { error: errorMessage };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * Registry of the Shopify stores the assistant can work on
+ * Stores come from SHOPIFY_STORES, a JSON array of
+ * { "id", "name", "domain", "accessToken", "apiVersion" }, or from the single
+ * SHOPIFY_STORE_DOMAIN/SHOPIFY_ADMIN_TOKEN pair, followed by the shops that
+ * installed the app through OAuth (see shopify-oauth.server). Installed shops
+ * carry no token here; callShopifyGraphQL looks it up when it sends a request.
+ *
+ * The store being worked on is carried in an AsyncLocalStorage context, so
+ * every Shopify call made while handling a chat message (tools, plans, undo,
+ * bulk operation checks) goes to that chat's store.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { listInstalledShops } from "./shop-tokens.server";
+
+export interface ShopifyStore {
+  id: string;
+  name: string;
+  domain: string;
+  // Only set for stores configured in the environment
+  accessToken?: string;
+  // Admin API version to call, when the store doesn't use DEFAULT_API_VERSION
+  apiVersion?: string;
+}
+
+// What the UI is allowed to see about a store
+export type StoreSummary = Omit<ShopifyStore, "accessToken">;
+
+// Admin API version for stores that don't set their own
+export const DEFAULT_API_VERSION = process.env.SHOPIFY_API_VERSION || "2025-01";
+
+/**
+ * Whether a value is an Admin API version name, e.g. 2025-04 or unstable
+ */
+export function isApiVersion(value: unknown): value is string {
+  return typeof value === "string" && /^(\d{4}-(01|04|07|10)|unstable)$/.test(value);
+}
+
+const storeContext = new AsyncLocalStorage<ShopifyStore>();
+
+// Parsed once; the environment doesn't change while the server runs
+let envStores: ShopifyStore[] | null = null;
+
+function loadEnvStores(): ShopifyStore[] {
+  const configured = process.env.SHOPIFY_STORES;
+  if (configured) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(configured);
+    } catch (error) {
+      throw new Error(`SHOPIFY_STORES is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("SHOPIFY_STORES must be a JSON array of stores");
+    }
+
+    return parsed.map((store, index) => {
+      if (!store?.domain || !store?.accessToken) {
+        throw new Error(`Store ${index + 1} in SHOPIFY_STORES needs a domain and an accessToken`);
+      }
+      if (store.apiVersion !== undefined && !isApiVersion(store.apiVersion)) {
+        throw new Error(`Store ${index + 1} in SHOPIFY_STORES has an invalid apiVersion "${store.apiVersion}"`);
+      }
+      return {
+        id: String(store.id || store.domain),
+        name: String(store.name || store.domain),
+        domain: String(store.domain),
+        accessToken: String(store.accessToken),
+        apiVersion: store.apiVersion
+      };
+    });
+  }
+
+  const domain = process.env.SHOPIFY_STORE_DOMAIN;
+  const accessToken = process.env.SHOPIFY_ADMIN_TOKEN;
+  if (!domain || !accessToken) {
+    return [];
+  }
+  return [{ id: "default", name: process.env.SHOPIFY_STORE_NAME || domain, domain, accessToken }];
+}
+
+export function listStores(): ShopifyStore[] {
+  if (!envStores) {
+    envStores = loadEnvStores();
+  }
+
+  // Installed shops are read on every call so new installs show up without a restart
+  const configured = envStores;
+  const installed = listInstalledShops()
+    .filter((shop) => !configured.some((store) => store.domain === shop.domain))
+    .map(({ domain, name, apiVersion }) => ({ id: domain, name, domain, apiVersion: apiVersion || undefined }));
+  return [...configured, ...installed];
+}
+
+export function getStore(id: string | null | undefined): ShopifyStore | null {
+  return listStores().find((store) => store.id === id) || null;
+}
+
+// The first configured store, used for chats that haven't picked one
+export function getDefaultStore(): ShopifyStore | null {
+  return listStores()[0] || null;
+}
+
+/**
+ * The store a saved record (pending mutation, change, bulk operation) belongs to
+ * Records from before stores were tracked belong to the default store. Returns
+ * null if the record's store is no longer configured, so nothing is sent to the wrong store.
+ */
+export function getRecordStore(storeId: string | undefined): ShopifyStore | null {
+  return storeId === undefined ? getDefaultStore() : getStore(storeId);
+}
+
+export function toStoreSummary({ id, name, domain, apiVersion }: ShopifyStore): StoreSummary {
+  return { id, name, domain, apiVersion: getApiVersion({ id, name, domain, apiVersion }) };
+}
+
+/**
+ * Run a piece of work with every Shopify call it makes sent to the given store
+ */
+export function runWithStore<T>(store: ShopifyStore | null, work: () => Promise<T>): Promise<T> {
+  return store ? storeContext.run(store, work) : work();
+}
+
+/**
+ * The store Shopify calls should go to right now: the one set by runWithStore, or the default store
+ */
+export function getCurrentStore(): ShopifyStore | null {
+  return storeContext.getStore() || getDefaultStore();
+}
+
+/**
+ * The Admin API version calls to a store use (by default, the current store's)
+ */
+export function getApiVersion(store: ShopifyStore | null = getCurrentStore()): string {
+  return store?.apiVersion || DEFAULT_API_VERSION;
+}
@@ -0,0 +1,196 @@
+/**
+ * Reading the arguments of a model's tool call
+ * Arguments are parsed as strict JSON first. Only if that fails, a repair pass
+ * fixes the mistakes models commonly make (code fences, trailing commas,
+ * single quotes, unquoted keys, raw line breaks and unescaped quotes in
+ * strings, Python literals). The text is rewritten character by character and
+ * never evaluated. Whatever still doesn't parse, or doesn't match the tool's
+ * parameters, comes back as a precise error so the model can re-send the call.
+ */
+import { validateJsonSchema, type JsonSchema } from "./json-schema.server";
+
+export type ToolArguments = Record<string, unknown>;
+
+export interface ParsedToolArguments {
+  args: ToolArguments | null;
+  error?: string;
+  // What the repair pass changed, when strict parsing failed
+  repairs?: string[];
+}
+
+// The part of a tool definition arguments are checked against
+interface ToolDefinition {
+  function: { name: string; parameters?: unknown };
+}
+
+const PYTHON_LITERALS: Record<string, string> = { True: "true", False: "false", None: "null" };
+
+// Characters that can follow the closing quote of a JSON string
+const AFTER_STRING = /^\s*([,:}\]]|$)/;
+
+// Characters that may follow a backslash in a JSON string
+const JSON_ESCAPES = "\"\\/bfnrtu";
+
+/**
+ * Rewrite almost-JSON into JSON without evaluating it
+ */
+function repairJson(text: string): { text: string; repairs: string[] } {
+  const repairs = new Set<string>();
+  let source = text.trim();
+
+  const fence = source.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fence) {
+    source = fence[1];
+    repairs.add("removed a code fence");
+  }
+
+  let out = "";
+  // The quote character of the string being read, if any
+  let quote: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === "\\") {
+        const next = source[i + 1] ?? "";
+        if (JSON_ESCAPES.includes(next) && next !== "") {
+          out += char + next;
+        } else if (next === "'") {
+          out += "'";
+          repairs.add("removed backslashes before single quotes");
+        } else {
+          out += "\\\\" + next;
+          repairs.add("escaped stray backslashes");
+        }
+        i++;
+      } else if (char === quote && (quote === "'" || AFTER_STRING.test(source.slice(i + 1)))) {
+        out += '"';
+        quote = null;
+      } else if (char === '"') {
+        // A double quote inside the string, e.g. query: "tag:sale" inside a GraphQL document
+        out += '\\"';
+        if (quote === '"') repairs.add("escaped quotes inside strings");
+      } else if (char === "\n" || char === "\r" || char === "\t") {
+        out += char === "\n" ? "\\n" : char === "\r" ? "\\r" : "\\t";
+        repairs.add("escaped line breaks and tabs inside strings");
+      } else {
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      if (char === "'") repairs.add("replaced single quotes with double quotes");
+      quote = char;
+      out += '"';
+    } else if (char === "," && /^\s*[}\]]/.test(source.slice(i + 1))) {
+      repairs.add("removed trailing commas");
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = source.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      if (/[{,]\s*$/.test(out) && /^\s*:/.test(source.slice(i + word.length))) {
+        out += `"${word}"`;
+        repairs.add("quoted unquoted keys");
+      } else if (PYTHON_LITERALS[word]) {
+        out += PYTHON_LITERALS[word];
+        repairs.add("replaced Python literals");
+      } else {
+        out += word;
+      }
+      i += word.length - 1;
+    } else {
+      out += char;
+    }
+  }
+
+  return { text: out, repairs: Array.from(repairs) };
+}
+
+/**
+ * Describe a JSON.parse error by line, column and the text around it
+ */
+function describeParseError(text: string, error: unknown): string {
+  const message = (error instanceof Error ? error.message : String(error))
+    .replace(/ in JSON at position \d+.*$/, "")
+    .replace(/^JSON\.parse: /, "");
+  const position = Number((error instanceof Error ? error.message : "").match(/at position (\d+)/)?.[1]);
+  if (!Number.isFinite(position)) {
+    return message;
+  }
+
+  const before = text.slice(0, position);
+  const line = before.split("\n").length;
+  const column = position - before.lastIndexOf("\n");
+  const snippet = text.slice(Math.max(0, position - 30), position + 30).replace(/\s+/g, " ");
+  return `${message} (line ${line}, column ${column}, near ${JSON.stringify(snippet)})`;
+}
+
+/**
+ * Parse tool call arguments, repairing common mistakes if strict JSON fails
+ */
+export function parseToolArguments(text: string | null | undefined): ParsedToolArguments {
+  if (!text || !text.trim()) {
+    return { args: {} };
+  }
+
+  let value: unknown;
+  let repairs: string[] | undefined;
+  try {
+    value = JSON.parse(text);
+  } catch (strictError) {
+    const repaired = repairJson(text);
+    try {
+      value = JSON.parse(repaired.text);
+      repairs = repaired.repairs;
+    } catch {
+      // Report the problem in what the model actually sent
+      return { args: null, error: describeParseError(text, strictError) };
+    }
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { args: null, error: `Expected a JSON object, got ${Array.isArray(value) ? "an array" : JSON.stringify(value)}` };
+  }
+  return { args: value as ToolArguments, repairs };
+}
+
+// Models often send null for optional parameters they mean to leave out
+function dropNullOptionals(parameters: JsonSchema, args: ToolArguments): ToolArguments {
+  for (const [key, value] of Object.entries(args)) {
+    const type = parameters.properties?.[key]?.type;
+    const allowsNull = Array.isArray(type) ? type.includes("null") : type === "null";
+    if (value === null && !allowsNull && !parameters.required?.includes(key)) {
+      delete args[key];
+    }
+  }
+  return args;
+}
+
+/**
+ * Parse a tool call's arguments and check them against the tool's parameters
+ * Returns the arguments, or an error result for the model telling it what to fix.
+ */
+export function readToolCallArguments(name: string, text: string | null | undefined, tools: ToolDefinition[]) {
+  const parsed = parseToolArguments(text);
+  if (!parsed.args) {
+    return {
+      args: {} as ToolArguments,
+      error: `The arguments for ${name} are not valid JSON: ${parsed.error}. Send the call again with the arguments as one JSON object.`
+    };
+  }
+  if (parsed.repairs?.length) {
+    console.warn(`Repaired the arguments for ${name}: ${parsed.repairs.join(", ")}`);
+  }
+
+  const tool = tools.find((candidate) => candidate.function.name === name);
+  const parameters = tool?.function.parameters as JsonSchema | undefined;
+  const problems = parameters ? validateJsonSchema(parameters, dropNullOptionals(parameters, parsed.args)) : [];
+  if (problems.length > 0) {
+    return {
+      args: parsed.args,
+      error: `The arguments for ${name} don't match its parameters: ${problems.join("; ")}. Send the call again with corrected arguments.`
+    };
+  }
+
+  return { args: parsed.args };
+}
@@ -0,0 +1,702 @@
+/**
+ * Typed tools for common store tasks
+ * Each tool has a JSON schema for its arguments and for its output, so the
+ * model gets a short, predictable result instead of writing GraphQL for
+ * everyday work. execute_query and execute_mutation stay available for
+ * everything the typed tools don't cover.
+ *
+ * Mutation tools are compiled to a GraphQL mutation and then go through the
+ * same steps as execute_mutation: the role's allowlist, schema validation,
+ * approval and change tracking for undo.
+ */
+import {
+  callShopifyGraphQL,
+  fetchCustomerByEmail,
+  fetchOrdersFromShopify,
+  fetchStoreInformation,
+  fetchVariantsBySku,
+  getLookupError,
+  searchProducts,
+  type LookupError,
+  type ShopifyGraphQLResponse
+} from "./shopify.server";
+import { validateJsonSchema, type JsonSchema } from "./json-schema.server";
+import {
+  fetchInventoryLevels,
+  INVENTORY_REASONS,
+  prepareInventoryChange,
+  readInventoryChanges,
+  resolveInventoryItemId,
+  type InventoryChangePayload,
+  type InventoryChangeRequest,
+  type InventoryLevelChange
+} from "./inventory.server";
+import { checkToolPermission, type Permissions } from "./permissions.server";
+import { validateToolCall } from "./graphql-validation.server";
+import { executeTrackedMutation, type ChangeRecord } from "./change-history.server";
+import type { StepResult } from "./operation-executor.server";
+import type { ShopifyUserError } from "./user-errors.server";
+import {
+  createPendingMutation,
+  getPendingMutationToolResult,
+  isMutationApprovalRequired,
+  type PendingMutation
+} from "./mutation-approval.server";
+
+// A GraphQL mutation a mutation tool compiles to
+interface CompiledMutation {
+  mutation: string;
+  variables: Record<string, unknown>;
+  // What the mutation is expected to change, shown with the approval request
+  planned?: unknown;
+}
+
+interface QueryToolResult {
+  output?: unknown;
+  error?: string;
+  _graphql?: ShopifyGraphQLResponse["_graphql"];
+}
+
+interface BaseTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  output: JsonSchema;
+}
+
+// run, build and parse are methods so each tool can declare the arguments its parameters
+// guarantee and the payload its mutation selects
+export interface QueryTool extends BaseTool {
+  kind: "query";
+  run(args: unknown): Promise<QueryToolResult>;
+}
+
+export interface MutationTool extends BaseTool {
+  kind: "mutation";
+  // The mutation root field it runs, checked against the role's allowlist
+  mutationField: string;
+  build(args: unknown): Promise<CompiledMutation | LookupError>;
+  parse(payload: unknown, compiled: CompiledMutation): unknown;
+}
+
+export type TypedTool = QueryTool | MutationTool;
+
+// A mutation's payload as a tool selects it, or null if Shopify returned none
+type Payload<T> = (T & { userErrors: ShopifyUserError[] }) | null | undefined;
+
+// What running a tool produced, for the caller to record
+export interface TypedToolOutcome {
+  result: StepResult;
+  pendingMutation?: PendingMutation;
+  changeRecord?: ChangeRecord;
+}
+
+// Schema building blocks
+const nullable = (schema: JsonSchema): JsonSchema => ({
+  ...schema,
+  type: [...(Array.isArray(schema.type) ? schema.type : [schema.type!]), "null"]
+});
+const gid = (type: string, description: string): JsonSchema => ({
+  type: "string",
+  pattern: `^gid://shopify/${type}/\\d+$`,
+  description
+});
+const money: JsonSchema = { type: "string", pattern: "^\\d+(\\.\\d{1,2})?$", description: "Amount as a decimal string, e.g. \"19.99\"" };
+const userErrors: JsonSchema = {
+  type: "array",
+  description: "Problems Shopify found with the input; empty when the change was made",
+  items: {
+    type: "object",
+    properties: { field: nullable({ type: "array", items: { type: "string" } }), message: { type: "string" } },
+    required: ["message"]
+  }
+};
+const variantOutput: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    sku: nullable({ type: "string" }),
+    price: { type: "string" },
+    inventoryQuantity: nullable({ type: "integer" })
+  },
+  required: ["id", "price"]
+};
+
+const VARIANT_PRODUCT_QUERY = `#graphql
+  query VariantProduct($id: ID!) {
+    productVariant(id: $id) { id product { id } }
+  }
+`;
+
+// The product of a variant, which productVariantsBulkUpdate needs
+async function lookUpProductId(variantId: string): Promise<{ productId: string } | LookupError> {
+  const result = await callShopifyGraphQL<{ productVariant: { id: string; product: { id: string } } | null }>(
+    VARIANT_PRODUCT_QUERY,
+    { id: variantId }
+  );
+  const variant = result.data?.productVariant;
+  if (result.errors?.length || !variant) {
+    return getLookupError(result, `Variant ${variantId} not found`);
+  }
+  return { productId: variant.product.id };
+}
+
+const variantOrInventoryItemId: JsonSchema = {
+  type: "string",
+  pattern: "^gid://shopify/(ProductVariant|InventoryItem)/\\d+$",
+  description: "A variant ID (gid://shopify/ProductVariant/...) or its inventory item ID (gid://shopify/InventoryItem/...)"
+};
+
+const taggableId = gid("(Product|Order|Customer|DraftOrder|Article)", "ID of the product, order, customer, draft order or article");
+
+function tagsTool(name: string, mutationField: "tagsAdd" | "tagsRemove", description: string): MutationTool {
+  return {
+    name,
+    kind: "mutation",
+    mutationField,
+    description,
+    parameters: {
+      type: "object",
+      properties: {
+        id: taggableId,
+        tags: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1, description: "The tags" }
+      },
+      required: ["id", "tags"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: { id: nullable({ type: "string" }), userErrors },
+      required: ["userErrors"]
+    },
+    build: async ({ id, tags }: { id: string; tags: string[] }) => ({
+      mutation: `mutation ${mutationField === "tagsAdd" ? "AddTags" : "RemoveTags"}($id: ID!, $tags: [String!]!) {
+  ${mutationField}(id: $id, tags: $tags) {
+    node { id }
+    userErrors { field message }
+  }
+}`,
+      variables: { id, tags }
+    }),
+    parse: (payload: Payload<{ node: { id: string } | null }>) => ({
+      id: payload?.node?.id ?? null,
+      userErrors: payload?.userErrors || []
+    })
+  };
+}
+
+const inventoryLevelChange: JsonSchema = {
+  type: "object",
+  properties: {
+    locationId: { type: "string" },
+    locationName: nullable({ type: "string" }),
+    name: { type: "string" },
+    before: nullable({ type: "integer" }),
+    after: nullable({ type: "integer" }),
+    delta: { type: "integer" }
+  },
+  required: ["locationId", "name", "before", "after", "delta"]
+};
+
+function inventoryTool(name: string, mode: "set" | "adjust", description: string): MutationTool {
+  const amount: JsonSchema = mode === "set"
+    ? { type: "integer", description: "The new quantity" }
+    : { type: "integer", description: "How much to add (positive) or remove (negative)" };
+
+  return {
+    name,
+    kind: "mutation",
+    mutationField: mode === "set" ? "inventorySetQuantities" : "inventoryAdjustQuantities",
+    description,
+    parameters: {
+      type: "object",
+      properties: {
+        id: variantOrInventoryItemId,
+        levels: {
+          type: "array",
+          minItems: 1,
+          description: "One entry per location",
+          items: {
+            type: "object",
+            properties: {
+              location: { type: "string", minLength: 1, description: "Location name (e.g. 'Main warehouse') or ID" },
+              [mode === "set" ? "quantity" : "delta"]: amount
+            },
+            required: ["location", mode === "set" ? "quantity" : "delta"],
+            additionalProperties: false
+          }
+        },
+        reason: { type: "string", enum: INVENTORY_REASONS, description: "Optional. Why the quantity changed (default correction)" },
+        referenceDocumentUri: {
+          type: "string",
+          description: "Optional. URI of what caused the change, e.g. a purchase order or stocktake URL"
+        },
+        ...(mode === "set" ? {
+          name: { type: "string", enum: ["available", "on_hand"], description: "Optional. Which quantity to set (default available)" }
+        } : {})
+      },
+      required: ["id", "levels"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: { changes: { type: "array", items: inventoryLevelChange }, userErrors },
+      required: ["changes", "userErrors"]
+    },
+    build: (args: Omit<InventoryChangeRequest, "mode">) => prepareInventoryChange({ ...args, mode }),
+    parse: (payload: Payload<InventoryChangePayload>, compiled: CompiledMutation) => ({
+      changes: readInventoryChanges(payload, compiled.planned as InventoryLevelChange[]),
+      userErrors: payload?.userErrors || []
+    })
+  };
+}
+
+export const TYPED_TOOLS: TypedTool[] = [
+  {
+    name: "search_products",
+    kind: "query",
+    description: "Search products by title, SKU, vendor, type or tag using Shopify's search syntax, e.g. 'title:*coffee*', 'sku:ABC-1' or 'tag:sale'. Returns up to 5 variants per product.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", minLength: 1, description: "Shopify product search query" },
+        first: { type: "integer", minimum: 1, maximum: 50, description: "Optional. How many products to return (default 5)" }
+      },
+      required: ["query"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        products: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              title: { type: "string" },
+              handle: { type: "string" },
+              status: { type: "string" },
+              tags: { type: "array", items: { type: "string" } },
+              variants: { type: "array", items: variantOutput }
+            },
+            required: ["id", "title", "variants"]
+          }
+        }
+      },
+      required: ["products"]
+    },
+    run: async (args: Parameters<typeof searchProducts>[0]) => {
+      const { products, error, _graphql } = await searchProducts(args);
+      return { output: { products }, error, _graphql };
+    }
+  },
+  {
+    name: "get_variant_by_sku",
+    kind: "query",
+    description: "Find the product variants with exactly this SKU, with their price, stock, inventory item ID and product.",
+    parameters: {
+      type: "object",
+      properties: { sku: { type: "string", minLength: 1, description: "The exact SKU" } },
+      required: ["sku"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        variants: {
+          type: "array",
+          items: {
+            ...variantOutput,
+            properties: {
+              ...variantOutput.properties,
+              compareAtPrice: nullable({ type: "string" }),
+              inventoryItemId: nullable({ type: "string" }),
+              product: { type: "object", properties: { id: { type: "string" }, title: { type: "string" } }, required: ["id"] }
+            },
+            required: ["id", "price", "product"]
+          }
+        }
+      },
+      required: ["variants"]
+    },
+    run: async (args: Parameters<typeof fetchVariantsBySku>[0]) => {
+      const { variants, error, _graphql } = await fetchVariantsBySku(args);
+      return { output: { variants }, error, _graphql };
+    }
+  },
+  {
+    name: "get_recent_orders",
+    kind: "query",
+    description: "List the most recent orders, optionally by fulfillment status or updated since a date.",
+    parameters: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["shipped", "partial", "unshipped", "unfulfilled"], description: "Optional. Fulfillment status" },
+        since: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}", description: "Optional. Only orders updated on or after this ISO date" },
+        first: { type: "integer", minimum: 1, maximum: 50, description: "Optional. How many orders (default 5)" }
+      },
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        orders: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              name: { type: "string" },
+              displayFinancialStatus: nullable({ type: "string" }),
+              displayFulfillmentStatus: { type: "string" },
+              createdAt: { type: "string" }
+            },
+            required: ["id", "name", "createdAt"]
+          }
+        }
+      },
+      required: ["orders"]
+    },
+    run: async (args: Parameters<typeof fetchOrdersFromShopify>[0]) => {
+      const { orders, error, _graphql } = await fetchOrdersFromShopify(args);
+      return { output: { orders }, error, _graphql };
+    }
+  },
+  {
+    name: "find_customer_by_email",
+    kind: "query",
+    description: "Find a customer by email address, with their last 3 orders. Returns customer: null if there is none.",
+    parameters: {
+      type: "object",
+      properties: { email: { type: "string", pattern: "^[^@\\s]+@[^@\\s]+$", description: "The customer's email" } },
+      required: ["email"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        customer: nullable({
+          type: "object",
+          properties: { id: { type: "string" }, email: nullable({ type: "string" }), orders: { type: "object" } },
+          required: ["id"]
+        })
+      },
+      required: ["customer"]
+    },
+    run: async (args: Parameters<typeof fetchCustomerByEmail>[0]) => {
+      const { customer, error, _graphql } = await fetchCustomerByEmail(args);
+      return { output: { customer }, error, _graphql };
+    }
+  },
+  {
+    name: "get_shop_info",
+    kind: "query",
+    description: "Get the store's name, email, domains, plan and billing address.",
+    parameters: { type: "object", properties: {}, additionalProperties: false },
+    output: {
+      type: "object",
+      properties: {
+        shop: {
+          type: "object",
+          properties: { name: { type: "string" }, myshopifyDomain: { type: "string" } },
+          required: ["name", "myshopifyDomain"]
+        }
+      },
+      required: ["shop"]
+    },
+    run: async () => {
+      const { shop, error, _graphql } = await fetchStoreInformation();
+      return { output: { shop }, error, _graphql };
+    }
+  },
+  {
+    name: "update_variant_price",
+    kind: "mutation",
+    mutationField: "productVariantsBulkUpdate",
+    description: "Set the price, and optionally the compare-at price, of a product variant.",
+    parameters: {
+      type: "object",
+      properties: {
+        variantId: gid("ProductVariant", "The variant ID"),
+        price: money,
+        compareAtPrice: nullable({ ...money, description: "Optional. Compare-at price, or null to remove it" })
+      },
+      required: ["variantId", "price"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        variants: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { id: { type: "string" }, price: { type: "string" }, compareAtPrice: nullable({ type: "string" }) },
+            required: ["id", "price"]
+          }
+        },
+        userErrors
+      },
+      required: ["variants", "userErrors"]
+    },
+    build: async (
+      { variantId, price, compareAtPrice }: { variantId: string; price: string; compareAtPrice?: string | null }
+    ) => {
+      const variant = await lookUpProductId(variantId);
+      if ("error" in variant) return variant;
+      return {
+        mutation: `mutation UpdateVariantPrice($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+  productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+    productVariants { id price compareAtPrice }
+    userErrors { field message }
+  }
+}`,
+        variables: {
+          productId: variant.productId,
+          variants: [{ id: variantId, price, ...(compareAtPrice !== undefined ? { compareAtPrice } : {}) }]
+        }
+      };
+    },
+    parse: (payload: Payload<{ productVariants: { id: string; price: string; compareAtPrice: string | null }[] | null }>) => ({
+      variants: payload?.productVariants || [],
+      userErrors: payload?.userErrors || []
+    })
+  },
+  {
+    name: "set_inventory_cost",
+    kind: "mutation",
+    mutationField: "inventoryItemUpdate",
+    description: "Set the unit cost of a variant's inventory item.",
+    parameters: {
+      type: "object",
+      properties: { id: variantOrInventoryItemId, cost: money },
+      required: ["id", "cost"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        inventoryItem: nullable({
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            unitCost: nullable({ type: "object", properties: { amount: { type: "string" }, currencyCode: { type: "string" } } })
+          },
+          required: ["id"]
+        }),
+        userErrors
+      },
+      required: ["inventoryItem", "userErrors"]
+    },
+    build: async ({ id, cost }: { id: string; cost: string }) => {
+      const item = await resolveInventoryItemId(id);
+      if ("error" in item) return item;
+      return {
+        mutation: `mutation SetInventoryCost($id: ID!, $input: InventoryItemInput!) {
+  inventoryItemUpdate(id: $id, input: $input) {
+    inventoryItem { id unitCost { amount currencyCode } }
+    userErrors { field message }
+  }
+}`,
+        variables: { id: item.inventoryItemId, input: { cost } }
+      };
+    },
+    parse: (payload: Payload<{ inventoryItem: { id: string; unitCost: { amount: string; currencyCode: string } | null } | null }>) => ({
+      inventoryItem: payload?.inventoryItem ?? null,
+      userErrors: payload?.userErrors || []
+    })
+  },
+  tagsTool("add_tags", "tagsAdd", "Add tags to a product, order, customer, draft order or article, keeping its existing tags."),
+  tagsTool("remove_tags", "tagsRemove", "Remove tags from a product, order, customer, draft order or article."),
+  {
+    name: "set_metafield",
+    kind: "mutation",
+    mutationField: "metafieldsSet",
+    description: "Create or update one metafield on a resource, e.g. a product's custom.sale_end_date.",
+    parameters: {
+      type: "object",
+      properties: {
+        ownerId: { type: "string", pattern: "^gid://shopify/\\w+/\\d+$", description: "ID of the resource that owns the metafield" },
+        namespace: { type: "string", minLength: 1, description: "Metafield namespace, e.g. 'custom'" },
+        key: { type: "string", minLength: 1, description: "Metafield key" },
+        type: { type: "string", minLength: 1, description: "Metafield type, e.g. 'single_line_text_field', 'date_time', 'number_integer'" },
+        value: { type: "string", description: "The value as a string, JSON-encoded for list and JSON types" }
+      },
+      required: ["ownerId", "namespace", "key", "type", "value"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        metafields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              namespace: { type: "string" },
+              key: { type: "string" },
+              type: { type: "string" },
+              value: { type: "string" }
+            },
+            required: ["id", "namespace", "key", "value"]
+          }
+        },
+        userErrors
+      },
+      required: ["metafields", "userErrors"]
+    },
+    build: async (metafield: { ownerId: string; namespace: string; key: string; type: string; value: string }) => ({
+      mutation: `mutation SetMetafield($metafields: [MetafieldsSetInput!]!) {
+  metafieldsSet(metafields: $metafields) {
+    metafields { id namespace key type value }
+    userErrors { field message }
+  }
+}`,
+      variables: { metafields: [metafield] }
+    }),
+    parse: (payload: Payload<{ metafields: { id: string; namespace: string; key: string; type: string; value: string }[] | null }>) => ({
+      metafields: payload?.metafields || [],
+      userErrors: payload?.userErrors || []
+    })
+  },
+  {
+    name: "get_inventory_levels",
+    kind: "query",
+    description: "Get the available, on hand, committed and incoming quantities of a variant at every location it is stocked at.",
+    parameters: {
+      type: "object",
+      properties: { id: variantOrInventoryItemId },
+      required: ["id"],
+      additionalProperties: false
+    },
+    output: {
+      type: "object",
+      properties: {
+        inventoryItemId: { type: "string" },
+        sku: nullable({ type: "string" }),
+        tracked: { type: "boolean" },
+        levels: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { locationId: { type: "string" }, locationName: { type: "string" }, available: { type: "integer" }, on_hand: { type: "integer" } },
+            required: ["locationId", "locationName"]
+          }
+        }
+      },
+      required: ["inventoryItemId", "levels"]
+    },
+    run: async ({ id }: { id: string }) => {
+      const inventory = await fetchInventoryLevels(id);
+      if ("error" in inventory) {
+        return { error: inventory.error };
+      }
+      const { _graphql, ...output } = inventory;
+      return { output, _graphql };
+    }
+  },
+  inventoryTool("adjust_inventory", "adjust", "Change a variant's available quantity by a positive or negative amount at one or more locations."),
+  inventoryTool("set_inventory_quantity", "set", "Set a variant's available (or on hand) quantity to an exact number at one or more locations. Refused if the stock changed since it was read, so the update never overwrites a sale.")
+];
+
+export function getTypedTool(name: string): TypedTool | undefined {
+  return TYPED_TOOLS.find((tool) => tool.name === name);
+}
+
+export function isTypedMutationTool(name: string): boolean {
+  return getTypedTool(name)?.kind === "mutation";
+}
+
+/**
+ * The typed tools a role may use, as function definitions for the model
+ * Mutation tools are left out unless the role may run their mutation.
+ */
+export function getTypedToolDefinitions(permissions: Permissions) {
+  return TYPED_TOOLS
+    .filter((tool) => tool.kind === "query" || permissions.allowedMutations === null ||
+      permissions.allowedMutations.includes(tool.mutationField))
+    .map((tool) => ({
+      type: "function" as const,
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters as Record<string, unknown> }
+    }));
+}
+
+// Check a tool's output against its schema, so the model never gets a shape the description doesn't promise.
+// A mutation has already been applied by then, so its data comes back with a warning instead of an
+// error, which would have the change retried.
+function checkOutput(tool: TypedTool, output: unknown, extra: Record<string, unknown>) {
+  const problems = validateJsonSchema(tool.output, output);
+  if (problems.length > 0) {
+    console.error(`${tool.name} returned output that doesn't match its schema:`, problems);
+    const mismatch = `${tool.name} got an unexpected response from Shopify: ${problems.slice(0, 3).join("; ")}`;
+    return tool.kind === "mutation"
+      ? { data: output, warning: `${mismatch}. The change was made; check the result before relying on it.`, ...extra }
+      : { error: mismatch, ...extra };
+  }
+  return { data: output, ...extra };
+}
+
+/**
+ * Run a typed tool call
+ * Arguments are checked against the tool's schema first; mutations are refused,
+ * parked for approval or tracked for undo exactly like execute_mutation.
+ */
+export async function runTypedTool(
+  name: string,
+  args: unknown,
+  { callId, permissions, requireApproval = isMutationApprovalRequired() }: { callId: string; permissions: Permissions; requireApproval?: boolean }
+): Promise<TypedToolOutcome> {
+  const tool = getTypedTool(name);
+  if (!tool) {
+    return { result: { error: `Unknown function: ${name}` } };
+  }
+
+  const argumentErrors = validateJsonSchema(tool.parameters, args ?? {});
+  if (argumentErrors.length > 0) {
+    return { result: { error: `Invalid arguments for ${name}: ${argumentErrors.join("; ")}`, invalid: true } };
+  }
+
+  if (tool.kind === "query") {
+    const { output, error, _graphql } = await tool.run(args ?? {});
+    return { result: error ? { error, _graphql } : checkOutput(tool, output, { _graphql }) };
+  }
+
+  // A lookup while building (the variant's product, locations) that found nothing fails the same
+  // way every time. A Shopify failure may not, and the mutation wasn't sent, so the step can run again.
+  let compiled: CompiledMutation | LookupError;
+  try {
+    compiled = await tool.build(args);
+  } catch (error) {
+    compiled = { error: error instanceof Error ? error.message : String(error) };
+  }
+  if ("error" in compiled) {
+    const { error, invalid, retryable } = compiled;
+    return { result: invalid ? { error, invalid } : { error, retryable, notSent: true } };
+  }
+
+  const refused = checkToolPermission(permissions, "execute_mutation", compiled) ||
+    await validateToolCall("execute_mutation", compiled);
+  if (refused) {
+    return { result: refused };
+  }
+
+  if (requireApproval) {
+    const pendingMutation = createPendingMutation(compiled, callId);
+    return { result: { ...getPendingMutationToolResult(pendingMutation), planned: compiled.planned }, pendingMutation };
+  }
+
+  const { result, changeRecord } = await executeTrackedMutation(compiled);
+  if (result.error) {
+    return { result, changeRecord: changeRecord ?? undefined };
+  }
+  return {
+    result: checkOutput(tool, tool.parse(result.data?.[tool.mutationField], compiled), {
+      deprecations: result.deprecations,
+      _graphql: result._graphql
+    }),
+    changeRecord: changeRecord ?? undefined
+  };
+}
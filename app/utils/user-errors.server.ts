@@ -0,0 +1,65 @@
+/**
+ * userErrors in Shopify mutation responses
+ * A mutation Shopify refuses still returns HTTP 200 without top-level errors;
+ * the reasons are in userErrors lists inside the payload. They are found
+ * wherever they are, so every mutation is covered without knowing its payload.
+ */
+
+export interface ShopifyUserError {
+  // The mutation root field that reported it, e.g. productVariantsBulkUpdate
+  mutation: string;
+  // Path of the input field Shopify rejected, e.g. ["variants", "0", "price"]
+  field: string[] | null;
+  message: string;
+  code?: string;
+}
+
+// Keys holding user errors: userErrors, and typed variants like bulkOperationUserErrors
+const USER_ERRORS_KEY = /^(\w+U|u)serErrors$/;
+
+/**
+ * Every user error in a mutation response's data
+ */
+export function findUserErrors(data: unknown): ShopifyUserError[] {
+  if (!data || typeof data !== "object") return [];
+
+  const found: ShopifyUserError[] = [];
+  const visit = (value: unknown, mutation: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, mutation));
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    for (const [key, child] of Object.entries(value)) {
+      if (USER_ERRORS_KEY.test(key) && Array.isArray(child)) {
+        for (const error of child) {
+          if (error && typeof error.message === "string") {
+            found.push({
+              mutation,
+              field: Array.isArray(error.field) ? error.field.map(String) : null,
+              message: error.message,
+              ...(error.code ? { code: String(error.code) } : {})
+            });
+          }
+        }
+      } else {
+        visit(child, mutation);
+      }
+    }
+  };
+
+  for (const [rootField, payload] of Object.entries(data)) {
+    visit(payload, rootField);
+  }
+  return found;
+}
+
+/**
+ * User errors as one line for the model, e.g. "productVariantsBulkUpdate: variants.0.price: Price must be positive"
+ */
+export function formatUserErrors(errors: ShopifyUserError[]): string {
+  return errors
+    .map((error) => [error.mutation, error.field?.join("."), error.message].filter(Boolean).join(": "))
+    .join("; ");
+}
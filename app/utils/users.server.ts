@@ -0,0 +1,235 @@
+/**
+ * Assistant user accounts
+ * Users are kept in SQLite with scrypt password hashes. Accounts created through
+ * header-based SSO have no password and can only sign in through the proxy.
+ */
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase } from "./db.server";
+import { getDefaultRole, type Role } from "./permissions.server";
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Length of the derived key and salt, in bytes
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+interface UserRow extends User {
+  passwordHash: string | null;
+}
+
+const USER_COLUMNS = `
+  id, email, name, role, password_hash AS passwordHash,
+  created_at AS createdAt, last_login_at AS lastLoginAt
+`;
+
+// Prepared statements, created with the table on first use
+let statements: ReturnType<typeof prepareStatements> | null = null;
+
+function prepareStatements() {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      name TEXT NOT NULL,
+      role TEXT NOT NULL,
+      password_hash TEXT,
+      created_at TEXT NOT NULL,
+      last_login_at TEXT
+    );
+  `);
+
+  return {
+    selectById: db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`),
+    selectByEmail: db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE email = ?`),
+    selectAll: db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY email`),
+    count: db.prepare("SELECT COUNT(*) AS count FROM users"),
+    insert: db.prepare(`
+      INSERT INTO users (id, email, name, role, password_hash, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `),
+    updateRole: db.prepare("UPDATE users SET role = ? WHERE id = ?"),
+    updatePassword: db.prepare("UPDATE users SET password_hash = ? WHERE id = ?"),
+    updateLastLogin: db.prepare("UPDATE users SET last_login_at = ? WHERE id = ?"),
+    delete: db.prepare("DELETE FROM users WHERE id = ?")
+  };
+}
+
+function getStatements() {
+  if (!statements) {
+    statements = prepareStatements();
+  }
+  return statements;
+}
+
+// Drop the password hash before a user leaves this module
+function toUser(row: UserRow | undefined): User | null {
+  if (!row) return null;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { passwordHash, ...user } = row;
+  return user;
+}
+
+/**
+ * Hash a password as "scrypt$<salt>$<key>", both hex encoded
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword, in constant time
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [algorithm, salt, key] = hash.split("$");
+  if (algorithm !== "scrypt" || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "hex");
+  const actual = await scrypt(password, Buffer.from(salt, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export function getUserById(id: string): User | null {
+  return toUser(getStatements().selectById.get(id) as UserRow | undefined);
+}
+
+export function getUserByEmail(email: string): User | null {
+  return toUser(getStatements().selectByEmail.get(email.trim()) as UserRow | undefined);
+}
+
+export function listUsers(): User[] {
+  return (getStatements().selectAll.all() as UserRow[]).map((row) => toUser(row)!);
+}
+
+export function countUsers(): number {
+  return (getStatements().count.get() as { count: number }).count;
+}
+
+/**
+ * Create a user account
+ * Returns the new user, or an error if the details are unusable or the email is taken.
+ */
+export async function createUser({
+  email,
+  name,
+  role,
+  password,
+  onlyIfFirst = false
+}: {
+  email: string;
+  name?: string;
+  role: Role;
+  // Omitted for accounts that only sign in through SSO
+  password?: string;
+  // Only create it if there are no accounts yet, for the first admin
+  onlyIfFirst?: boolean;
+}): Promise<{ user?: User; error?: string }> {
+  const normalizedEmail = email.trim();
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalizedEmail)) {
+    return { error: "Please enter a valid email address" };
+  }
+  if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  const id = `user_${uuidv4()}`;
+  const passwordHash = password === undefined ? null : await hashPassword(password);
+
+  // Checked and inserted in one transaction, after the (slow) hashing, so two
+  // requests at once can't both create the first admin or the same email
+  const statements = getStatements();
+  const error = getDatabase().transaction((): string | null => {
+    if (onlyIfFirst && countUsers() > 0) {
+      return "The admin account has already been created. Please sign in.";
+    }
+    if (getUserByEmail(normalizedEmail)) {
+      return `There is already an account for ${normalizedEmail}`;
+    }
+    statements.insert.run(
+      id,
+      normalizedEmail,
+      name?.trim() || normalizedEmail.split("@")[0],
+      role,
+      passwordHash,
+      new Date().toISOString()
+    );
+    return null;
+  })();
+  if (error) {
+    return { error };
+  }
+
+  return { user: getUserById(id)! };
+}
+
+/**
+ * Check an email and password, returning the user they belong to
+ */
+export async function authenticateUser(email: string, password: string): Promise<User | null> {
+  const row = getStatements().selectByEmail.get(email.trim()) as UserRow | undefined;
+
+  if (!row?.passwordHash) {
+    // Hash anyway, so response times don't reveal which emails have accounts
+    await hashPassword(password);
+    return null;
+  }
+  if (!(await verifyPassword(password, row.passwordHash))) {
+    return null;
+  }
+
+  recordLogin(row.id);
+  return toUser(row);
+}
+
+/**
+ * Find the user for an email asserted by the SSO proxy, creating an account with the default role on first sign-in
+ */
+export async function findOrCreateSsoUser(email: string, name?: string): Promise<User | null> {
+  const existing = getUserByEmail(email);
+  if (existing) {
+    return existing;
+  }
+
+  const { user } = await createUser({ email, name, role: getDefaultRole() });
+  if (!user) {
+    return null;
+  }
+  recordLogin(user.id);
+  return getUserById(user.id);
+}
+
+export function recordLogin(id: string) {
+  getStatements().updateLastLogin.run(new Date().toISOString(), id);
+}
+
+export function setUserRole(id: string, role: Role) {
+  getStatements().updateRole.run(role, id);
+}
+
+export async function setUserPassword(id: string, password: string): Promise<{ error?: string }> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  getStatements().updatePassword.run(await hashPassword(password), id);
+  return {};
+}
+
+export function deleteUser(id: string) {
+  getStatements().delete.run(id);
+}
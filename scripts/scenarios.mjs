@@ -0,0 +1,92 @@
+/* eslint-env node */
+/**
+ * Replay the recorded scenarios, or record a new one
+ *
+ *   npm run scenarios                      replay every scenarios/*.json
+ *   npm run scenarios -- scenarios/a.json  replay the given files
+ *   npm run scenarios -- --record <name> --prompt "..." [--role editor] [--approval false] [--approve]
+ *
+ * Replaying needs no API keys or store: the model and Shopify are served from
+ * the recordings. Recording talks to the configured model provider and the
+ * default store from .env. The app's modules are loaded through Vite, so they
+ * run exactly as they do in the server.
+ */
+import dotenv from "dotenv";
+import { createServer } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+dotenv.config();
+// Operations, change records and audit entries of a scenario don't need to outlive it
+process.env.SQLITE_PATH = process.env.SQLITE_PATH || ":memory:";
+
+function readOptions(args) {
+  const options = { files: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--record") options.record = args[++i];
+    else if (arg === "--prompt") options.prompt = args[++i];
+    else if (arg === "--role") options.role = args[++i];
+    else if (arg === "--approval") options.requireApproval = args[++i] !== "false";
+    else if (arg === "--approve") options.approve = true;
+    else if (arg === "--dir") options.dir = args[++i];
+    else options.files.push(arg);
+  }
+  return options;
+}
+
+async function record(scenarios, options) {
+  if (!options.prompt) {
+    console.error("Recording needs a --prompt");
+    return false;
+  }
+  const scenario = await scenarios.recordScenario({
+    name: options.record,
+    prompt: options.prompt,
+    ...(options.role ? { role: options.role } : {}),
+    ...(options.requireApproval !== undefined ? { requireApproval: options.requireApproval } : {}),
+    ...(options.approve ? { approve: true } : {})
+  });
+  const file = scenarios.saveScenario(scenario, options.dir);
+  console.log(`Recorded ${scenario.recording.model.length} model response(s) and ${scenario.recording.shopify.length} Shopify response(s) to ${file}`);
+  return true;
+}
+
+async function replay(scenarios, options) {
+  const files = options.files.length > 0 ? options.files : scenarios.listScenarioFiles(options.dir);
+  if (files.length === 0) {
+    console.log("No scenarios to replay");
+    return true;
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const result = await scenarios.runScenario(scenarios.loadScenario(file));
+    console.log(`${result.passed ? "PASS" : "FAIL"} ${result.name}`);
+    for (const failure of result.failures) {
+      console.log(`  - ${failure}`);
+    }
+    if (!result.passed) failed++;
+  }
+  console.log(`\n${files.length - failed} passed, ${failed} failed`);
+  return failed === 0;
+}
+
+const options = readOptions(process.argv.slice(2));
+const vite = await createServer({
+  configFile: false,
+  plugins: [tsconfigPaths()],
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error"
+});
+
+let ok = false;
+try {
+  const scenarios = await vite.ssrLoadModule("/app/utils/scenarios.server.ts");
+  ok = options.record ? await record(scenarios, options) : await replay(scenarios, options);
+} catch (error) {
+  console.error(error);
+} finally {
+  await vite.close();
+}
+process.exit(ok ? 0 : 1);